@@ -0,0 +1,16 @@
+-- Publishing tools require the "dkg:publish" scope, grant it to the existing users
+UPDATE `users` SET `scope` = trim(`scope` || ' dkg:publish')
+WHERE (' ' || `scope` || ' ') NOT LIKE '% dkg:publish %';--> statement-breakpoint
+-- and to the registered clients of the agent app and Swagger, which request it
+-- (clients without a scope are allowed to request any scope)
+UPDATE `oauth_clients`
+SET `client_info` = json_set(
+  `client_info`,
+  '$.scope',
+  json_extract(`client_info`, '$.scope') || ' dkg:publish'
+)
+WHERE (
+  json_extract(`client_info`, '$.client_name') = 'Agent DKG'
+  OR `client_id` = 'swagger-client'
+)
+AND (' ' || json_extract(`client_info`, '$.scope') || ' ') NOT LIKE '% dkg:publish %';
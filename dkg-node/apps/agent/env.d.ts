@@ -14,6 +14,26 @@ declare global {
       DKG_PUBLISH_WALLET: string;
       DKG_BLOCKCHAIN: string;
       DKG_OTNODE_URL: string;
+      DKG_NETWORK?: string;
+      DKG_EXPLORER_URL?: string;
+      DKG_MAINNET_OTNODE_URL?: string;
+      DKG_MAINNET_BLOCKCHAIN?: string;
+      DKG_MAINNET_PUBLISH_WALLET?: string;
+      DKG_MAINNET_EXPLORER_URL?: string;
+      DKG_TESTNET_OTNODE_URL?: string;
+      DKG_TESTNET_BLOCKCHAIN?: string;
+      DKG_TESTNET_PUBLISH_WALLET?: string;
+      DKG_TESTNET_EXPLORER_URL?: string;
+      DKG_HARDHAT_OTNODE_URL?: string;
+      DKG_HARDHAT_BLOCKCHAIN?: string;
+      DKG_HARDHAT_PUBLISH_WALLET?: string;
+      DKG_HARDHAT_EXPLORER_URL?: string;
+      MCP_SESSIONS_REDIS_URL?: string;
+      BLOB_S3_BUCKET?: string;
+      BLOB_S3_ENDPOINT?: string;
+      BLOB_CONTENT_ADDRESSED?: string;
+      BLOB_QUOTA?: string;
+      BLOB_TTL?: string;
       SMTP_HOST: string;
       SMTP_PORT: string;
       SMTP_USER: string;
@@ -818,8 +818,12 @@ export default function ChatPage() {
 
                     return successful.map((data) => ({
                       ...data,
+                      // Previewed in the browser instead of downloaded
                       uri: new URL(
-                        process.env.EXPO_PUBLIC_MCP_URL + "/blob/" + data.id,
+                        process.env.EXPO_PUBLIC_MCP_URL +
+                          "/blob/" +
+                          data.id +
+                          "?disposition=inline",
                       ).toString(),
                     }));
                   })
@@ -27,7 +27,7 @@ const createTransport = (
       client_name: "Agent DKG",
       client_uri: clientUri,
       logo_uri: process.env.EXPO_PUBLIC_APP_URL + "/logo.png",
-      scope: "mcp llm blob",
+      scope: "mcp llm blob dkg:publish",
     },
     async (url) => {
       if (Platform.OS !== "web") {
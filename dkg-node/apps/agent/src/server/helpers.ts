@@ -57,7 +57,7 @@ export function configDatabase() {
         redirect_uris: ["http://localhost:9200/swagger/oauth2-redirect.html"],
         client_name: "Swagger Client",
         client_uri: "http://localhost:9200/swagger",
-        scope: "mcp llm scope123 blob",
+        scope: "mcp llm scope123 blob dkg:publish",
         client_secret: "swagger-secret",
         client_secret_expires_at:
           Math.floor(Date.now() / 1000) + 30 * 24 * 60 * 60,
@@ -1,20 +1,28 @@
 import path from "path";
-import { createPluginServer, defaultPlugin } from "@dkg/plugins";
+import {
+  createPluginServer,
+  createRedisMcpSessionStore,
+  defaultPlugin,
+  defineDkgPlugin,
+  resolveConfig,
+} from "@dkg/plugins";
+import { z } from "@dkg/plugins/helpers";
 import { authorized, createOAuthPlugin } from "@dkg/plugin-oauth";
 import dkgEssentialsPlugin from "@dkg/plugin-dkg-essentials";
 import createFsBlobStorage from "@dkg/plugin-dkg-essentials/createFsBlobStorage";
+import createS3BlobStorage from "@dkg/plugin-dkg-essentials/createS3BlobStorage";
 import examplePlugin from "@dkg/plugin-example";
 import deepAgentsKnowledgeMinerPlugin from "@dkg/plugin-deepagents-knowledge-miner";
 import swaggerPlugin from "@dkg/plugin-swagger";
-//@ts-expect-error No types for dkg.js ...
-import DKG from "dkg.js";
 import { eq } from "drizzle-orm";
+import IORedis from "ioredis";
 
 import { userCredentialsSchema } from "@/shared/auth";
 import { verify } from "@node-rs/argon2";
 
 import { configDatabase, configEnv } from "./helpers";
 import webInterfacePlugin from "./webInterfacePlugin";
+import progressPlugin from "./progressPlugin";
 import createAccountManagementPlugin from "./accountManagementPlugin";
 import {
   users,
@@ -22,6 +30,7 @@ import {
   SqliteAccountManagementProvider,
 } from "./database/sqlite";
 import mailer from "./mailer";
+import createDkgNetworks from "./networks";
 import { getTestMessageUrl } from "nodemailer";
 
 configEnv();
@@ -32,7 +41,7 @@ const version = "1.0.0";
 const { oauthPlugin, openapiSecurityScheme } = createOAuthPlugin({
   storage: new SqliteOAuthStorageProvider(db),
   issuerUrl: new URL(process.env.EXPO_PUBLIC_MCP_URL),
-  scopesSupported: ["mcp", "llm", "scope123", "blob"],
+  scopesSupported: ["mcp", "llm", "scope123", "blob", "admin", "dkg:publish"],
   loginPageUrl: new URL(process.env.EXPO_PUBLIC_APP_URL + "/login"),
   schema: userCredentialsSchema,
   async login(credentials) {
@@ -74,38 +83,79 @@ const accountManagementPlugin = createAccountManagementPlugin({
   },
 });
 
-const blobStorage = createFsBlobStorage(path.join(__dirname, "../data"));
+const dkgConfig = resolveConfig("server", {
+  schema: z.object({
+    MCP_SESSIONS_REDIS_URL: z.string().url().optional(),
+    BLOB_S3_BUCKET: z.string().min(1).optional(),
+    BLOB_S3_ENDPOINT: z.string().url().optional(),
+    BLOB_CONTENT_ADDRESSED: z.enum(["true", "false"]).optional(),
+    // Bytes per user and milliseconds since the last modification
+    BLOB_QUOTA: z.coerce.number().int().positive().optional(),
+    BLOB_TTL: z.coerce.number().int().positive().optional(),
+  }),
+});
+// DKG_OTNODE_URL, DKG_BLOCKCHAIN and DKG_PUBLISH_WALLET, per network
+const networks = createDkgNetworks();
 
-const otnodeUrl = new URL(process.env.DKG_OTNODE_URL);
+const blobOptions = {
+  contentAddressed: dkgConfig.BLOB_CONTENT_ADDRESSED === "true",
+  quota: dkgConfig.BLOB_QUOTA,
+  retention: { ttl: dkgConfig.BLOB_TTL },
+};
+// Region and credentials are read from the standard AWS_* variables
+const blobStorage = dkgConfig.BLOB_S3_BUCKET
+  ? createS3BlobStorage({
+      bucket: dkgConfig.BLOB_S3_BUCKET,
+      client: {
+        endpoint: dkgConfig.BLOB_S3_ENDPOINT,
+        // Required by MinIO and most other S3-compatible services
+        forcePathStyle: !!dkgConfig.BLOB_S3_ENDPOINT,
+      },
+      ...blobOptions,
+    })
+  : createFsBlobStorage(path.join(__dirname, "../data"), blobOptions);
 
 const app = createPluginServer({
   name: "DKG API",
   version,
   context: {
     blob: blobStorage,
-    dkg: new DKG({
-      endpoint: `${otnodeUrl.protocol}//${otnodeUrl.hostname}`,
-      port: otnodeUrl.port || "8900",
-      blockchain: {
-        name: process.env.DKG_BLOCKCHAIN,
-        privateKey: process.env.DKG_PUBLISH_WALLET,
-      },
-      maxNumberOfRetries: 300,
-      frequency: 2,
-      contentType: "all",
-      nodeApiVersion: "/v1",
-    }),
+    dkg: networks.get().dkg,
+    networks,
   },
+  // Required for resuming MCP sessions across multiple instances
+  mcp: dkgConfig.MCP_SESSIONS_REDIS_URL
+    ? {
+        store: createRedisMcpSessionStore(
+          new IORedis(dkgConfig.MCP_SESSIONS_REDIS_URL),
+        ),
+      }
+    : undefined,
   plugins: [
     defaultPlugin,
     oauthPlugin,
-    (_, __, api) => {
-      api.use("/mcp", authorized(["mcp"]));
-      api.use("/llm", authorized(["llm"]));
-      api.use("/blob", authorized([]));
-      api.use("/change-password", authorized([]));
-      api.use("/profile", authorized([]));
-    },
+    defineDkgPlugin({
+      name: "auth",
+      requires: ["oauth"],
+      // Has to run before the routes it protects
+      before: ["*"],
+      registerApi(_ctx, api) {
+        api.use("/mcp", authorized(["mcp"]));
+        api.use("/mcp/sessions", authorized(["admin"]));
+        api.use("/llm", authorized(["llm"]));
+        api.use("/blob", authorized([]));
+        api.use("/paranet", authorized([]));
+        // Paid by the node's wallet, like the paranet tools
+        api.post(
+          ["/paranet", "/paranet/collections", "/paranet/collections/review"],
+          authorized(["dkg:publish"]),
+        );
+        api.use("/change-password", authorized([]));
+        api.use("/profile", authorized([]));
+        api.use("/plugins", authorized(["admin"]));
+        api.use("/jsonld", authorized(["admin"]));
+      },
+    }),
     accountManagementPlugin,
     progressPlugin, // SSE endpoint for DeepAgents progress
     dkgEssentialsPlugin,
@@ -130,31 +180,25 @@ const app = createPluginServer({
   ],
 });
 
-// Configure progress publisher for DeepAgents
-import { publishProgress } from "@/shared/progress";
-import { setProgressPublisher } from "@dkg/plugin-deepagents-knowledge-miner";
-import progressPlugin from "./progressPlugin";
-setProgressPublisher(publishProgress);
 
 const port = process.env.PORT || 9200;
-const server = app.listen(port, (err) => {
-  if (err) {
+app
+  .start(port)
+  .then(() => {
+    console.log(`Server running at http://localhost:${port}/`);
+
+    const shutdown = () =>
+      app.close().then(
+        () => process.exit(0),
+        (err) => {
+          console.error(err);
+          process.exit(1);
+        },
+      );
+    process.on("SIGINT", shutdown);
+    process.on("SIGTERM", shutdown);
+  })
+  .catch((err) => {
     console.error(err);
     process.exit(1);
-  }
-  console.log(`Server running at http://localhost:${port}/`);
-
-  process.on("SIGINT", () => {
-    server.close();
-    process.exit(0);
-  });
-  process.on("SIGTERM", () => {
-    server.close((err) => {
-      if (err) {
-        console.error(err);
-        process.exit(1);
-      }
-      process.exit(0);
-    });
   });
-});
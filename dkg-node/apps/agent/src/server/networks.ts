@@ -0,0 +1,108 @@
+import {
+  createDkgNetworkRegistry,
+  DKG_NETWORK_PRESETS,
+  getNetworkPreset,
+  resolveConfig,
+  type DkgNetworkPreset,
+  type DkgNetworkProfile,
+} from "@dkg/plugins";
+import { z } from "@dkg/plugins/helpers";
+//@ts-expect-error No types for dkg.js ...
+import DKG from "dkg.js";
+
+const networkSchema = z.enum(
+  Object.keys(DKG_NETWORK_PRESETS) as [DkgNetworkPreset, ...DkgNetworkPreset[]],
+);
+
+const networksConfigSchema = z.object({
+  // Default network
+  DKG_OTNODE_URL: z.string().url(),
+  DKG_BLOCKCHAIN: z.string().min(1),
+  DKG_PUBLISH_WALLET: z.string().min(1),
+  /** Name of the default network, inferred from its blockchain */
+  DKG_NETWORK: networkSchema.optional(),
+  DKG_EXPLORER_URL: z.string().url().optional(),
+  // Other networks, read-only without a wallet
+  DKG_MAINNET_OTNODE_URL: z.string().url().optional(),
+  DKG_MAINNET_BLOCKCHAIN: z.string().min(1).optional(),
+  DKG_MAINNET_PUBLISH_WALLET: z.string().min(1).optional(),
+  DKG_MAINNET_EXPLORER_URL: z.string().url().optional(),
+  DKG_TESTNET_OTNODE_URL: z.string().url().optional(),
+  DKG_TESTNET_BLOCKCHAIN: z.string().min(1).optional(),
+  DKG_TESTNET_PUBLISH_WALLET: z.string().min(1).optional(),
+  DKG_TESTNET_EXPLORER_URL: z.string().url().optional(),
+  DKG_HARDHAT_OTNODE_URL: z.string().url().optional(),
+  DKG_HARDHAT_BLOCKCHAIN: z.string().min(1).optional(),
+  DKG_HARDHAT_PUBLISH_WALLET: z.string().min(1).optional(),
+  DKG_HARDHAT_EXPLORER_URL: z.string().url().optional(),
+});
+
+type NetworksConfig = z.infer<typeof networksConfigSchema>;
+
+const createDkgClient = (profile: DkgNetworkProfile) => {
+  const url = new URL(profile.endpoint);
+  return new DKG({
+    endpoint: `${url.protocol}//${url.hostname}`,
+    port: url.port || "8900",
+    blockchain: {
+      name: profile.blockchain,
+      privateKey: profile.wallet,
+    },
+    maxNumberOfRetries: 300,
+    frequency: 2,
+    contentType: "all",
+    nodeApiVersion: "/v1",
+  });
+};
+
+/** Profile of the network from `DKG_<NETWORK>_*`, if its OT-node is set */
+const getNetworkProfile = (
+  config: NetworksConfig,
+  network: DkgNetworkPreset,
+): DkgNetworkProfile | undefined => {
+  const prefix =
+    `DKG_${network.toUpperCase() as Uppercase<DkgNetworkPreset>}_` as const;
+  const endpoint = config[`${prefix}OTNODE_URL`];
+  if (!endpoint) return undefined;
+  return {
+    endpoint,
+    // The first blockchain of the network, i.e. Base
+    blockchain:
+      config[`${prefix}BLOCKCHAIN`] ??
+      DKG_NETWORK_PRESETS[network].blockchains[0]!,
+    wallet: config[`${prefix}PUBLISH_WALLET`],
+    explorerUrl: config[`${prefix}EXPLORER_URL`],
+  };
+};
+
+/**
+ * Registry of the networks the node can use. The default network is
+ * configured with `DKG_OTNODE_URL`, `DKG_BLOCKCHAIN` and `DKG_PUBLISH_WALLET`,
+ * the others with the same variables prefixed with their names,
+ * i.e. `DKG_MAINNET_OTNODE_URL`.
+ *
+ * @throws {PluginConfigError} If the configuration is missing or invalid.
+ */
+export default function createDkgNetworks() {
+  const config = resolveConfig("networks", { schema: networksConfigSchema });
+  const defaultNetwork =
+    config.DKG_NETWORK ?? getNetworkPreset(config.DKG_BLOCKCHAIN) ?? "default";
+
+  const profiles: Record<string, DkgNetworkProfile> = {};
+  for (const network of networkSchema.options) {
+    const profile = getNetworkProfile(config, network);
+    if (profile) profiles[network] = profile;
+  }
+  profiles[defaultNetwork] = {
+    endpoint: config.DKG_OTNODE_URL,
+    blockchain: config.DKG_BLOCKCHAIN,
+    wallet: config.DKG_PUBLISH_WALLET,
+    explorerUrl: config.DKG_EXPLORER_URL,
+  };
+
+  return createDkgNetworkRegistry({
+    defaultNetwork,
+    profiles,
+    createClient: createDkgClient,
+  });
+}
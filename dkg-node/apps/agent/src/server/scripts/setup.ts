@@ -182,13 +182,13 @@ EXPO_PUBLIC_APP_URL="http://localhost:8081"
       email: "admin@example.com",
       password: "admin123",
     },
-    ["mcp", "llm", "blob", "scope123"],
+    ["mcp", "llm", "blob", "scope123", "admin", "dkg:publish"],
   );
   console.log(`Created admin user:
   ID: ${userId}
   Email: admin@example.com
   Password: admin123
-  Scope: mcp, llm, blob, scope123
+  Scope: mcp, llm, blob, scope123, admin, dkg:publish
 
 To create new users, run 'npm run script:createUser' inside of the agent directory.
 `);
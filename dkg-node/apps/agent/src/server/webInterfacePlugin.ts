@@ -4,19 +4,29 @@ import { express } from "@dkg/plugins/helpers";
 import { createRequestHandler } from "@expo/server/adapter/express";
 
 export default (outputPath: string) =>
-  defineDkgPlugin((_ctx, _mcp, api) => {
-    api.use(
-      express.static(path.join(outputPath, "client"), {
-        maxAge: "1h",
-        extensions: ["html"],
-      }),
-    );
+  defineDkgPlugin({
+    name: "web-interface",
+    // Catch-all route, has to run after every other plugin
+    after: ["*", "swagger"],
+    registerApi(_ctx, api) {
+      api.use(
+        express.static(path.join(outputPath, "client"), {
+          maxAge: "1h",
+          extensions: ["html"],
+        }),
+      );
 
-    api.all("/{*all}", (req, res, next) => {
-      if (req.path === "/mcp") next();
-      else
-        createRequestHandler({
-          build: path.join(outputPath, "server"),
-        })(req, res, next);
-    });
+      api.all("/{*all}", (req, res, next) => {
+        if (
+          req.path === "/mcp" ||
+          req.path.startsWith("/mcp/") ||
+          req.path.startsWith("/plugins/")
+        )
+          next();
+        else
+          createRequestHandler({
+            build: path.join(outputPath, "server"),
+          })(req, res, next);
+      });
+    },
   });
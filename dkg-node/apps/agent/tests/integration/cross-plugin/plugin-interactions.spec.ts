@@ -25,9 +25,9 @@ describe("Cross-Plugin Integration", () => {
     await testServer.testDatabase.oauthStorage.saveToken(accessToken, {
       token: accessToken,
       clientId: testServer.testDatabase.testClient.client_id,
-      scopes: ["mcp", "blob", "scope123"],
+      scopes: ["mcp", "blob", "scope123", "dkg:publish"],
       expiresAt: Math.floor(Date.now() / 1000) + 3600,
-      extra: { type: "access" },
+      extra: { type: "access", userId: "test-user" },
     });
   });
 
@@ -63,7 +63,7 @@ describe("Cross-Plugin Integration", () => {
         clientId: testServer.testDatabase.testClient.client_id,
         scopes: ["mcp"], // No blob scope
         expiresAt: Math.floor(Date.now() / 1000) + 3600,
-        extra: { type: "access" },
+        extra: { type: "access", userId: "test-user" },
       });
 
       // Verify limited token cannot access blob endpoints
@@ -110,7 +110,8 @@ describe("Cross-Plugin Integration", () => {
           {
             "@type": "DataDownload",
             contentUrl: `dkg-blob://${blobId}`,
-            encodingFormat: "application/json",
+            // A literal, since schema.org coerces encodingFormat to IRIs
+            encodingFormat: { "@value": "application/json" },
             name: "integration-test.json",
           },
         ],
@@ -174,7 +175,7 @@ describe("Cross-Plugin Integration", () => {
         clientId: testServer.testDatabase.testClient.client_id,
         scopes: ["mcp", "blob"], // No scope123
         expiresAt: Math.floor(Date.now() / 1000) + 3600,
-        extra: { type: "access" },
+        extra: { type: "access", userId: "test-user" },
       });
 
       await request(testServer.app)
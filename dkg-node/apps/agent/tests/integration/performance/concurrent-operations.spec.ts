@@ -24,7 +24,7 @@ describe("Concurrent Operations Performance", () => {
       clientId: testServer.testDatabase.testClient.client_id,
       scopes: ["mcp", "blob"],
       expiresAt: Math.floor(Date.now() / 1000) + 3600,
-      extra: { type: "access" },
+      extra: { type: "access", userId: "test-user" },
     });
   });
 
@@ -25,7 +25,7 @@ describe("System Performance Monitoring", () => {
       clientId: testServer.testDatabase.testClient.client_id,
       scopes: ["mcp", "blob", "scope123"],
       expiresAt: Math.floor(Date.now() / 1000) + 3600,
-      extra: { type: "access" },
+      extra: { type: "access", userId: "test-user" },
     });
   });
 
@@ -185,7 +185,7 @@ describe("System Performance Monitoring", () => {
           clientId: testServer.testDatabase.testClient.client_id,
           scopes: ["blob"],
           expiresAt: Math.floor(Date.now() / 1000) + 3600,
-          extra: { type: "access" },
+          extra: { type: "access", userId: "test-user" },
         });
         tokens.push(token);
       }
@@ -233,7 +233,7 @@ describe("System Performance Monitoring", () => {
             clientId: testServer.testDatabase.testClient.client_id,
             scopes: ["blob"],
             expiresAt: Math.floor(Date.now() / 1000) + 3600,
-            extra: { type: "access" },
+            extra: { type: "access", userId: "test-user" },
           });
           return Date.now() - startTime;
         });
@@ -64,7 +64,12 @@ export const TEST_KNOWLEDGE_ASSETS = {
       name: "Test Research Institute",
     },
     dateCreated: new Date().toISOString(),
-    keywords: ["test", "integration", "dkg"],
+    // Literals, since schema.org coerces keywords to IRIs
+    keywords: [
+      { "@value": "test" },
+      { "@value": "integration" },
+      { "@value": "dkg" },
+    ],
     license: "https://creativecommons.org/licenses/by/4.0/",
   },
 };
@@ -32,7 +32,7 @@ export async function createTestToken(
     clientId: testServer.testDatabase.testClient.client_id,
     scopes,
     expiresAt: Math.floor(Date.now() / 1000) + 3600,
-    extra: { type: "access" },
+    extra: { type: "access", userId: "test-user" },
   });
 
   return token;
@@ -1,5 +1,10 @@
 import path from "path";
-import { createPluginServer, defaultPlugin } from "@dkg/plugins";
+import {
+  createPluginServer,
+  defaultPlugin,
+  defineDkgPlugin,
+  type DkgPluginServer,
+} from "@dkg/plugins";
 import { authorized, createOAuthPlugin } from "@dkg/plugin-oauth";
 import dkgEssentialsPlugin from "@dkg/plugin-dkg-essentials";
 import createFsBlobStorage from "@dkg/plugin-dkg-essentials/createFsBlobStorage";
@@ -17,7 +22,6 @@ import { verify } from "@node-rs/argon2";
 import { users } from "../../../src/server/database/sqlite";
 import { eq } from "drizzle-orm";
 import { createTestDatabase } from "./test-database";
-import { Express } from "express";
 import fs from "fs";
 // DKG imported dynamically only when needed
 
@@ -33,7 +37,7 @@ export interface TestServerConfig {
  * but with configurable test databases and services
  */
 export async function createTestServer(config: TestServerConfig = {}): Promise<{
-  app: Express;
+  app: DkgPluginServer;
   cleanup: () => Promise<void>;
   testDatabase: Awaited<ReturnType<typeof createTestDatabase>>;
   oauthUrls: {
@@ -83,7 +87,7 @@ export async function createTestServer(config: TestServerConfig = {}): Promise<{
   const { oauthPlugin, openapiSecurityScheme } = createOAuthPlugin({
     storage: testDatabase.oauthStorage,
     issuerUrl: new URL(oauthUrls.issuerUrl),
-    scopesSupported: ["mcp", "llm", "scope123", "blob"],
+    scopesSupported: ["mcp", "llm", "scope123", "blob", "dkg:publish"],
     loginPageUrl: new URL(oauthUrls.loginPageUrl),
     schema: userCredentialsSchema,
     async login(credentials: { email: string; password: string }) {
@@ -147,11 +151,16 @@ export async function createTestServer(config: TestServerConfig = {}): Promise<{
       defaultPlugin,
       oauthPlugin,
       // Same authorization middleware as real app
-      (_, __, api) => {
-        api.use("/mcp", authorized(["mcp"]));
-        api.use("/llm", authorized(["llm"]));
-        api.use("/blob", authorized(["blob"]));
-      },
+      defineDkgPlugin({
+        name: "auth",
+        requires: ["oauth"],
+        before: ["*"],
+        registerApi(_ctx, api) {
+          api.use("/mcp", authorized(["mcp"]));
+          api.use("/llm", authorized(["llm"]));
+          api.use("/blob", authorized(["blob"]));
+        },
+      }),
       dkgEssentialsPlugin,
       // DKG Publisher Plugin for API contract testing
       mockDkgPublisherPlugin, // Mock version - tests interfaces without database
@@ -182,6 +191,7 @@ export async function createTestServer(config: TestServerConfig = {}): Promise<{
     testDatabase.cleanup();
     if (tempBlobDir && fs.existsSync(tempBlobDir)) {
       fs.rmSync(tempBlobDir, { recursive: true, force: true });
+      fs.rmSync(`${tempBlobDir}.metadata`, { recursive: true, force: true });
     }
   };
 
@@ -197,7 +207,7 @@ export async function createTestServer(config: TestServerConfig = {}): Promise<{
  * Starts a test server and returns the running instance with cleanup
  */
 export async function startTestServer(config: TestServerConfig = {}): Promise<{
-  app: Express;
+  app: DkgPluginServer;
   url: string;
   cleanup: () => Promise<void>;
   testDatabase: Awaited<ReturnType<typeof createTestDatabase>>;
@@ -214,37 +224,28 @@ export async function startTestServer(config: TestServerConfig = {}): Promise<{
   } = await createTestServer(config);
   const port = config.port || 0;
 
-  return new Promise((resolve, reject) => {
-    const server = app.listen(port, (err?: any) => {
-      if (err) {
-        serverCleanup().catch(console.error);
-        reject(err);
-        return;
-      }
-
-      const actualPort = (server.address() as any)?.port || port;
-      const url = `http://localhost:${actualPort}`;
-
-      console.log(`Test server running at ${url}`);
-
-      resolve({
-        app,
-        url,
-        testDatabase,
-        oauthUrls: {
-          issuerUrl: `${url}/oauth/`,
-          loginPageUrl: `${url}/login`,
-        },
-        cleanup: async () => {
-          return new Promise((res) => {
-            server.close(async () => {
-              await serverCleanup();
-              console.log(`Test server stopped`);
-              res();
-            });
-          });
-        },
-      });
-    });
+  const server = await app.start(port).catch(async (err) => {
+    await serverCleanup().catch(console.error);
+    throw err;
   });
+
+  const actualPort = (server.address() as any)?.port || port;
+  const url = `http://localhost:${actualPort}`;
+
+  console.log(`Test server running at ${url}`);
+
+  return {
+    app,
+    url,
+    testDatabase,
+    oauthUrls: {
+      issuerUrl: `${url}/oauth/`,
+      loginPageUrl: `${url}/login`,
+    },
+    cleanup: async () => {
+      await app.close();
+      await serverCleanup();
+      console.log(`Test server stopped`);
+    },
+  };
 }
@@ -25,7 +25,7 @@ describe("Error Handling & Edge Cases", () => {
       clientId: testServer.testDatabase.testClient.client_id,
       scopes: ["mcp", "blob", "scope123"],
       expiresAt: Math.floor(Date.now() / 1000) + 3600,
-      extra: { type: "access" },
+      extra: { type: "access", userId: "test-user" },
     });
   });
 
@@ -117,7 +117,6 @@ describe("Error Handling & Edge Cases", () => {
         "nonexistent-blob-id",
         "00000000-0000-0000-0000-000000000000_fake.txt",
         "invalid-uuid-format",
-        "",
         "null",
       ];
 
@@ -130,6 +129,15 @@ describe("Error Handling & Edge Cases", () => {
       }
     });
 
+    it("should list blobs for an empty blob ID", async () => {
+      const response = await request(testServer.app)
+        .get("/blob/")
+        .set("Authorization", `Bearer ${accessToken}`);
+
+      expect(response.status).to.equal(200);
+      expect(response.body.blobs).to.be.an("array");
+    });
+
     it("should handle concurrent uploads to same filename", async () => {
       const filename = "concurrent-test.txt";
       const uploads = Array.from({ length: 5 }, (_, i) =>
@@ -164,7 +172,7 @@ describe("Error Handling & Edge Cases", () => {
         clientId: testServer.testDatabase.testClient.client_id,
         scopes: ["mcp", "blob"],
         expiresAt: Math.floor(Date.now() / 1000) - 3600, // 1 hour ago
-        extra: { type: "access" },
+        extra: { type: "access", userId: "test-user" },
       });
 
       await request(testServer.app)
@@ -198,7 +206,7 @@ describe("Error Handling & Edge Cases", () => {
         clientId: testServer.testDatabase.testClient.client_id,
         scopes: ["mcp", "blob"],
         expiresAt: Math.floor(Date.now() / 1000) + 3600,
-        extra: { type: "access" },
+        extra: { type: "access", userId: "test-user" },
       });
 
       // Verify token works
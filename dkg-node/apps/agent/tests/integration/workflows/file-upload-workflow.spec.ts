@@ -31,9 +31,9 @@ describe("File Upload Workflow Integration", () => {
     await testServer.testDatabase.oauthStorage.saveToken(accessToken, {
       token: accessToken,
       clientId: testServer.testDatabase.testClient.client_id,
-      scopes: ["mcp", "blob"],
+      scopes: ["mcp", "blob", "dkg:publish"],
       expiresAt: Math.floor(Date.now() / 1000) + 3600, // 1 hour from now
-      extra: { type: "access" },
+      extra: { type: "access", userId: "test-user" },
     });
   });
 
@@ -94,7 +94,8 @@ describe("File Upload Workflow Integration", () => {
           {
             "@type": "DataDownload",
             contentUrl: `dkg-blob://${blobId}`,
-            encodingFormat: TEST_FILES.jsonData.mimeType,
+            // A literal, since schema.org coerces encodingFormat to IRIs
+            encodingFormat: { "@value": TEST_FILES.jsonData.mimeType },
             name: TEST_FILES.jsonData.filename,
           },
         ],
@@ -204,7 +205,9 @@ describe("File Upload Workflow Integration", () => {
           return {
             "@type": "DataDownload",
             contentUrl: `dkg-blob://${blobId}`,
-            encodingFormat: fileData?.mimeType || "application/octet-stream",
+            encodingFormat: {
+              "@value": fileData?.mimeType || "application/octet-stream",
+            },
             name: fileData?.filename || `file-${index}`,
           };
         }),
@@ -369,7 +372,7 @@ describe("File Upload Workflow Integration", () => {
         clientId: testServer.testDatabase.testClient.client_id,
         scopes: ["mcp"], // No blob scope
         expiresAt: Math.floor(Date.now() / 1000) + 3600,
-        extra: { type: "access" },
+        extra: { type: "access", userId: "test-user" },
       });
 
       await request(testServer.app)
@@ -409,7 +412,7 @@ describe("File Upload Workflow Integration", () => {
         clientId: testServer.testDatabase.testClient.client_id,
         scopes: ["mcp"], // No blob scope
         expiresAt: Math.floor(Date.now() / 1000) + 3600,
-        extra: { type: "access" },
+        extra: { type: "access", userId: "test-user" },
       });
 
       await request(testServer.app)
@@ -580,7 +583,7 @@ describe("File Upload Workflow Integration", () => {
         clientId: testServer.testDatabase.testClient.client_id,
         scopes: ["mcp", "scope123"],
         expiresAt: Math.floor(Date.now() / 1000) + 3600,
-        extra: { type: "access" },
+        extra: { type: "access", userId: "test-user" },
       });
 
       // Should be able to access protected namespace endpoint
@@ -0,0 +1,102 @@
+/**
+ * Generates the bundled schema.org context from the schema.org vocabulary
+ * of the `@vocabulary/schema` package, the same way schema.org generates
+ * the context it serves: every term is mapped to its IRI, and properties
+ * are coerced to IRIs, dates or date-times by their ranges.
+ *
+ * Usage: npm run generate:schema-org
+ */
+import fs from "fs";
+import path from "path";
+import { createRequire } from "module";
+import { Parser } from "n3";
+
+const require = createRequire(import.meta.url);
+
+const SCHEMA = "http://schema.org/";
+const RDF = "http://www.w3.org/1999/02/22-rdf-syntax-ns#";
+const RANGE_INCLUDES = `${SCHEMA}rangeIncludes`;
+
+const prefixes = {
+  brick: "https://brickschema.org/schema/Brick#",
+  csvw: "http://www.w3.org/ns/csvw#",
+  dc: "http://purl.org/dc/elements/1.1/",
+  dcam: "http://purl.org/dc/dcam/",
+  dcat: "http://www.w3.org/ns/dcat#",
+  dcmitype: "http://purl.org/dc/dcmitype/",
+  dcterms: "http://purl.org/dc/terms/",
+  doap: "http://usefulinc.com/ns/doap#",
+  eli: "http://data.europa.eu/eli/ontology#",
+  foaf: "http://xmlns.com/foaf/0.1/",
+  odrl: "http://www.w3.org/ns/odrl/2/",
+  org: "http://www.w3.org/ns/org#",
+  owl: "http://www.w3.org/2002/07/owl#",
+  prof: "http://www.w3.org/ns/dx/prof/",
+  prov: "http://www.w3.org/ns/prov#",
+  qb: "http://purl.org/linked-data/cube#",
+  rdf: RDF,
+  rdfs: "http://www.w3.org/2000/01/rdf-schema#",
+  schema: SCHEMA,
+  sh: "http://www.w3.org/ns/shacl#",
+  skos: "http://www.w3.org/2004/02/skos/core#",
+  snomed: "http://purl.bioontology.org/ontology/SNOMEDCT/",
+  sosa: "http://www.w3.org/ns/sosa/",
+  ssn: "http://www.w3.org/ns/ssn/",
+  time: "http://www.w3.org/2006/time#",
+  vann: "http://purl.org/vocab/vann/",
+  void: "http://rdfs.org/ns/void#",
+  xml: "http://www.w3.org/XML/1998/namespace",
+  xsd: "http://www.w3.org/2001/XMLSchema#",
+};
+
+const vocabularyPath = require.resolve("@vocabulary/schema/schema.nq");
+const { version } = require("@vocabulary/schema/package.json");
+const quads = new Parser({ format: "N-Quads" }).parse(
+  fs.readFileSync(vocabularyPath, "utf8"),
+);
+
+const terms = new Set<string>();
+const ranges = new Map<string, Set<string>>();
+for (const { subject, predicate, object } of quads) {
+  if (!subject.value.startsWith(SCHEMA)) continue;
+  const term = subject.value.slice(SCHEMA.length);
+  if (!/^[A-Za-z0-9_]+$/.test(term)) continue;
+
+  terms.add(term);
+  if (predicate.value === RANGE_INCLUDES) {
+    if (!ranges.has(term)) ranges.set(term, new Set());
+    ranges.get(term)!.add(object.value.replace(SCHEMA, ""));
+  }
+}
+
+const coercion = (term: string) => {
+  const range = ranges.get(term);
+  if (range?.has("URL")) return { "@type": "@id" };
+  if (range?.has("Date")) return { "@type": "Date" };
+  if (range?.has("DateTime")) return { "@type": "DateTime" };
+  return {};
+};
+
+const context = {
+  "@context": {
+    type: "@type",
+    id: "@id",
+    HTML: { "@id": "rdf:HTML" },
+    "@vocab": SCHEMA,
+    ...prefixes,
+    ...Object.fromEntries(
+      [...terms]
+        .sort()
+        .map((term) => [term, { "@id": `schema:${term}`, ...coercion(term) }]),
+    ),
+  },
+};
+
+const output = path.resolve(
+  import.meta.dirname,
+  "../src/contexts/schema-org.json",
+);
+fs.writeFileSync(output, JSON.stringify(context, null, 2) + "\n");
+console.log(
+  `Generated ${output} with ${terms.size} terms from @vocabulary/schema ${version}`,
+);
@@ -0,0 +1,43 @@
+import type { JsonLd } from "jsonld/jsonld-spec";
+import schemaOrgContext from "./contexts/schema-org.json";
+import dkgContext from "./contexts/dkg.json";
+
+export type BundledContext = {
+  name: string;
+  version: string;
+  /** URLs the context is resolved for */
+  urls: string[];
+  document: JsonLd;
+};
+
+/** Contexts that are resolved offline, without fetching them */
+export const bundledContexts: BundledContext[] = [
+  {
+    name: "schema.org",
+    // Version of @vocabulary/schema, see scripts/generate-schema-org-context.mts
+    version: "1.1.0",
+    urls: [
+      "http://schema.org",
+      "http://schema.org/",
+      "https://schema.org",
+      "https://schema.org/",
+      "http://schema.org/docs/jsonldcontext.json",
+      "https://schema.org/docs/jsonldcontext.json",
+      "http://schema.org/docs/jsonldcontext.jsonld",
+      "https://schema.org/docs/jsonldcontext.jsonld",
+    ],
+    document: schemaOrgContext,
+  },
+  {
+    name: "DKG ontology",
+    version: "1.0",
+    urls: [
+      "https://ontology.origintrail.io/dkg/1.0",
+      "https://ontology.origintrail.io/dkg/1.0#",
+    ],
+    document: dkgContext,
+  },
+];
+
+export const findBundledContext = (url: string) =>
+  bundledContexts.find((context) => context.urls.includes(url));
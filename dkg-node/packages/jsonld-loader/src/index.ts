@@ -0,0 +1,10 @@
+export { bundledContexts, type BundledContext } from "./contexts";
+export {
+  createJsonLdLoader,
+  getDefaultJsonLdLoader,
+  type ContextInfo,
+  type DocumentLoader,
+  type JsonLdLoader,
+  type JsonLdLoaderOptions,
+} from "./jsonldLoader";
+export { toAssetNQuads, type AssetNQuads } from "./nquads";
@@ -0,0 +1,190 @@
+import { createHash } from "crypto";
+import fs from "fs/promises";
+import path from "path";
+import * as jsonld from "jsonld";
+import type { JsonLd, RemoteDocument } from "jsonld/jsonld-spec";
+import { bundledContexts, findBundledContext } from "./contexts";
+
+export type DocumentLoader = (url: string) => Promise<RemoteDocument>;
+
+export type ContextInfo = {
+  url: string;
+  /**
+   * Bundled with this package, registered by an admin,
+   * or fetched from the URL and cached
+   */
+  source: "bundled" | "registered" | "cached";
+  /** Version of a bundled context */
+  version?: string;
+};
+
+export type JsonLdLoader = {
+  /** The `documentLoader` option of jsonld */
+  load: DocumentLoader;
+  /**
+   * Registers a custom context, taking precedence over the bundled ones.
+   * It is stored in the cache directory, if there is one.
+   *
+   * @throws {Error} If the document does not have a `@context`.
+   */
+  register: (url: string, document: object) => Promise<void>;
+  /** Lists the bundled, registered and cached contexts */
+  list: () => Promise<ContextInfo[]>;
+};
+
+export type JsonLdLoaderOptions = {
+  /** Directory where registered and fetched contexts are stored */
+  cacheDir?: string;
+  /**
+   * Whether contexts that are neither bundled nor cached are fetched
+   * from their URLs. Defaults to true.
+   */
+  fetch?: boolean;
+  /** Loads the documents to fetch, defaults to the node loader of jsonld */
+  fetchDocument?: DocumentLoader;
+  /** Custom contexts to register, by their URLs */
+  contexts?: Record<string, JsonLd>;
+};
+
+type StoredContext = {
+  url: string;
+  source: "registered" | "cached";
+  document: JsonLd;
+};
+
+const toRemoteDocument = (url: string, document: JsonLd): RemoteDocument => ({
+  contextUrl: undefined,
+  documentUrl: url,
+  document,
+});
+
+const isNotFound = (error: unknown) =>
+  (error as NodeJS.ErrnoException).code === "ENOENT";
+
+/**
+ * Resolves JSON-LD contexts from the registered ones, the cache directory
+ * and the bundled ones, in that order. Other contexts are fetched once
+ * and cached, unless fetching is disabled, i.e. on air-gapped nodes.
+ */
+export const createJsonLdLoader = ({
+  cacheDir,
+  fetch = true,
+  fetchDocument = (jsonld as unknown as { documentLoader: DocumentLoader })
+    .documentLoader,
+  contexts = {},
+}: JsonLdLoaderOptions = {}): JsonLdLoader => {
+  // Contexts read from the cache directory only once, or null if not stored
+  const stored = new Map<string, Promise<StoredContext | null>>(
+    Object.entries(contexts).map(([url, document]) => [
+      url,
+      Promise.resolve({ url, source: "registered", document }),
+    ]),
+  );
+
+  const cacheFile = (dir: string, url: string) =>
+    path.join(dir, `${createHash("sha256").update(url).digest("hex")}.json`);
+
+  const read = async (url: string) => {
+    if (!cacheDir) return null;
+    try {
+      const content = await fs.readFile(cacheFile(cacheDir, url), "utf8");
+      return JSON.parse(content) as StoredContext;
+    } catch (error) {
+      if (isNotFound(error)) return null;
+      throw error;
+    }
+  };
+
+  const write = async (context: StoredContext) => {
+    if (!cacheDir) return;
+    await fs.mkdir(cacheDir, { recursive: true });
+    await fs.writeFile(
+      cacheFile(cacheDir, context.url),
+      JSON.stringify(context),
+    );
+  };
+
+  const remember = (url: string, context: Promise<StoredContext | null>) => {
+    stored.set(url, context);
+    // Failures are not remembered, so that they can be retried
+    context.catch(() => stored.delete(url));
+    return context;
+  };
+
+  const fetchContext = async (url: string): Promise<StoredContext> => {
+    const { document } = await fetchDocument(url);
+    const context: StoredContext = {
+      url,
+      source: "cached",
+      document: typeof document === "string" ? JSON.parse(document) : document,
+    };
+    // The context is still usable, only not cached for the next start
+    await write(context).catch((error) =>
+      console.error(`Failed to cache context ${url}:`, error),
+    );
+    return context;
+  };
+
+  return {
+    async load(url) {
+      const context = await (stored.get(url) ?? remember(url, read(url)));
+      if (context) return toRemoteDocument(url, context.document);
+
+      const bundled = findBundledContext(url);
+      if (bundled) return toRemoteDocument(url, bundled.document);
+
+      if (!fetch) throw new Error(`Context ${url} is not available offline`);
+      const fetched = await remember(url, fetchContext(url));
+      return toRemoteDocument(url, fetched!.document);
+    },
+
+    async register(url, document) {
+      if (Array.isArray(document) || !("@context" in document))
+        throw new Error(`Context ${url} does not have a @context`);
+
+      const context: StoredContext = {
+        url,
+        source: "registered",
+        document: document as JsonLd,
+      };
+      await write(context);
+      stored.set(url, Promise.resolve(context));
+    },
+
+    async list() {
+      const contexts = new Map<string, StoredContext>();
+      if (cacheDir) {
+        const files = await fs.readdir(cacheDir).catch((error) => {
+          if (isNotFound(error)) return [];
+          throw error;
+        });
+        for (const file of files.filter((f) => f.endsWith(".json"))) {
+          const content = await fs.readFile(path.join(cacheDir, file), "utf8");
+          const context = JSON.parse(content) as StoredContext;
+          contexts.set(context.url, context);
+        }
+      }
+      for (const context of await Promise.all(
+        [...stored.values()].map((c) => c.catch(() => null)),
+      )) {
+        if (context) contexts.set(context.url, context);
+      }
+
+      return [
+        ...bundledContexts.flatMap(({ urls, version }) =>
+          urls.map((url) => ({ url, source: "bundled" as const, version })),
+        ),
+        ...[...contexts.values()].map(({ url, source }) => ({ url, source })),
+      ];
+    },
+  };
+};
+
+let defaultLoader: JsonLdLoader | undefined;
+
+/**
+ * Loader with the bundled contexts and an in-memory cache,
+ * for processing JSON-LD without a configured loader.
+ */
+export const getDefaultJsonLdLoader = () =>
+  (defaultLoader ??= createJsonLdLoader());
@@ -0,0 +1,40 @@
+import * as jsonld from "jsonld";
+import type { DocumentLoader } from "./jsonldLoader";
+
+export type AssetNQuads = { public: string; private?: string };
+
+/**
+ * In safe mode, the default of jsonld and dkg.js, data that would be dropped
+ * instead fails, i.e. relative IRIs like "application/json" in properties
+ * that schema.org coerces to IRIs. Such values must be written as literals,
+ * `{ "@value": "application/json" }`.
+ */
+const canonize = (document: object, documentLoader: DocumentLoader) =>
+  jsonld.canonize(document, {
+    algorithm: "URDNA2015",
+    format: "application/n-quads",
+    documentLoader,
+  });
+
+/**
+ * Canonicalizes the content of a Knowledge Asset, either JSON-LD or JSON-LD
+ * wrapped as `{ public, private }`, the same way as dkg.js does,
+ * but resolving the contexts with the `documentLoader`.
+ * The result can be passed to `dkg.asset.create` as it is.
+ */
+export const toAssetNQuads = async (
+  content: object,
+  documentLoader: DocumentLoader,
+): Promise<AssetNQuads> => {
+  const { public: publicPart, private: privatePart } =
+    "public" in content || "private" in content
+      ? (content as { public?: object; private?: object })
+      : { public: content, private: undefined };
+
+  const nquads: AssetNQuads = {
+    public: publicPart ? await canonize(publicPart, documentLoader) : "",
+  };
+  if (privatePart && Object.keys(privatePart).length)
+    nquads.private = await canonize(privatePart, documentLoader);
+  return nquads;
+};
@@ -0,0 +1,254 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import { describe, it, beforeEach, afterEach } from "mocha";
+import { expect } from "chai";
+import sinon from "sinon";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import * as jsonld from "jsonld";
+import {
+  createJsonLdLoader,
+  getDefaultJsonLdLoader,
+  toAssetNQuads,
+} from "../dist/index.js";
+
+const customUrl = "https://example.org/context.jsonld";
+const customContext = { "@context": { "@vocab": "https://example.org/" } };
+
+const toNQuads = (document: object, documentLoader: any) =>
+  jsonld.canonize(document, {
+    algorithm: "URDNA2015",
+    format: "application/n-quads",
+    documentLoader,
+  });
+
+describe("@dkg/jsonld-loader", () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), "dkg-jsonld-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  describe("Bundled contexts", () => {
+    const offlineLoader = createJsonLdLoader({ fetch: false });
+
+    it("should resolve the schema.org context offline", async () => {
+      const nquads = await toNQuads(
+        {
+          "@context": "https://schema.org",
+          "@id": "urn:person:1",
+          "@type": "Person",
+          name: "Alice",
+          url: "https://example.org/alice",
+          birthDate: "1990-01-01",
+        },
+        offlineLoader.load,
+      );
+
+      expect(nquads.split("\n").filter(Boolean)).to.deep.equal([
+        '<urn:person:1> <http://schema.org/birthDate> "1990-01-01"^^<http://schema.org/Date> .',
+        '<urn:person:1> <http://schema.org/name> "Alice" .',
+        "<urn:person:1> <http://schema.org/url> <https://example.org/alice> .",
+        "<urn:person:1> <http://www.w3.org/1999/02/22-rdf-syntax-ns#type> <http://schema.org/Person> .",
+      ]);
+    });
+
+    it("should resolve the DKG ontology context offline", async () => {
+      const nquads = await toNQuads(
+        {
+          "@context": "https://ontology.origintrail.io/dkg/1.0",
+          "@id": "urn:collection:1",
+          hasKnowledgeAsset: "urn:asset:1",
+        },
+        offlineLoader.load,
+      );
+
+      expect(nquads).to.equal(
+        "<urn:collection:1> <https://ontology.origintrail.io/dkg/1.0#hasKnowledgeAsset> <urn:asset:1> .\n",
+      );
+    });
+
+    it("should not fetch other contexts when offline", async () => {
+      try {
+        await offlineLoader.load(customUrl);
+        expect.fail("Should have thrown");
+      } catch (error: any) {
+        expect(error.message).to.equal(
+          `Context ${customUrl} is not available offline`,
+        );
+      }
+    });
+
+    it("should share the default loader", () => {
+      expect(getDefaultJsonLdLoader()).to.equal(getDefaultJsonLdLoader());
+    });
+  });
+
+  describe("Filesystem cache", () => {
+    it("should fetch contexts once and cache them", async () => {
+      const fetchDocument = sinon.stub().resolves({
+        documentUrl: customUrl,
+        document: JSON.stringify(customContext),
+      });
+      const loader = createJsonLdLoader({ cacheDir: directory, fetchDocument });
+
+      await loader.load(customUrl);
+      const { document } = await loader.load(customUrl);
+
+      expect(document).to.deep.equal(customContext);
+      expect(fetchDocument.calledOnceWith(customUrl)).to.equal(true);
+
+      // Available offline after a restart
+      const offline = createJsonLdLoader({ cacheDir: directory, fetch: false });
+      expect((await offline.load(customUrl)).document).to.deep.equal(
+        customContext,
+      );
+    });
+
+    it("should retry failed fetches", async () => {
+      const fetchDocument = sinon.stub();
+      fetchDocument.onFirstCall().rejects(new Error("Network error"));
+      fetchDocument.onSecondCall().resolves({
+        documentUrl: customUrl,
+        document: customContext,
+      });
+      const loader = createJsonLdLoader({ cacheDir: directory, fetchDocument });
+
+      try {
+        await loader.load(customUrl);
+        expect.fail("Should have thrown");
+      } catch (error: any) {
+        expect(error.message).to.equal("Network error");
+      }
+      expect((await loader.load(customUrl)).document).to.deep.equal(
+        customContext,
+      );
+    });
+  });
+
+  describe("Registered contexts", () => {
+    it("should persist registered contexts", async () => {
+      const loader = createJsonLdLoader({ cacheDir: directory, fetch: false });
+      await loader.register(customUrl, customContext);
+
+      expect((await loader.load(customUrl)).document).to.deep.equal(
+        customContext,
+      );
+
+      const restarted = createJsonLdLoader({
+        cacheDir: directory,
+        fetch: false,
+      });
+      expect((await restarted.load(customUrl)).document).to.deep.equal(
+        customContext,
+      );
+    });
+
+    it("should take precedence over the bundled contexts", async () => {
+      const loader = createJsonLdLoader({
+        fetch: false,
+        contexts: { "https://schema.org": customContext },
+      });
+
+      const { document } = await loader.load("https://schema.org");
+
+      expect(document).to.deep.equal(customContext);
+    });
+
+    it("should reject documents without a @context", async () => {
+      const loader = createJsonLdLoader({ cacheDir: directory });
+
+      try {
+        await loader.register(customUrl, { "@vocab": "https://example.org/" });
+        expect.fail("Should have thrown");
+      } catch (error: any) {
+        expect(error.message).to.equal(
+          `Context ${customUrl} does not have a @context`,
+        );
+      }
+    });
+
+    it("should list bundled, registered and cached contexts", async () => {
+      const cachedUrl = "https://example.org/cached.jsonld";
+      const loader = createJsonLdLoader({
+        cacheDir: directory,
+        fetchDocument: (url) =>
+          Promise.resolve({ documentUrl: url, document: customContext }),
+      });
+      await loader.register(customUrl, customContext);
+      await loader.load(cachedUrl);
+
+      const contexts = await createJsonLdLoader({
+        cacheDir: directory,
+      }).list();
+
+      expect(contexts).to.deep.include({
+        url: "https://schema.org",
+        source: "bundled",
+        version: "1.1.0",
+      });
+      expect(
+        contexts.filter((c) => c.source !== "bundled"),
+      ).to.have.deep.members([
+        { url: customUrl, source: "registered" },
+        { url: cachedUrl, source: "cached" },
+      ]);
+    });
+  });
+
+  describe("Knowledge Asset N-Quads", () => {
+    const { load } = createJsonLdLoader({ fetch: false });
+    const thing = {
+      "@context": "https://schema.org",
+      "@id": "urn:thing:1",
+      name: "A",
+    };
+
+    it("should canonicalize public content", async () => {
+      expect(await toAssetNQuads(thing, load)).to.deep.equal({
+        public: '<urn:thing:1> <http://schema.org/name> "A" .\n',
+      });
+    });
+
+    it("should canonicalize public and private parts", async () => {
+      const nquads = await toAssetNQuads(
+        { public: thing, private: { ...thing, name: "B" } },
+        load,
+      );
+
+      expect(nquads).to.deep.equal({
+        public: '<urn:thing:1> <http://schema.org/name> "A" .\n',
+        private: '<urn:thing:1> <http://schema.org/name> "B" .\n',
+      });
+    });
+
+    it("should only have an empty public part for private content", async () => {
+      expect(await toAssetNQuads({ private: thing }, load)).to.deep.equal({
+        public: "",
+        private: '<urn:thing:1> <http://schema.org/name> "A" .\n',
+      });
+    });
+
+    it("should reject relative IRIs, like dkg.js", async () => {
+      const file = { ...thing, encodingFormat: "application/json" };
+
+      await toAssetNQuads(file, load).then(
+        () => expect.fail("Should have thrown an error"),
+        (error: Error) => expect(error.message).to.include("Safe mode"),
+      );
+      expect(
+        await toAssetNQuads(
+          { ...thing, encodingFormat: { "@value": "application/json" } },
+          load,
+        ),
+      )
+        .to.have.property("public")
+        .that.includes('"application/json"');
+    });
+  });
+});
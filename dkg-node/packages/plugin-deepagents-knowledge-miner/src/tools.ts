@@ -1,22 +1,31 @@
 import { tool } from "@langchain/core/tools";
+import type { DkgMcpServer, DkgServiceRegistry } from "@dkg/plugins";
+// Declares the "dkgAssets" service
+import {
+  publishOptionsInputSchema,
+  type PublishOptions,
+} from "@dkg/plugin-dkg-essentials";
 import { z } from "zod";
 
 export type DkgPluginContext = {
-  dkg?: any;
-  blob?: any;
+  services: DkgServiceRegistry;
+  config?: { TAVILY_API_KEY?: string };
+  /** Access token of the MCP session that runs the agent */
+  auth?: DkgMcpServer["auth"];
 };
 
 // ---------- Internet search tool (Tavily) ----------
 export function makeInternetSearchTool(ctx: DkgPluginContext) {
   return tool(
     async ({ query }: { query: string }) => {
-      if (process.env.TAVILY_API_KEY) {
+      const apiKey = ctx.config?.TAVILY_API_KEY;
+      if (apiKey) {
         try {
           const response = await fetch("https://api.tavily.com/search", {
             method: "POST",
             headers: { "Content-Type": "application/json" },
             body: JSON.stringify({
-              api_key: process.env.TAVILY_API_KEY,
+              api_key: apiKey,
               query,
               max_results: 5,
             }),
@@ -50,10 +59,10 @@ export function makeInternetSearchTool(ctx: DkgPluginContext) {
 export function makeDkgGetTool(ctx: DkgPluginContext) {
   return tool(
     async ({ ual }: { ual: string }) => {
-      if (!ctx.dkg) return "DKG client not available in plugin context.";
-
       try {
-        const result = await ctx.dkg.asset.get(ual, { includeMetadata: true });
+        const result = await ctx.services
+          .use("dkgAssets")
+          .get(ual, { includeMetadata: true });
         return JSON.stringify(result, null, 2);
       } catch (err: any) {
         return `dkg_get failed: ${err?.message ?? String(err)}`;
@@ -73,31 +82,29 @@ export function makeDkgGetTool(ctx: DkgPluginContext) {
 // ---------- DKG CREATE tool (real KA publishing) ----------
 export function makeDkgCreateTool(ctx: DkgPluginContext) {
   return tool(
-    async ({ jsonld, privacy }: { jsonld: string; privacy?: "private" | "public" }) => {
-      if (!ctx.dkg) return "DKG client not available in plugin context.";
-
+    async ({
+      jsonld,
+      privacy,
+      ...options
+    }: { jsonld: string; privacy?: "private" | "public" } & PublishOptions) => {
       try {
-        // Accept either raw JSON-LD string or ID of an uploaded file that plugin-dkg-essentials would use.
-        const content =
-          jsonld.startsWith("{") || jsonld.startsWith("[")
-            ? jsonld
-            : jsonld; // keep simple for now – treat as inline JSON-LD
-
-        const parsed = JSON.parse(content);
-        const wrapped = { [privacy || "private"]: parsed };
-
-        const createAsset = await ctx.dkg.asset.create(wrapped, {
-          epochsNum: 2,
-          minimumNumberOfFinalizationConfirmations: 3,
-          minimumNumberOfNodeReplications: 1,
-        });
+        const dkgAssets = ctx.services.use("dkgAssets");
+        // Accept either raw JSON-LD string or ID of an uploaded file
+        const content = await dkgAssets.resolveContent(jsonld, ctx.auth);
+
+        // Options that are not given default to the ones of the node
+        const result = await dkgAssets.create(
+          content,
+          privacy || "private",
+          options,
+        );
+        if (result.error) return `dkg_create failed: ${result.error}`;
 
-        const ual = createAsset?.UAL;
         return JSON.stringify(
           {
             kind: "dkg_create_result",
-            ual,
-            message: ual ? `Published to DKG. UAL: ${ual}` : "Published to DKG, UAL not returned.",
+            ...result,
+            message: result.ual ? `Published to DKG. UAL: ${result.ual}` : "Published to DKG, UAL not returned.",
           },
           null,
           2
@@ -109,15 +116,19 @@ export function makeDkgCreateTool(ctx: DkgPluginContext) {
     {
       name: "dkg_create",
       description:
-        "Publish a JSON-LD Knowledge Asset to the DKG. Returns a JSON object with the UAL and a human-readable message.",
+        "Publish a JSON-LD Knowledge Asset to the DKG, optionally with publish options and a paranet to submit it to. " +
+        "Returns a JSON object with the UAL, the transaction hash, the statuses of the publishing operations and a human-readable message.",
       schema: z.object({
         jsonld: z
           .string()
-          .describe("JSON-LD content string for the Knowledge Asset to publish."),
+          .describe(
+            "JSON-LD content string or ID of an uploaded file for the Knowledge Asset to publish.",
+          ),
         privacy: z
           .enum(["private", "public"])
           .optional()
           .describe("Optional privacy level, default 'private'."),
+        ...publishOptionsInputSchema,
       }),
     }
   );
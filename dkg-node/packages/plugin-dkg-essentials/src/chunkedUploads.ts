@@ -0,0 +1,187 @@
+import { createHash, randomUUID } from "crypto";
+import { Readable } from "stream";
+import type { BlobData, BlobStorage } from "@dkg/plugins/types";
+import { canAccessBlob, getUserId } from "@dkg/plugins/helpers";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { getExpiresAt } from "./utils";
+
+/** Uploads that are not completed in time are deleted by the blob sweeper */
+const UPLOAD_EXPIRATION = 24 * 60 * 60;
+
+const MAX_CHUNKS = 10000;
+
+export class ChunkedUploadError extends Error {
+  constructor(
+    message: string,
+    /** HTTP status code of the error */
+    public status: number,
+  ) {
+    super(message);
+    this.name = "ChunkedUploadError";
+  }
+}
+
+export type ChunkedUpload = {
+  uploadId: string;
+  name: string;
+  mimeType?: string;
+  /** Number of consecutive chunks received, i.e. the index to resume from */
+  receivedChunks: number;
+};
+
+export type ChunkedUploads = {
+  /** Starts an upload of a file, to be deleted after `ttl` seconds if set */
+  init: (
+    file: { name: string; mimeType?: string; ttl?: number },
+    auth?: AuthInfo,
+  ) => Promise<{ uploadId: string }>;
+  /** Stores a chunk of the upload, replacing an already uploaded one */
+  putChunk: (
+    uploadId: string,
+    index: number,
+    data: BlobData,
+    auth?: AuthInfo,
+  ) => Promise<void>;
+  status: (uploadId: string, auth?: AuthInfo) => Promise<ChunkedUpload>;
+  /**
+   * Stores the chunks as a single blob and deletes them. The content is
+   * verified if its hex SHA-256 digest is given.
+   */
+  complete: (
+    uploadId: string,
+    options: { chunks: number; sha256?: string },
+    auth?: AuthInfo,
+  ) => Promise<{ id: string; name: string; mimeType?: string }>;
+  abort: (uploadId: string, auth?: AuthInfo) => Promise<void>;
+};
+
+/**
+ * Uploads of large files in multiple chunks, that can be resumed after
+ * a failure. Uploads and their chunks are stored as internal blobs,
+ * owned by the uploader, so that they are shared by all instances
+ * of the server and count towards the quota.
+ *
+ * @throws {ChunkedUploadError}
+ */
+export const createChunkedUploads = (blob: BlobStorage): ChunkedUploads => {
+  const uploadBlobId = (uploadId: string) => `.upload-${uploadId}`;
+  const chunkBlobId = (uploadId: string, index: number) =>
+    `.upload-${uploadId}-${index}`;
+
+  const getUpload = async (uploadId: string, auth?: AuthInfo) => {
+    const metadata = await blob.info(uploadBlobId(uploadId));
+    if (!metadata) throw new ChunkedUploadError("Upload not found", 404);
+    if (!canAccessBlob(metadata, auth, "write"))
+      throw new ChunkedUploadError("Access denied", 403);
+    return metadata as typeof metadata & {
+      file: { name: string; mimeType?: string; ttl?: number };
+    };
+  };
+
+  const countChunks = async (uploadId: string) => {
+    let count = 0;
+    while (
+      count < MAX_CHUNKS &&
+      (await blob.exists(chunkBlobId(uploadId, count)))
+    )
+      count++;
+    return count;
+  };
+
+  const deleteUpload = async (uploadId: string, chunks: number) => {
+    for (let index = 0; index < chunks; index++)
+      await blob.delete(chunkBlobId(uploadId, index));
+    await blob.delete(uploadBlobId(uploadId));
+  };
+
+  return {
+    async init(file, auth) {
+      const uploadId = randomUUID();
+      await blob.put(
+        uploadBlobId(uploadId),
+        Readable.toWeb(Readable.from([])),
+        {
+          name: file.name,
+          owner: getUserId(auth),
+          expiresAt: getExpiresAt(UPLOAD_EXPIRATION),
+          file,
+        },
+      );
+      return { uploadId };
+    },
+
+    async putChunk(uploadId, index, data, auth) {
+      if (index >= MAX_CHUNKS)
+        throw new ChunkedUploadError(
+          `Uploads are limited to ${MAX_CHUNKS} chunks`,
+          400,
+        );
+
+      const upload = await getUpload(uploadId, auth);
+      await blob.put(chunkBlobId(uploadId, index), data, {
+        name: upload.file.name,
+        owner: upload.owner,
+        expiresAt: upload.expiresAt,
+      });
+    },
+
+    async status(uploadId, auth) {
+      const { file } = await getUpload(uploadId, auth);
+      return {
+        uploadId,
+        name: file.name,
+        mimeType: file.mimeType,
+        receivedChunks: await countChunks(uploadId),
+      };
+    },
+
+    async complete(uploadId, { chunks, sha256 }, auth) {
+      const { file, owner } = await getUpload(uploadId, auth);
+      const received = await countChunks(uploadId);
+      if (received < chunks)
+        throw new ChunkedUploadError(
+          `Missing chunk ${received}, ${chunks} chunks expected`,
+          400,
+        );
+
+      const hash = createHash("sha256");
+      const content = Readable.from(
+        (async function* () {
+          for (let index = 0; index < chunks; index++) {
+            const chunk = await blob.get(chunkBlobId(uploadId, index));
+            if (!chunk) throw new Error(`Chunk ${index} not found`);
+            for await (const part of chunk.data) {
+              hash.update(part);
+              yield part;
+            }
+          }
+        })(),
+      );
+
+      // Without an owner, the chunks are not counted twice towards the quota.
+      // The blob is not accessible by others until it is returned, since its
+      // ID cannot be guessed.
+      const { id } = await blob.create(Readable.toWeb(content), {
+        name: file.name,
+        mimeType: file.mimeType,
+        expiresAt: getExpiresAt(file.ttl),
+      });
+      if (sha256 && hash.digest("hex") !== sha256.toLowerCase()) {
+        await blob.delete(id);
+        throw new ChunkedUploadError(
+          "Checksum does not match the uploaded content",
+          422,
+        );
+      }
+      await blob.updateMetadata(id, { owner });
+
+      await deleteUpload(uploadId, received);
+      return { id, name: file.name, mimeType: file.mimeType };
+    },
+
+    async abort(uploadId, auth) {
+      await getUpload(uploadId, auth);
+      await deleteUpload(uploadId, await countChunks(uploadId));
+    },
+  };
+};
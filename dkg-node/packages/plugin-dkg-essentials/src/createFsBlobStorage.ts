@@ -1,36 +1,139 @@
 // Works only in node.js!
 import fs from "fs";
+import { once } from "events";
 import path from "path";
 import { Readable, Writable } from "stream";
-import { BlobStorage } from "@dkg/plugins/types";
-import { createBlobStorage } from "@dkg/plugins/helpers";
+import { BlobMetadata, BlobStorage } from "@dkg/plugins/types";
+import {
+  createBlobStorage,
+  type BlobStorageHandlers,
+  type BlobStorageOptions,
+} from "@dkg/plugins/helpers";
 
-const createFsBlobStorage = (blobsDirectory: string): BlobStorage => {
+/** Subdirectory the metadata was stored in before it was moved out */
+const LEGACY_METADATA_DIRECTORY = ".metadata";
+
+export type FsBlobStorageOptions = BlobStorageOptions & {
+  /**
+   * Directory where the metadata of each blob is stored as a JSON file.
+   * Defaults to a sibling of the blobs directory with the ".metadata" suffix,
+   * so that no blob ID can resolve to it.
+   */
+  metadataDirectory?: string;
+};
+
+const ignoreNotFound = (error: NodeJS.ErrnoException) => {
+  if (error.code !== "ENOENT") throw error;
+};
+
+const createFsBlobStorage = (
+  blobsDirectory: string,
+  { metadataDirectory, ...options }: FsBlobStorageOptions = {},
+): BlobStorage => {
+  blobsDirectory = path.resolve(blobsDirectory);
+  metadataDirectory = path.resolve(
+    metadataDirectory ?? `${blobsDirectory}.metadata`,
+  );
   try {
+    const legacyDirectory = path.join(
+      blobsDirectory,
+      LEGACY_METADATA_DIRECTORY,
+    );
+    if (fs.existsSync(legacyDirectory) && !fs.existsSync(metadataDirectory))
+      fs.renameSync(legacyDirectory, metadataDirectory);
     fs.mkdirSync(blobsDirectory, { recursive: true });
+    fs.mkdirSync(metadataDirectory, { recursive: true });
   } catch (error) {
     console.log(error);
   }
 
-  return createBlobStorage({
-    info: (id) =>
-      fs.promises
-        .stat(path.join(blobsDirectory, id))
-        .then((stats) => ({
+  /**
+   * Path of the blob file, which must be directly in the blobs directory.
+   *
+   * @throws {Error} If the ID is empty, "." or "..", or contains a path separator.
+   */
+  const blobPath = (id: string) => {
+    const file = path.resolve(blobsDirectory, id);
+    if (path.dirname(file) !== blobsDirectory)
+      throw new Error(`Invalid blob ID: ${id}`);
+    return file;
+  };
+
+  // Validated like the blob path, so that it stays in the metadata directory
+  const metadataPath = (id: string) =>
+    path.join(metadataDirectory, `${path.basename(blobPath(id))}.json`);
+
+  // Blobs stored before the metadata was persisted do not have it
+  const readMetadata = (id: string) =>
+    fs.promises
+      .readFile(metadataPath(id), "utf8")
+      .then((json) => JSON.parse(json) as Record<string, unknown>)
+      .catch((error) => {
+        ignoreNotFound(error);
+        return {};
+      });
+
+  // Name is always derived from the id
+  const writeMetadata = (
+    id: string,
+    metadata: Omit<BlobMetadata, "lastModified" | "size">,
+  ) =>
+    fs.promises.writeFile(
+      metadataPath(id),
+      JSON.stringify({ ...metadata, name: undefined }),
+    );
+
+  const handlers: BlobStorageHandlers = {
+    // Invalid IDs are not found
+    info: async (id) => {
+      try {
+        const stats = await fs.promises.stat(blobPath(id));
+        return {
+          ...(await readMetadata(id)),
           size: stats.size,
           lastModified: stats.mtime,
-        }))
-        .catch(() => null),
-    put: (id, content /* , _metadata */) => {
-      const blobStream = Writable.toWeb(
-        fs.createWriteStream(path.join(blobsDirectory, id)),
-      );
-      return content.pipeTo(blobStream);
+        };
+      } catch {
+        return null;
+      }
+    },
+    put: async (id, content, metadata) => {
+      const file = fs.createWriteStream(blobPath(id));
+      try {
+        await content.pipeTo(Writable.toWeb(file));
+      } catch (error) {
+        // Otherwise the file could still be created after a failed upload is cleaned up
+        if (!file.closed) await once(file, "close");
+        throw error;
+      }
+
+      await writeMetadata(id, metadata);
+    },
+    updateMetadata: writeMetadata,
+    get: async (id, range) =>
+      Readable.toWeb(fs.createReadStream(blobPath(id), range)),
+    delete: async (id) => {
+      await fs.promises.unlink(blobPath(id));
+      await fs.promises.unlink(metadataPath(id)).catch(ignoreNotFound);
+    },
+    move: async (from, to) => {
+      await fs.promises.rename(blobPath(from), blobPath(to));
+      await fs.promises
+        .rename(metadataPath(from), metadataPath(to))
+        .catch(ignoreNotFound);
+    },
+    list: async function* ({ prefix = "", after }) {
+      const entries = await fs.promises.readdir(blobsDirectory, {
+        withFileTypes: true,
+      });
+      yield* entries
+        .filter((entry) => entry.isFile())
+        .map((entry) => entry.name)
+        .filter((id) => id.startsWith(prefix) && (!after || id > after))
+        .sort();
     },
-    get: async (id) =>
-      Readable.toWeb(fs.createReadStream(path.join(blobsDirectory, id))),
-    delete: (id) => fs.promises.unlink(path.join(blobsDirectory, id)),
-  });
+  };
+  return createBlobStorage(handlers, options);
 };
 
 export default createFsBlobStorage;
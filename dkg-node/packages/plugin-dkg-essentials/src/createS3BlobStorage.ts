@@ -0,0 +1,259 @@
+// Works only in node.js!
+import {
+  AbortMultipartUploadCommand,
+  CompleteMultipartUploadCommand,
+  CopyObjectCommand,
+  CreateMultipartUploadCommand,
+  DeleteObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  ListObjectsV2Command,
+  PutObjectCommand,
+  S3Client,
+  UploadPartCommand,
+  type S3ClientConfig,
+} from "@aws-sdk/client-s3";
+import { BlobData, BlobMetadata, BlobStorage } from "@dkg/plugins/types";
+import {
+  createBlobStorage,
+  type BlobStorageHandlers,
+  type BlobStorageOptions,
+} from "@dkg/plugins/helpers";
+
+/** S3 does not allow smaller parts, except for the last one */
+const MIN_PART_SIZE = 5 * 1024 * 1024;
+
+export type S3BlobStorageOptions = BlobStorageOptions & {
+  bucket: string;
+  /** Prefix of the object keys, i.e. "blobs/" */
+  prefix?: string;
+  /**
+   * S3 client or its configuration (region, credentials...).
+   * For MinIO and other S3-compatible services, set `endpoint`
+   * and `forcePathStyle: true`.
+   */
+  client?: Pick<S3Client, "send"> | S3ClientConfig;
+  /** Blobs larger than this are uploaded in multiple parts. Defaults to 5MiB. */
+  partSize?: number;
+};
+
+const isNotFound = (error: unknown) => {
+  const { name, $metadata } = error as {
+    name?: string;
+    $metadata?: { httpStatusCode?: number };
+  };
+  return (
+    name === "NotFound" ||
+    name === "NoSuchKey" ||
+    $metadata?.httpStatusCode === 404
+  );
+};
+
+/**
+ * Custom metadata is stored as a single user-defined metadata entry
+ * (`x-amz-meta-dkg` header), URI-encoded since headers only allow ASCII.
+ */
+const encodeMetadata = (
+  metadata: Omit<BlobMetadata, "lastModified" | "size">,
+) => ({
+  dkg: encodeURIComponent(
+    JSON.stringify({ ...metadata, name: undefined, mimeType: undefined }),
+  ),
+});
+
+const decodeMetadata = (metadata?: Record<string, string>) =>
+  metadata?.dkg
+    ? (JSON.parse(decodeURIComponent(metadata.dkg)) as Record<string, unknown>)
+    : {};
+
+/**
+ * Splits the stream into chunks of at least `partSize` bytes (except for the
+ * last one), so that only one part at a time is kept in memory.
+ */
+async function* readParts(content: BlobData, partSize: number) {
+  let chunks: Uint8Array[] = [];
+  let size = 0;
+  for await (const chunk of content) {
+    chunks.push(chunk);
+    size += chunk.byteLength;
+    if (size >= partSize) {
+      yield Buffer.concat(chunks);
+      chunks = [];
+      size = 0;
+    }
+  }
+  if (size > 0) yield Buffer.concat(chunks);
+}
+
+const createS3BlobStorage = ({
+  bucket,
+  prefix = "",
+  client = {},
+  partSize = MIN_PART_SIZE,
+  ...options
+}: S3BlobStorageOptions): BlobStorage => {
+  if (partSize < MIN_PART_SIZE)
+    throw new Error(`S3 part size must be at least ${MIN_PART_SIZE} bytes`);
+
+  const s3 = "send" in client ? client : new S3Client(client);
+  const key = (id: string) => prefix + id;
+
+  const uploadMultipart = async (
+    id: string,
+    parts: AsyncGenerator<Buffer>,
+    metadata: Omit<BlobMetadata, "lastModified" | "size">,
+  ) => {
+    const { UploadId } = await s3.send(
+      new CreateMultipartUploadCommand({
+        Bucket: bucket,
+        Key: key(id),
+        ContentType: metadata.mimeType,
+        Metadata: encodeMetadata(metadata),
+      }),
+    );
+    try {
+      const uploaded: { ETag?: string; PartNumber: number }[] = [];
+      for await (const part of parts) {
+        const PartNumber = uploaded.length + 1;
+        const { ETag } = await s3.send(
+          new UploadPartCommand({
+            Bucket: bucket,
+            Key: key(id),
+            UploadId,
+            PartNumber,
+            Body: part,
+          }),
+        );
+        uploaded.push({ ETag, PartNumber });
+      }
+      await s3.send(
+        new CompleteMultipartUploadCommand({
+          Bucket: bucket,
+          Key: key(id),
+          UploadId,
+          MultipartUpload: { Parts: uploaded },
+        }),
+      );
+    } catch (error) {
+      // Otherwise the uploaded parts are kept (and billed) by S3
+      await s3
+        .send(
+          new AbortMultipartUploadCommand({
+            Bucket: bucket,
+            Key: key(id),
+            UploadId,
+          }),
+        )
+        .catch(console.error);
+      throw error;
+    }
+  };
+
+  const handlers: BlobStorageHandlers = {
+    info: (id) =>
+      s3
+        .send(new HeadObjectCommand({ Bucket: bucket, Key: key(id) }))
+        .then((head) => ({
+          ...decodeMetadata(head.Metadata),
+          size: head.ContentLength,
+          lastModified: head.LastModified,
+          ...(head.ContentType ? { mimeType: head.ContentType } : {}),
+        }))
+        .catch((error) => {
+          if (isNotFound(error)) return null;
+          throw error;
+        }),
+    put: async (id, content, metadata) => {
+      const parts = readParts(content, partSize);
+      const first = await parts.next();
+      const firstPart = first.done ? Buffer.alloc(0) : first.value;
+
+      // Small blobs fit into a single part and do not need a multipart upload
+      if (first.done || firstPart.byteLength < partSize) {
+        await s3.send(
+          new PutObjectCommand({
+            Bucket: bucket,
+            Key: key(id),
+            Body: firstPart,
+            ContentType: metadata.mimeType,
+            Metadata: encodeMetadata(metadata),
+          }),
+        );
+        return;
+      }
+
+      await uploadMultipart(
+        id,
+        (async function* () {
+          yield firstPart;
+          yield* parts;
+        })(),
+        metadata,
+      );
+    },
+    get: (id, range) =>
+      s3
+        .send(
+          new GetObjectCommand({
+            Bucket: bucket,
+            Key: key(id),
+            Range: range && `bytes=${range.start}-${range.end ?? ""}`,
+          }),
+        )
+        .then((object) =>
+          object.Body ? (object.Body.transformToWebStream() as BlobData) : null,
+        )
+        .catch((error) => {
+          if (isNotFound(error)) return null;
+          throw error;
+        }),
+    delete: async (id) => {
+      await s3.send(new DeleteObjectCommand({ Bucket: bucket, Key: key(id) }));
+    },
+    // S3 objects are immutable, so the object is copied onto itself
+    updateMetadata: async (id, metadata) => {
+      await s3.send(
+        new CopyObjectCommand({
+          Bucket: bucket,
+          Key: key(id),
+          CopySource: `${bucket}/${encodeURIComponent(key(id))}`,
+          MetadataDirective: "REPLACE",
+          ContentType: metadata.mimeType,
+          Metadata: encodeMetadata(metadata),
+        }),
+      );
+    },
+    // Server-side copy, which S3 limits to objects of up to 5GB
+    move: async (from, to) => {
+      await s3.send(
+        new CopyObjectCommand({
+          Bucket: bucket,
+          Key: key(to),
+          CopySource: `${bucket}/${encodeURIComponent(key(from))}`,
+        }),
+      );
+      await s3.send(
+        new DeleteObjectCommand({ Bucket: bucket, Key: key(from) }),
+      );
+    },
+    list: async function* ({ prefix: idPrefix = "", after }) {
+      let ContinuationToken: string | undefined;
+      do {
+        const page = await s3.send(
+          new ListObjectsV2Command({
+            Bucket: bucket,
+            Prefix: key(idPrefix),
+            StartAfter: after && key(after),
+            ContinuationToken,
+          }),
+        );
+        for (const object of page.Contents ?? [])
+          if (object.Key) yield object.Key.slice(prefix.length);
+        ContinuationToken = page.NextContinuationToken;
+      } while (ContinuationToken);
+    },
+  };
+  return createBlobStorage(handlers, options);
+};
+
+export default createS3BlobStorage;
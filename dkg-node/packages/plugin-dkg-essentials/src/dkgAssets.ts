@@ -0,0 +1,327 @@
+import { createHash } from "crypto";
+import consumers from "stream/consumers";
+import type { DkgContext } from "@dkg/plugins";
+import { canAccessBlob } from "@dkg/plugins/helpers";
+import {
+  getDefaultJsonLdLoader,
+  toAssetNQuads,
+  type DocumentLoader,
+} from "@dkg/jsonld-loader";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import {
+  toDkgQuery,
+  toSparqlQueryResult,
+  validateSparqlQuery,
+  type SparqlQueryResult,
+} from "./sparql";
+import {
+  estimatePublishingCost,
+  type PublishingCostEstimate,
+} from "./publishingCost";
+import {
+  DEFAULT_PUBLISH_OPTIONS,
+  validatePublishOptions,
+  type PublishDefaults,
+  type PublishOptions,
+} from "./publishOptions";
+import { createDkgParanets } from "./dkgParanets";
+import { getDkgClient, type DkgClientContext } from "./networks";
+
+export type PublishOperationStatus = {
+  status: string;
+  errorType?: string;
+  errorMessage?: string;
+};
+
+export type PublishResult = {
+  ual: string | null;
+  /** Hash of the transaction that minted the Knowledge Collection */
+  transactionHash: string | null;
+  /** Statuses of the operations of publishing, that were run */
+  operations: {
+    publish?: PublishOperationStatus & { operationId?: string };
+    mintKnowledgeCollection?: PublishOperationStatus & {
+      blockNumber?: number;
+    };
+    finality?: PublishOperationStatus & {
+      confirmations: number;
+      requiredConfirmations: number;
+    };
+    submitToParanet?: PublishOperationStatus & { paranetUAL: string };
+  };
+  error: string | null;
+};
+
+export type DkgAssets = {
+  /**
+   * Retrieves a Knowledge Asset by its UAL, optionally in a previous state,
+   * from the network of its blockchain, unless the `network` is given.
+   */
+  get: (
+    ual: string,
+    options?: { includeMetadata?: boolean; state?: number; network?: string },
+  ) => Promise<unknown>;
+  /**
+   * Publishes JSON-LD content as a Knowledge Asset,
+   * resolving its contexts with the document loader.
+   * Options that are not given default to the ones of the node,
+   * and it is published on the default network, unless the `network` is given.
+   * Errors are returned instead of thrown, with the operations that were run.
+   * If submitting it to the paranet fails, the Knowledge Asset is still
+   * published, and the failure is only reported in the operations.
+   */
+  create: (
+    jsonld: string,
+    privacy: "private" | "public",
+    options?: PublishOptions,
+  ) => Promise<PublishResult>;
+  /**
+   * Runs JSON-LD content through publishing without submitting it,
+   * estimating what publishing it for a number of `epochs` costs the node's
+   * wallet, and whether its balances cover it.
+   *
+   * @throws {Error} If the content cannot be published or the blockchain fails.
+   */
+  estimate: (
+    jsonld: string,
+    privacy: "private" | "public",
+    options?: { epochs?: number; network?: string },
+  ) => Promise<PublishingCostEstimate>;
+  /**
+   * Returns the JSON-LD content, given either the content itself
+   * or the ID of an uploaded blob. The authenticated user needs read access
+   * to the blob (see `canAccessBlob`), unless `auth` is "internal".
+   * Blobs with a `digest` are verified, so that corrupted contents are not published.
+   *
+   * @throws {Error} If the blob does not exist, is not accessible or is corrupted.
+   */
+  resolveContent: (
+    jsonldOrBlobId: string,
+    auth: AuthInfo | "internal" | undefined,
+  ) => Promise<string>;
+  /**
+   * Runs a SELECT, CONSTRUCT, ASK or DESCRIBE SPARQL query,
+   * optionally only on the Knowledge Assets of a paranet.
+   * It runs on the network of the paranet, unless the `network` is given.
+   *
+   * @throws {Error} If the query is invalid, is an update or fails.
+   */
+  query: (
+    query: string,
+    options?: { paranetUAL?: string; network?: string },
+  ) => Promise<SparqlQueryResult>;
+};
+
+declare module "@dkg/plugins" {
+  interface DkgServices {
+    dkgAssets: DkgAssets;
+  }
+}
+
+const errorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : String(error);
+
+/** Result of `dkg.asset.create`, which is not typed by dkg.js */
+type DkgCreateResult = {
+  UAL?: string;
+  operation?: {
+    publish?: PublishOperationStatus & { operationId?: string };
+    /** Transaction receipt */
+    mintKnowledgeCollection?: {
+      status?: bigint | number;
+      blockNumber?: bigint | number;
+      transactionHash?: string;
+    };
+    finality?: { status: string };
+    numberOfConfirmations?: number;
+    requiredConfirmations?: number;
+  };
+};
+
+/**
+ * Result of publishing with dkg.js, whose transaction receipt has bigints,
+ * which cannot be serialized to JSON
+ */
+const toPublishResult = (
+  created: DkgCreateResult | undefined,
+): PublishResult => {
+  const {
+    publish,
+    mintKnowledgeCollection: receipt,
+    finality,
+  } = created?.operation ?? {};
+  const result: PublishResult = {
+    ual: created?.UAL || null,
+    transactionHash: receipt?.transactionHash ?? null,
+    operations: {},
+    error: null,
+  };
+  if (publish) result.operations.publish = publish;
+  if (receipt)
+    result.operations.mintKnowledgeCollection = {
+      status: BigInt(receipt.status ?? 1) === 1n ? "COMPLETED" : "FAILED",
+      blockNumber:
+        receipt.blockNumber === undefined
+          ? undefined
+          : Number(receipt.blockNumber),
+    };
+  if (finality)
+    result.operations.finality = {
+      status: finality.status,
+      confirmations: created?.operation?.numberOfConfirmations ?? 0,
+      requiredConfirmations: created?.operation?.requiredConfirmations ?? 0,
+    };
+  // dkg.js returns without a UAL if the nodes did not store the assertion.
+  // Otherwise a missing UAL is only reported as not returned.
+  if (!result.ual && publish)
+    result.error =
+      publish.errorMessage ??
+      `Publish operation ended with status ${publish.status}`;
+  return result;
+};
+
+export const createDkgAssets = (
+  ctx: DkgClientContext & Pick<DkgContext, "blob">,
+  documentLoader: DocumentLoader = getDefaultJsonLdLoader().load,
+  publishDefaults: PublishDefaults = {},
+): DkgAssets => {
+  const defaults = {
+    epochs: publishDefaults.epochs ?? DEFAULT_PUBLISH_OPTIONS.epochs,
+    finalizationConfirmations:
+      publishDefaults.finalizationConfirmations ??
+      DEFAULT_PUBLISH_OPTIONS.finalizationConfirmations,
+    replications:
+      publishDefaults.replications ?? DEFAULT_PUBLISH_OPTIONS.replications,
+    immutable: publishDefaults.immutable ?? DEFAULT_PUBLISH_OPTIONS.immutable,
+    maxTokenAmount: publishDefaults.maxTokenAmount,
+  };
+
+  const toNQuads = (jsonld: string, privacy: "private" | "public") =>
+    // Canonicalized here, since dkg.js would fetch the contexts itself
+    toAssetNQuads({ [privacy]: JSON.parse(jsonld) }, documentLoader);
+
+  return {
+    get(ual, { network, ...options } = {}) {
+      const dkg = getDkgClient(ctx, { network, ual });
+      return Object.keys(options).length
+        ? dkg.asset.get(ual, options)
+        : dkg.asset.get(ual);
+    },
+
+    async create(jsonld, privacy, options = {}) {
+      let result: PublishResult;
+      try {
+        validatePublishOptions(options);
+        const dkg = getDkgClient(ctx, { network: options.network });
+        const epochs = options.epochs ?? defaults.epochs;
+        const maxTokenAmount =
+          options.maxTokenAmount ?? defaults.maxTokenAmount;
+        const nquads = await toNQuads(jsonld, privacy);
+
+        // The bid is fixed to the estimate, so that it cannot exceed the cap
+        let tokenAmount: string | undefined;
+        if (maxTokenAmount !== undefined) {
+          ({ tokenAmount } = await estimatePublishingCost(dkg, nquads, {
+            epochs,
+          }));
+          if (BigInt(tokenAmount) > BigInt(maxTokenAmount))
+            throw new Error(
+              `Estimated TRAC bid of ${tokenAmount} wei exceeds the maximum of ${maxTokenAmount} wei`,
+            );
+        }
+
+        result = toPublishResult(
+          await dkg.asset.create(nquads, {
+            epochsNum: epochs,
+            minimumNumberOfFinalizationConfirmations:
+              options.finalizationConfirmations ??
+              defaults.finalizationConfirmations,
+            minimumNumberOfNodeReplications:
+              options.replications ?? defaults.replications,
+            immutable: options.immutable ?? defaults.immutable,
+            ...(tokenAmount === undefined ? {} : { tokenAmount }),
+          }),
+        );
+      } catch (error) {
+        return {
+          ual: null,
+          transactionHash: null,
+          operations: {},
+          error: errorMessage(error),
+        };
+      }
+
+      if (result.ual && options.paranetUAL) {
+        const { paranetUAL } = options;
+        try {
+          await createDkgParanets(ctx).submit(result.ual, paranetUAL);
+          result.operations.submitToParanet = {
+            status: "COMPLETED",
+            paranetUAL,
+          };
+        } catch (error) {
+          result.operations.submitToParanet = {
+            status: "FAILED",
+            errorMessage: errorMessage(error),
+            paranetUAL,
+          };
+        }
+      }
+      return result;
+    },
+
+    async estimate(
+      jsonld,
+      privacy,
+      { epochs = defaults.epochs, network } = {},
+    ) {
+      validatePublishOptions({ epochs });
+      const dkg = getDkgClient(ctx, { network });
+      return estimatePublishingCost(dkg, await toNQuads(jsonld, privacy), {
+        epochs,
+        checkWallet: true,
+      });
+    },
+
+    resolveContent: (jsonldOrBlobId, auth) =>
+      jsonldOrBlobId.startsWith("{") || jsonldOrBlobId.startsWith("[")
+        ? Promise.resolve(jsonldOrBlobId)
+        : ctx.blob.get(jsonldOrBlobId).then(async (r) => {
+            if (!r) {
+              console.error(`File with id "${jsonldOrBlobId}" not found`);
+              throw new Error(`File with id "${jsonldOrBlobId}" not found`);
+            }
+            if (!canAccessBlob(r.metadata, auth, "read")) {
+              // Release the file, since it is not going to be read
+              r.data.cancel();
+              throw new Error(
+                `Access to file with id "${jsonldOrBlobId}" denied`,
+              );
+            }
+            const content = await consumers.buffer(r.data);
+            if (
+              r.metadata.digest &&
+              createHash("sha256").update(content).digest("hex") !==
+                r.metadata.digest
+            ) {
+              console.error(`File with id "${jsonldOrBlobId}" is corrupted`);
+              throw new Error(`File with id "${jsonldOrBlobId}" is corrupted`);
+            }
+            return new TextDecoder().decode(content);
+          }),
+
+    async query(query, { paranetUAL, network } = {}) {
+      const { valid, queryType, error } = validateSparqlQuery(query);
+      if (!valid) throw new Error(error);
+
+      const dkg = getDkgClient(ctx, { network, ual: paranetUAL });
+      const dkgQuery = toDkgQuery(query, queryType!);
+      const result = await dkg.graph.query(
+        dkgQuery.query,
+        dkgQuery.queryType,
+        paranetUAL ? { paranetUAL } : {},
+      );
+      return toSparqlQueryResult(queryType!, result?.data);
+    },
+  };
+};
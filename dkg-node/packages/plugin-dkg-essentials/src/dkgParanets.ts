@@ -0,0 +1,106 @@
+import { getDkgClient, type DkgClientContext } from "./networks";
+import { toSparqlQueryResult } from "./sparql";
+
+export type ParanetAccessPolicy = "open" | "permissioned";
+export type ParanetSubmissionPolicy = "open" | "staging";
+
+export type ParanetOptions = {
+  name: string;
+  description?: string;
+  /** Which nodes can host the paranet. Defaults to "open". */
+  nodesAccessPolicy?: ParanetAccessPolicy;
+  /** Who can mine Knowledge Assets for the paranet. Defaults to "open". */
+  minersAccessPolicy?: ParanetAccessPolicy;
+  /**
+   * Whether Knowledge Collections are added on submission ("open"),
+   * or staged for curators to review ("staging"). Defaults to "open".
+   */
+  submissionPolicy?: ParanetSubmissionPolicy;
+};
+
+export type DkgParanets = {
+  /**
+   * Registers a paranet, described by an already published Knowledge Asset.
+   * The UAL of the paranet is the UAL of that Knowledge Asset.
+   */
+  create: (ual: string, options: ParanetOptions) => Promise<unknown>;
+  /**
+   * Adds a Knowledge Collection to a paranet, or stages it for review
+   * if the paranet only accepts reviewed Knowledge Collections.
+   */
+  submit: (
+    kcUAL: string,
+    paranetUAL: string,
+    options?: { staging?: boolean },
+  ) => Promise<unknown>;
+  /** Accepts or rejects a staged Knowledge Collection, as a curator */
+  review: (
+    kcUAL: string,
+    paranetUAL: string,
+    accepted: boolean,
+  ) => Promise<unknown>;
+  /** UALs of the Knowledge Collections in a paranet, of up to `limit` */
+  listCollections: (paranetUAL: string, limit: number) => Promise<string[]>;
+};
+
+declare module "@dkg/plugins" {
+  interface DkgServices {
+    dkgParanets: DkgParanets;
+  }
+}
+
+const ACCESS_POLICIES = { open: 0, permissioned: 1 } as const;
+const SUBMISSION_POLICIES = { open: 0, staging: 1 } as const;
+
+/** Named graphs of the Knowledge Assets of the paranet */
+const GRAPHS_QUERY = "SELECT DISTINCT ?g WHERE { GRAPH ?g { ?s ?p ?o } }";
+
+/**
+ * UAL of the Knowledge Collection, given the UAL of one of its
+ * Knowledge Assets or assertions, i.e. did:dkg:otp:20430/0x123/1/2/public
+ */
+const toCollectionUAL = (ual: string) => ual.split("/").slice(0, 3).join("/");
+
+/** Paranets are managed on the network of the blockchain of their UAL */
+export const createDkgParanets = (ctx: DkgClientContext): DkgParanets => ({
+  create: (ual, options) =>
+    getDkgClient(ctx, { ual }).paranet.create(ual, {
+      paranetName: options.name,
+      paranetDescription: options.description ?? "",
+      paranetNodesAccessPolicy:
+        ACCESS_POLICIES[options.nodesAccessPolicy ?? "open"],
+      paranetMinersAccessPolicy:
+        ACCESS_POLICIES[options.minersAccessPolicy ?? "open"],
+      paranetKcSubmissionPolicy:
+        SUBMISSION_POLICIES[options.submissionPolicy ?? "open"],
+    }),
+
+  submit(kcUAL, paranetUAL, { staging } = {}) {
+    const dkg = getDkgClient(ctx, { ual: paranetUAL });
+    return staging
+      ? dkg.paranet.stageKnowledgeCollection(kcUAL, paranetUAL)
+      : dkg.asset.submitToParanet(kcUAL, paranetUAL);
+  },
+
+  review(kcUAL, paranetUAL, accepted) {
+    const dkg = getDkgClient(ctx, { ual: paranetUAL });
+    return dkg.paranet.reviewKnowledgeCollection(kcUAL, paranetUAL, accepted);
+  },
+
+  async listCollections(paranetUAL, limit) {
+    const dkg = getDkgClient(ctx, { ual: paranetUAL });
+    const result = await dkg.graph.query(GRAPHS_QUERY, "SELECT", {
+      paranetUAL,
+    });
+    const { rows } = toSparqlQueryResult("SELECT", result?.data) as {
+      rows: Record<string, string>[];
+    };
+
+    const collections = new Set<string>();
+    for (const { g } of rows) {
+      if (collections.size >= limit) break;
+      if (g?.startsWith("did:dkg:")) collections.add(toCollectionUAL(g));
+    }
+    return [...collections];
+  },
+});
@@ -0,0 +1,241 @@
+import * as jsonld from "jsonld";
+import { Parser, Store } from "n3";
+import SHACLValidator from "rdf-validate-shacl";
+import {
+  getDefaultJsonLdLoader,
+  type DocumentLoader,
+} from "@dkg/jsonld-loader";
+import type { DkgContext } from "@dkg/plugins";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { createDkgAssets } from "./dkgAssets";
+
+export type ShaclSeverity = "violation" | "warning" | "info";
+
+export type ShaclResult = {
+  severity: ShaclSeverity;
+  message: string;
+  /** Node of the data that does not conform to the shape */
+  focusNode?: string;
+  path?: string;
+  value?: string;
+  shape?: string;
+};
+
+export type JsonLdValidationResult = {
+  /** Whether there are no errors and no SHACL violations */
+  valid: boolean;
+  /** Reasons why the JSON-LD could not be processed */
+  errors: string[];
+  /**
+   * JSON-LD processing events that do not prevent publishing. Lossy
+   * processing, i.e. dropped properties, fails in safe mode like publishing.
+   */
+  warnings: string[];
+  tripleCount: number;
+  /** Canonical (URDNA2015) N-Quads, unless the JSON-LD could not be processed */
+  canonical?: string;
+  shaclResults: ShaclResult[];
+};
+
+export type DkgValidator = {
+  /**
+   * Expands and canonicalizes the JSON-LD, and validates it against
+   * SHACL shapes in Turtle, stored as the blobs with the `shapes` IDs.
+   * The authenticated user `auth` needs read access to the shapes,
+   * unless it is "internal" (see `canAccessBlob`).
+   * Problems with the content are reported in the result.
+   *
+   * @throws {Error} If a blob with shapes does not exist or is not accessible.
+   */
+  validate: (
+    jsonld: string,
+    options?: { shapes?: string[]; auth?: AuthInfo | "internal" },
+  ) => Promise<JsonLdValidationResult>;
+};
+
+declare module "@dkg/plugins" {
+  interface DkgServices {
+    dkgValidator: DkgValidator;
+  }
+}
+
+type JsonLdEvent = { message: string; details?: Record<string, unknown> };
+
+/** Processing options missing from the jsonld typings */
+type CanonizeOptions = jsonld.Options.Normalize & {
+  documentLoader: DocumentLoader;
+  safe: boolean;
+  eventHandler: (handler: { event: JsonLdEvent }) => void;
+};
+
+const SHACL = "http://www.w3.org/ns/shacl#";
+
+/** Message of a JSON-LD processing event, with the term it is about */
+const formatEvent = (event: JsonLdEvent) => {
+  const term = ["property", "term", "iri", "value", "object"]
+    .map((key) => event.details?.[key])
+    .find((value) => typeof value === "string");
+  return term ? `${event.message} (${term})` : event.message;
+};
+
+const errorMessage = (error: unknown) => {
+  if (!(error instanceof Error)) return String(error);
+  // JSON-LD errors wrap the reason, i.e. a context that failed to load,
+  // or the event of lossy processing in safe mode
+  const { cause, event } =
+    (error as { details?: { cause?: unknown; event?: JsonLdEvent } }).details ??
+    {};
+  if (cause instanceof Error) return `${error.message} ${cause.message}`;
+  if (event) return `${error.message} ${formatEvent(event)}`;
+  return error.message;
+};
+
+/**
+ * Parts of the content that are canonicalized separately for publishing,
+ * either the JSON-LD or its `{ public, private }` parts, see `toAssetNQuads`.
+ */
+const getAssetParts = (document: unknown) => {
+  if (
+    typeof document !== "object" ||
+    document === null ||
+    !("public" in document || "private" in document)
+  )
+    return [document];
+  const { public: publicPart, private: privatePart } = document as {
+    public?: object;
+    private?: object;
+  };
+  return [publicPart, privatePart].filter(
+    (part) => part && Object.keys(part).length,
+  );
+};
+
+const toShaclResult = (
+  result: Awaited<ReturnType<SHACLValidator["validate"]>>["results"][number],
+): ShaclResult => ({
+  severity: (result.severity?.value.replace(SHACL, "").toLowerCase() ??
+    "violation") as ShaclSeverity,
+  message:
+    result.message[0]?.value ??
+    `Does not conform to ${result.sourceConstraintComponent?.value.replace(SHACL, "sh:")}`,
+  focusNode: result.focusNode?.value,
+  path: result.path?.value,
+  value: result.value?.value,
+  shape:
+    result.sourceShape?.termType === "NamedNode"
+      ? result.sourceShape.value
+      : undefined,
+});
+
+const formatShaclResult = (result: ShaclResult) => {
+  const details = [
+    result.focusNode && `focus node: ${result.focusNode}`,
+    result.path && `path: ${result.path}`,
+    result.value && `value: ${result.value}`,
+  ].filter(Boolean);
+  return (
+    `[${result.severity}] ${result.message}` +
+    (details.length ? ` (${details.join(", ")})` : "")
+  );
+};
+
+/** Human readable summary of the validation, i.e. for the tools */
+export const formatValidationResult = (result: JsonLdValidationResult) => {
+  const sections: [string, string[]][] = [
+    ["Errors", result.errors],
+    ["Warnings", result.warnings],
+    ["SHACL results", result.shaclResults.map(formatShaclResult)],
+  ];
+  return [
+    result.valid ? "The JSON-LD is valid." : "The JSON-LD is not valid.",
+    `Triples: ${result.tripleCount}`,
+    ...sections.flatMap(([title, lines]) =>
+      lines.length ? [`${title}:`, ...lines.map((line) => `- ${line}`)] : [],
+    ),
+  ].join("\n");
+};
+
+export const createDkgValidator = (
+  ctx: Pick<DkgContext, "dkg" | "blob">,
+  documentLoader: DocumentLoader = getDefaultJsonLdLoader().load,
+): DkgValidator => {
+  const dkgAssets = createDkgAssets(ctx, documentLoader);
+
+  const loadShapes = async (ids: string[], auth?: AuthInfo | "internal") => {
+    const shapes = new Store();
+    for (const id of ids) {
+      const turtle = await dkgAssets.resolveContent(id, auth);
+      try {
+        shapes.addQuads(new Parser().parse(turtle));
+      } catch (error) {
+        throw new Error(
+          `File with id "${id}" is not valid Turtle: ${errorMessage(error)}`,
+        );
+      }
+    }
+    return shapes;
+  };
+
+  return {
+    async validate(content, { shapes = [], auth } = {}) {
+      const shapesGraph = shapes.length
+        ? await loadShapes(shapes, auth)
+        : undefined;
+      const result: JsonLdValidationResult = {
+        valid: false,
+        errors: [],
+        warnings: [],
+        tripleCount: 0,
+        shaclResults: [],
+      };
+
+      let document: unknown;
+      try {
+        document = JSON.parse(content);
+      } catch (error) {
+        result.errors.push(`Invalid JSON: ${errorMessage(error)}`);
+        return result;
+      }
+
+      const canonizeOptions: CanonizeOptions = {
+        algorithm: "URDNA2015",
+        format: "application/n-quads",
+        documentLoader,
+        // Same as publishing, which fails instead of dropping data
+        safe: true,
+        eventHandler: ({ event }) => {
+          result.warnings.push(formatEvent(event));
+        },
+      };
+      try {
+        result.canonical = "";
+        for (const part of getAssetParts(document))
+          result.canonical += await jsonld.canonize(
+            part as jsonld.JsonLdDocument,
+            canonizeOptions,
+          );
+      } catch (error) {
+        result.canonical = undefined;
+        result.errors.push(errorMessage(error));
+        return result;
+      }
+
+      const quads = new Parser({ format: "N-Quads" }).parse(result.canonical);
+      result.tripleCount = quads.length;
+      if (!quads.length)
+        result.errors.push("The JSON-LD does not contain any triples");
+
+      if (shapesGraph) {
+        const report = await new SHACLValidator(shapesGraph).validate(
+          new Store(quads),
+        );
+        result.shaclResults = report.results.map(toShaclResult);
+      }
+
+      result.valid =
+        !result.errors.length &&
+        result.shaclResults.every((r) => r.severity !== "violation");
+      return result;
+    },
+  };
+};
@@ -1,11 +1,165 @@
-import { defineDkgPlugin } from "@dkg/plugins";
+import { defineDkgPlugin, type DkgContext } from "@dkg/plugins";
+import type { BlobStorage } from "@dkg/plugins/types";
+import { z } from "@dkg/plugin-swagger";
+import { createJsonLdLoader, getDefaultJsonLdLoader } from "@dkg/jsonld-loader";
 
 import blobsPlugin from "./plugins/blobs";
 import dkgToolsPlugin from "./plugins/dkg-tools";
+import jsonldPlugin from "./plugins/jsonld";
+import paranetsPlugin from "./plugins/paranets";
+import validationPlugin from "./plugins/validation";
+import { createDkgAssets } from "./dkgAssets";
+import { createDkgParanets } from "./dkgParanets";
+import { createDkgValidator } from "./dkgValidator";
+import type { JsonLdLoader } from "./jsonldLoader";
+import type { DkgClientContext } from "./networks";
+import {
+  DEFAULT_PUBLISH_OPTIONS,
+  PUBLISH_OPTION_RANGES,
+  type PublishDefaults,
+} from "./publishOptions";
 
-export { dkgToolsPlugin, blobsPlugin };
+export {
+  dkgToolsPlugin,
+  blobsPlugin,
+  jsonldPlugin,
+  paranetsPlugin,
+  validationPlugin,
+};
+export type { DkgAssets, PublishResult } from "./dkgAssets";
+export type { DkgParanets } from "./dkgParanets";
+export type { DkgValidator, JsonLdValidationResult } from "./dkgValidator";
+export type { JsonLdLoader };
+export {
+  DEFAULT_PUBLISH_OPTIONS,
+  PUBLISH_OPTION_RANGES,
+  publishOptionsInputSchema,
+  type PublishOptions,
+} from "./publishOptions";
+export {
+  toDkgQuery,
+  validateSparqlQuery,
+  type SparqlQueryType,
+  type SparqlValidationResult,
+} from "./sparql";
+export {
+  estimatePublishingCost,
+  formatPublishingCost,
+  type PublishingCostEstimate,
+} from "./publishingCost";
 
-export default defineDkgPlugin((ctx, mcp, api) => {
-  blobsPlugin(ctx, mcp, api);
-  dkgToolsPlugin(ctx, mcp, api);
+/**
+ * Provides the services of the essentials plugin, which its plugins use.
+ * Runs in its `setup`, or has to be called when its plugins are used on their own.
+ */
+export const provideEssentialsServices = (
+  ctx: DkgClientContext & Pick<DkgContext, "blob" | "services">,
+  {
+    jsonldLoader = getDefaultJsonLdLoader(),
+    publishDefaults,
+  }: { jsonldLoader?: JsonLdLoader; publishDefaults?: PublishDefaults } = {},
+) => {
+  ctx.services.provide("jsonldLoader", jsonldLoader);
+  ctx.services.provide(
+    "dkgAssets",
+    createDkgAssets(ctx, jsonldLoader.load, publishDefaults),
+  );
+  ctx.services.provide("dkgParanets", createDkgParanets(ctx));
+  ctx.services.provide(
+    "dkgValidator",
+    createDkgValidator(ctx, jsonldLoader.load),
+  );
+};
+
+let sweepInterval: NodeJS.Timeout | undefined;
+
+const sweepBlobs = (blob: BlobStorage) =>
+  blob.sweep().then(
+    (deleted) => {
+      if (deleted.length)
+        console.log(`Deleted ${deleted.length} expired blobs`);
+    },
+    (error) => console.error("Failed to delete expired blobs:", error),
+  );
+
+export default defineDkgPlugin({
+  name: "dkg-essentials",
+  config: {
+    schema: z.object({
+      /** How often expired blobs are deleted, in milliseconds. 0 disables it. */
+      BLOB_SWEEP_INTERVAL: z.coerce
+        .number()
+        .int()
+        .nonnegative()
+        .default(60 * 60 * 1000),
+      /**
+       * Directory where registered and fetched JSON-LD contexts are stored.
+       * Without it, they are only kept in memory.
+       */
+      JSONLD_CACHE_DIR: z.string().min(1).optional(),
+      /** Disable fetching JSON-LD contexts on air-gapped nodes */
+      JSONLD_FETCH_CONTEXTS: z.enum(["true", "false"]).default("true"),
+      /** Epochs Knowledge Assets are published for, unless given */
+      DKG_PUBLISH_EPOCHS: z.coerce
+        .number()
+        .int()
+        .min(PUBLISH_OPTION_RANGES.epochs.min)
+        .max(PUBLISH_OPTION_RANGES.epochs.max)
+        .default(DEFAULT_PUBLISH_OPTIONS.epochs),
+      /** Finalization confirmations to wait for, unless given. 0 does not wait. */
+      DKG_PUBLISH_FINALIZATION_CONFIRMATIONS: z.coerce
+        .number()
+        .int()
+        .min(PUBLISH_OPTION_RANGES.finalizationConfirmations.min)
+        .max(PUBLISH_OPTION_RANGES.finalizationConfirmations.max)
+        .default(DEFAULT_PUBLISH_OPTIONS.finalizationConfirmations),
+      /** Minimum number of nodes Knowledge Assets are replicated to, unless given */
+      DKG_PUBLISH_REPLICATIONS: z.coerce
+        .number()
+        .int()
+        .min(PUBLISH_OPTION_RANGES.replications.min)
+        .max(PUBLISH_OPTION_RANGES.replications.max)
+        .default(DEFAULT_PUBLISH_OPTIONS.replications),
+      /** Maximum TRAC to spend on publishing a Knowledge Asset, in wei */
+      DKG_PUBLISH_MAX_TOKEN_AMOUNT: z.string().regex(/^\d+$/).optional(),
+    }),
+  },
+  setup(ctx) {
+    provideEssentialsServices(ctx, {
+      jsonldLoader: createJsonLdLoader({
+        cacheDir: ctx.config.JSONLD_CACHE_DIR,
+        fetch: ctx.config.JSONLD_FETCH_CONTEXTS === "true",
+      }),
+      publishDefaults: {
+        epochs: ctx.config.DKG_PUBLISH_EPOCHS,
+        finalizationConfirmations:
+          ctx.config.DKG_PUBLISH_FINALIZATION_CONFIRMATIONS,
+        replications: ctx.config.DKG_PUBLISH_REPLICATIONS,
+        maxTokenAmount: ctx.config.DKG_PUBLISH_MAX_TOKEN_AMOUNT,
+      },
+    });
+
+    if (ctx.config.BLOB_SWEEP_INTERVAL) {
+      sweepInterval = setInterval(
+        () => sweepBlobs(ctx.blob),
+        ctx.config.BLOB_SWEEP_INTERVAL,
+      );
+      // Should not keep the process running
+      sweepInterval.unref();
+    }
+  },
+  shutdown() {
+    clearInterval(sweepInterval);
+  },
+  registerApi(ctx, api) {
+    blobsPlugin.registerApi!(ctx, api);
+    jsonldPlugin.registerApi!(ctx, api);
+    paranetsPlugin.registerApi!(ctx, api);
+  },
+  registerMcp(ctx, mcp) {
+    blobsPlugin.registerMcp!(ctx, mcp);
+    dkgToolsPlugin.registerMcp!(ctx, mcp);
+    paranetsPlugin.registerMcp!(ctx, mcp);
+    validationPlugin.registerMcp!(ctx, mcp);
+  },
 });
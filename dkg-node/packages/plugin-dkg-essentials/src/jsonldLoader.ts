@@ -0,0 +1,9 @@
+import type { JsonLdLoader } from "@dkg/jsonld-loader";
+
+declare module "@dkg/plugins" {
+  interface DkgServices {
+    jsonldLoader: JsonLdLoader;
+  }
+}
+
+export type { JsonLdLoader };
@@ -0,0 +1,31 @@
+import type { DkgContext } from "@dkg/plugins";
+import { z } from "@dkg/plugins/helpers";
+
+/** Context of the services, whose networks are missing if they are created on their own */
+export type DkgClientContext = Pick<DkgContext, "dkg"> &
+  Partial<Pick<DkgContext, "networks">>;
+
+/**
+ * Client of the network with the name if given, otherwise of the network
+ * of the blockchain of the UAL, otherwise of the default network.
+ *
+ * @throws {Error} If there is no network with the given name.
+ */
+export const getDkgClient = (
+  ctx: DkgClientContext,
+  options: { network?: string; ual?: string } = {},
+): DkgContext["dkg"] => {
+  if (ctx.networks) return ctx.networks.resolve(options).dkg;
+  if (options.network)
+    throw new Error(`Network "${options.network}" is not configured.`);
+  return ctx.dkg;
+};
+
+/** Input of the tools, whose network is otherwise resolved by the UAL */
+export const networkInputSchema = z
+  .string()
+  .optional()
+  .describe(
+    "Name of the DKG network, i.e. mainnet, testnet or hardhat. " +
+      "Defaults to the network of the blockchain of the UAL, or the node's default network",
+  );
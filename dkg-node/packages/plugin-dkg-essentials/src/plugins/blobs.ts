@@ -1,246 +1,853 @@
 import { Readable, Writable } from "stream";
 import consumers from "stream/consumers";
 import { defineDkgPlugin } from "@dkg/plugins";
+import {
+  BlobQuotaExceededError,
+  canAccessBlob,
+  getUserId,
+  type express,
+} from "@dkg/plugins/helpers";
+import type {
+  BlobListOptions,
+  BlobListResult,
+  BlobMetadata,
+  BlobStorage,
+} from "@dkg/plugins/types";
 import { z, openAPIRoute } from "@dkg/plugin-swagger";
 import { ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+// Adds `req.auth`, set by the bearer auth middleware
+import type {} from "@modelcontextprotocol/sdk/server/auth/middleware/bearerAuth.js";
 import busboy from "busboy";
+import { getExpiresAt } from "../utils";
+import { ChunkedUploadError, createChunkedUploads } from "../chunkedUploads";
 
-export default defineDkgPlugin((ctx, mcp, api) => {
-  mcp.registerTool(
-    "upload",
-    {
-      title: "Upload File",
-      description:
-        "Upload a file to the MCP server that can later be accessed by other plugins through DKG context",
-      inputSchema: {
-        filename: z.string().describe("Filename"),
-        fileBase64: z.string().describe("Base64 encoded file content"),
-        mimeType: z.string().optional(),
-      },
-    },
-    async ({ fileBase64, filename, mimeType }) => {
-      const buffer = Buffer.from(fileBase64, "base64");
-      const { id } = await ctx.blob.create(
-        Readable.toWeb(Readable.from(buffer)),
-        {
-          name: filename,
-          mimeType,
-        },
-      );
+// Coerced, since it is also used for query strings
+const ttlSchema = z.coerce
+  .number()
+  .int()
+  .positive()
+  .optional()
+  .describe("Seconds after which the file is deleted");
+
+/**
+ * Strong ETag for content-addressed blobs, otherwise a weak one
+ * derived from the size and the modification time.
+ */
+const getETag = ({ digest, size, lastModified }: BlobMetadata) => {
+  if (digest) return `"${digest}"`;
+  if (size === undefined || !lastModified) return undefined;
+  return `W/"${size.toString(16)}-${new Date(lastModified).getTime().toString(16)}"`;
+};
+
+/**
+ * Single byte range requested with the `Range` header, or -1 if it cannot
+ * be satisfied. Otherwise, i.e. for multiple ranges, the whole blob is sent.
+ */
+const getRange = (req: express.Request, metadata: BlobMetadata) => {
+  if (metadata.size === undefined || !req.headers.range) return undefined;
+
+  // Ranges of a different version of the blob are ignored.
+  // Weak ETags do not identify a version, so they never match.
+  const ifRange = req.get("If-Range");
+  if (ifRange) {
+    const sameVersion = ifRange.startsWith('"')
+      ? ifRange === getETag(metadata)
+      : !!metadata.lastModified &&
+        ifRange === new Date(metadata.lastModified).toUTCString();
+    if (!sameVersion) return undefined;
+  }
 
-      return {
-        content: [
+  const ranges = req.range(metadata.size, { combine: true });
+  if (ranges === -1) return -1;
+  if (!Array.isArray(ranges) || ranges.type !== "bytes" || ranges.length !== 1)
+    return undefined;
+  return ranges[0];
+};
+
+/**
+ * Whether the ID can be used by clients. Internal blobs, i.e. chunks of
+ * uploads in progress, start with a dot, and IDs with path separators
+ * could escape the directory of a file system storage.
+ */
+const isBlobId = (id: string) =>
+  id.length > 0 && !id.startsWith(".") && !/[/\\]/.test(id);
+
+/**
+ * Blobs of the authenticated user. Without authentication, all blobs
+ * are listed, as they are accessible. Tokens without a user, i.e. created
+ * with a script, only list all blobs with the "admin" scope, otherwise none.
+ */
+const listBlobs = async (
+  blob: BlobStorage,
+  auth: AuthInfo | undefined,
+  options: BlobListOptions = {},
+): Promise<BlobListResult> => {
+  const owner = getUserId(auth);
+  if (auth && owner === undefined)
+    return auth.scopes.includes("admin") ? blob.list(options) : { blobs: [] };
+  return blob.list({ ...options, owner });
+};
+
+/** Responds with the status of upload errors, other errors are rethrown */
+const sendUploadError = (error: unknown, res: express.Response) => {
+  if (error instanceof ChunkedUploadError)
+    return res.status(error.status).json({ error: error.message });
+  if (error instanceof BlobQuotaExceededError)
+    return res.status(413).json({ error: error.message });
+  throw error;
+};
+
+export default defineDkgPlugin({
+  registerMcp(ctx, mcp) {
+    mcp.registerTool(
+      "upload",
+      {
+        title: "Upload File",
+        description:
+          "Upload a file to the MCP server that can later be accessed by other plugins through DKG context",
+        inputSchema: {
+          filename: z.string().describe("Filename"),
+          fileBase64: z.string().describe("Base64 encoded file content"),
+          mimeType: z.string().optional(),
+          ttl: ttlSchema,
+        },
+      },
+      async ({ fileBase64, filename, mimeType, ttl }, { authInfo }) => {
+        const buffer = Buffer.from(fileBase64, "base64");
+        const { id } = await ctx.blob.create(
+          Readable.toWeb(Readable.from(buffer)),
           {
-            type: "text",
-            text: "File was successfully uploaded with ID: " + id,
+            name: filename,
+            mimeType,
+            owner: getUserId(authInfo),
+            expiresAt: getExpiresAt(ttl),
           },
-        ],
-      };
-    },
-  );
-
-  mcp.registerResource(
-    "blob",
-    new ResourceTemplate("dkg-blob://{id}", { list: undefined }),
-    {
-      title: "Blob",
-      description: "A blob resource",
-    },
-    async (uri) => {
-      const blob = await ctx.blob.get(
-        uri.toString().substring("dkg-blob://".length),
-      );
-      if (!blob) throw new Error("Resource not found");
-      const text = await consumers.text(blob.data);
-
-      return {
-        contents: [{ uri: uri.toString(), text }],
-      };
-    },
-  );
-
-  api.post(
-    "/blob",
-    openAPIRoute(
+        );
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: "File was successfully uploaded with ID: " + id,
+            },
+          ],
+        };
+      },
+    );
+
+    const uploads = createChunkedUploads(ctx.blob);
+    const uploadIdSchema = z
+      .string()
+      .uuid()
+      .describe("Upload ID returned by upload_init");
+
+    mcp.registerTool(
+      "upload_init",
       {
-        summary: "Upload file to MCP Server",
+        title: "Start File Upload",
         description:
-          "Used for uploading files to the MCP Server blob storage " +
-          "to later be used in the tool calls via generated id",
-        tag: "Blobs",
-        response: {
-          schema: z.object({
-            id: z.string().openapi({
-              description: "The unique identifier of the stored blob",
-              example: "b931b43f-76be-4289-a44e-bbc87286bd2e_my-doc.pdf",
+          "Start uploading a large file in multiple chunks. " +
+          "Upload the chunks with upload_chunk, then call upload_complete.",
+        inputSchema: {
+          filename: z.string().describe("Filename"),
+          mimeType: z.string().optional(),
+          ttl: ttlSchema,
+        },
+      },
+      async ({ filename, mimeType, ttl }, { authInfo }) => {
+        const { uploadId } = await uploads.init(
+          { name: filename, mimeType, ttl },
+          authInfo,
+        );
+
+        return {
+          content: [
+            { type: "text", text: "Upload was started with ID: " + uploadId },
+          ],
+        };
+      },
+    );
+
+    mcp.registerTool(
+      "upload_chunk",
+      {
+        title: "Upload File Chunk",
+        description:
+          "Upload a chunk of a file started with upload_init. " +
+          "Chunks are numbered from 0, and can be uploaded again if their upload failed.",
+        inputSchema: {
+          uploadId: uploadIdSchema,
+          index: z.number().int().nonnegative().describe("Chunk number"),
+          chunkBase64: z.string().describe("Base64 encoded chunk content"),
+        },
+      },
+      async ({ uploadId, index, chunkBase64 }, { authInfo }) => {
+        const buffer = Buffer.from(chunkBase64, "base64");
+        await uploads.putChunk(
+          uploadId,
+          index,
+          Readable.toWeb(Readable.from(buffer)),
+          authInfo,
+        );
+
+        return {
+          content: [
+            { type: "text", text: `Chunk ${index} was successfully uploaded` },
+          ],
+        };
+      },
+    );
+
+    mcp.registerTool(
+      "upload_complete",
+      {
+        title: "Complete File Upload",
+        description:
+          "Complete a file upload started with upload_init, " +
+          "after all of its chunks were uploaded",
+        inputSchema: {
+          uploadId: uploadIdSchema,
+          chunks: z.number().int().positive().describe("Number of chunks"),
+          sha256: z
+            .string()
+            .optional()
+            .describe("Hex SHA-256 digest of the file, to verify its content"),
+        },
+      },
+      async ({ uploadId, chunks, sha256 }, { authInfo }) => {
+        const { id } = await uploads.complete(
+          uploadId,
+          { chunks, sha256 },
+          authInfo,
+        );
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: "File was successfully uploaded with ID: " + id,
+            },
+          ],
+        };
+      },
+    );
+
+    mcp.registerResource(
+      "blob",
+      new ResourceTemplate("dkg-blob://{id}", {
+        // Only the first page, MCP clients cannot request the next ones
+        list: async ({ authInfo }) => {
+          const { blobs } = await listBlobs(ctx.blob, authInfo);
+          return {
+            resources: blobs.map((blob) => ({
+              uri: `dkg-blob://${blob.id}`,
+              name: blob.name,
+              mimeType: blob.mimeType,
+            })),
+          };
+        },
+      }),
+      {
+        title: "Blob",
+        description: "A blob resource",
+      },
+      async (uri, _variables, { authInfo }) => {
+        const id = uri.toString().substring("dkg-blob://".length);
+        if (!isBlobId(id)) throw new Error("Resource not found");
+        const metadata = await ctx.blob.info(id);
+        if (!metadata) throw new Error("Resource not found");
+        if (!canAccessBlob(metadata, authInfo, "read"))
+          throw new Error("Access denied");
+
+        const blob = await ctx.blob.get(id);
+        if (!blob) throw new Error("Resource not found");
+        const text = await consumers.text(blob.data);
+
+        return {
+          contents: [{ uri: uri.toString(), text }],
+        };
+      },
+    );
+  },
+
+  registerApi(ctx, api) {
+    api.post(
+      "/blob",
+      openAPIRoute(
+        {
+          summary: "Upload file to MCP Server",
+          description:
+            "Used for uploading files to the MCP Server blob storage " +
+            "to later be used in the tool calls via generated id",
+          tag: "Blobs",
+          query: z.object({
+            ttl: ttlSchema,
+          }),
+          response: {
+            schema: z.object({
+              id: z.string().openapi({
+                description: "The unique identifier of the stored blob",
+                example: "b931b43f-76be-4289-a44e-bbc87286bd2e_my-doc.pdf",
+              }),
+              name: z.string().openapi({
+                description:
+                  "The name of the file, used for displaying in the UI",
+                example: "my-doc.pdf",
+              }),
+              mimeType: z.string().openapi({
+                description: "The MIME type of the file",
+                example: "application/pdf",
+              }),
             }),
-            name: z.string().openapi({
-              description:
-                "The name of the file, used for displaying in the UI",
-              example: "my-doc.pdf",
+          },
+          finalizeRouteConfig(cfg) {
+            cfg.request = {
+              query: cfg.request?.query,
+              body: {
+                required: true,
+                description: "File data",
+                content: {
+                  "multipart/form-data": {
+                    schema: z.object({
+                      file: z.string().openapi({
+                        description: "The file to be uploaded",
+                        format: "binary",
+                      }),
+                    }),
+                  },
+                },
+              },
+            };
+            return cfg;
+          },
+        },
+        async (req, res) => {
+          const bb = busboy({ headers: req.headers });
+          bb.on("file", async (name, file, info) => {
+            if (name !== "file")
+              return res.status(400).json({ error: "Invalid file name" });
+
+            try {
+              const { id } = await ctx.blob.create(Readable.toWeb(file), {
+                name: info.filename,
+                mimeType: info.mimeType,
+                owner: getUserId(req.auth),
+                expiresAt: getExpiresAt(req.query.ttl),
+              });
+              res
+                .status(201)
+                .json({ id, name: info.filename, mimeType: info.mimeType });
+            } catch (error) {
+              if (error instanceof BlobQuotaExceededError)
+                return res.status(413).json({ error: error.message });
+              console.error(error);
+              res
+                .status(500)
+                .json({ error: `Failed to create blob: ${error}` });
+            }
+          });
+          req.pipe(bb);
+        },
+      ),
+    );
+
+    api.get(
+      "/blob",
+      openAPIRoute(
+        {
+          summary: "List blobs",
+          description:
+            "List blobs (files) uploaded by the authenticated user, " +
+            "ordered by ID. Use the returned cursor to get the next page.",
+          tag: "Blobs",
+          query: z.object({
+            prefix: z.string().optional().openapi({
+              description: "Only blobs with IDs starting with the prefix",
+            }),
+            mimeType: z.string().optional().openapi({
+              description: "MIME type of the blobs, i.e. image/png or image/*",
+            }),
+            cursor: z.string().optional().openapi({
+              description: "Cursor returned with the previous page",
             }),
-            mimeType: z.string().openapi({
-              description: "The MIME type of the file",
-              example: "application/pdf",
+            limit: z.coerce.number().int().min(1).max(1000).optional().openapi({
+              description: "Maximum number of blobs to return",
+              example: 100,
             }),
           }),
+          response: {
+            schema: z.object({
+              blobs: z.array(
+                z.object({
+                  id: z.string(),
+                  name: z.string(),
+                  mimeType: z.string().optional(),
+                  size: z.number().optional(),
+                  lastModified: z.string().datetime().optional(),
+                }),
+              ),
+              cursor: z.string().optional().openapi({
+                description: "Only returned if there are more blobs",
+              }),
+            }),
+          },
         },
-        finalizeRouteConfig(cfg) {
-          cfg.request = {
-            body: {
-              required: true,
-              description: "File data",
-              content: {
-                "multipart/form-data": {
-                  schema: z.object({
-                    file: z.string().openapi({
-                      description: "The file to be uploaded",
-                      format: "binary",
+        async (req, res) => {
+          const { blobs, cursor } = await listBlobs(
+            ctx.blob,
+            req.auth,
+            req.query,
+          );
+          res.json({
+            blobs: blobs.map(({ lastModified, ...blob }) => ({
+              ...blob,
+              lastModified:
+                lastModified && new Date(lastModified).toISOString(),
+            })),
+            cursor,
+          });
+        },
+      ),
+    );
+
+    api.get(
+      "/blob/:id",
+      openAPIRoute(
+        {
+          summary: "Get a blob",
+          description:
+            "Retrieve a blob (file) by its ID. Downloads the file, or a part of it " +
+            "with the Range header. Supports conditional requests with " +
+            "If-None-Match and If-Modified-Since.",
+          tag: "Blobs",
+          params: z.object({
+            id: z.string().openapi({
+              description:
+                "Blob ID which was generated by the server during upload",
+            }),
+          }),
+          query: z.object({
+            disposition: z
+              .enum(["attachment", "inline"])
+              .default("attachment")
+              .describe(
+                "Use inline to preview the file in the browser instead of downloading it",
+              ),
+          }),
+        },
+        async (req, res) => {
+          if (!isBlobId(req.params.id))
+            return res.status(400).json({ error: "Invalid blob ID" });
+          const metadata = await ctx.blob.info(req.params.id);
+          if (!metadata)
+            return res.status(404).json({ error: "Blob not found" });
+          if (!canAccessBlob(metadata, req.auth, "read"))
+            return res.status(403).json({ error: "Access denied" });
+
+          const etag = getETag(metadata);
+          if (etag) res.setHeader("ETag", etag);
+          if (metadata.lastModified)
+            res.setHeader(
+              "Last-Modified",
+              new Date(metadata.lastModified).toUTCString(),
+            );
+          if (req.fresh) return res.status(304).end();
+
+          const range = getRange(req, metadata);
+          if (range === -1) {
+            res.setHeader("Content-Range", `bytes */${metadata.size}`);
+            return res.status(416).json({ error: "Range not satisfiable" });
+          }
+
+          const obj = await ctx.blob.get(req.params.id, { range });
+          if (!obj) return res.status(404).json({ error: "Blob not found" });
+
+          if (obj.metadata.mimeType) {
+            res.setHeader("Content-Type", obj.metadata.mimeType);
+          }
+          res.setHeader(
+            "Content-Disposition",
+            `${req.query.disposition}; filename="${obj.metadata.name}"`,
+          );
+          if (metadata.size !== undefined) {
+            res.setHeader("Accept-Ranges", "bytes");
+            res.setHeader(
+              "Content-Length",
+              range ? range.end - range.start + 1 : metadata.size,
+            );
+          }
+          if (range) {
+            res.setHeader(
+              "Content-Range",
+              `bytes ${range.start}-${range.end}/${metadata.size}`,
+            );
+            res.status(206);
+          } else res.status(200);
+
+          return obj.data.pipeTo(Writable.toWeb(res));
+        },
+      ),
+    );
+
+    api.put(
+      "/blob/:id",
+      openAPIRoute(
+        {
+          summary: "Update/create a blob",
+          description:
+            "Update a file with the given ID or create a new file with the given ID. " +
+            "Existing files can only be updated by their owner or users they are shared with for writing.",
+          tag: "Blobs",
+          params: z.object({
+            id: z.string().openapi({
+              description:
+                "Blob ID which was generated by the server during upload",
+            }),
+          }),
+          finalizeRouteConfig(cfg) {
+            cfg.request = {
+              params: cfg.request?.params,
+              body: {
+                required: true,
+                description: "File",
+                content: {
+                  "multipart/form-data": {
+                    schema: z.object({
+                      file: z.string().openapi({
+                        description: "The file to be uploaded",
+                        format: "binary",
+                      }),
                     }),
-                  }),
+                  },
                 },
               },
-            },
-          };
-          return cfg;
+            };
+            return cfg;
+          },
         },
-      },
-      async (req, res) => {
-        const bb = busboy({ headers: req.headers });
-        bb.on("file", async (name, file, info) => {
-          if (name !== "file")
-            return res.status(400).json({ error: "Invalid file name" });
+        async (req, res) => {
+          if (!isBlobId(req.params.id))
+            return res.status(400).json({ error: "Invalid blob ID" });
+          const existing = await ctx.blob.info(req.params.id);
+          if (existing && !canAccessBlob(existing, req.auth, "write"))
+            return res.status(403).json({ error: "Access denied" });
 
+          const bb = busboy({ headers: req.headers });
+          bb.on("file", async (name, file, info) => {
+            if (name !== "file")
+              return res.status(400).json({ error: "Invalid file name" });
+
+            try {
+              await ctx.blob.put(req.params.id, Readable.toWeb(file), {
+                name: info.filename,
+                mimeType: info.mimeType,
+                // Updating a blob does not change its ownership
+                owner: existing ? existing.owner : getUserId(req.auth),
+                shares: existing?.shares,
+                expiresAt: existing?.expiresAt,
+              });
+              res.status(200).send();
+            } catch (error) {
+              if (error instanceof BlobQuotaExceededError)
+                return res.status(413).json({ error: error.message });
+              console.error(error);
+              res
+                .status(500)
+                .json({ error: `Failed to update blob: ${error}` });
+            }
+          });
+          req.pipe(bb);
+        },
+      ),
+    );
+
+    api.delete(
+      "/blob/:id",
+      openAPIRoute(
+        {
+          summary: "Delete a blob",
+          description:
+            "Delete a blob (file) by its ID. Only allowed for the owner of the blob.",
+          tag: "Blobs",
+          params: z.object({
+            id: z.string().openapi({
+              description:
+                "Blob ID which was generated by the server during upload",
+            }),
+          }),
+        },
+        async (req, res) => {
+          if (!isBlobId(req.params.id))
+            return res.status(400).json({ error: "Invalid blob ID" });
           try {
-            const { id } = await ctx.blob.create(Readable.toWeb(file), {
-              name: info.filename,
-              mimeType: info.mimeType,
-            });
-            res
-              .status(201)
-              .json({ id, name: info.filename, mimeType: info.mimeType });
+            const existing = await ctx.blob.info(req.params.id);
+            if (existing && !canAccessBlob(existing, req.auth, "owner"))
+              return res.status(403).json({ error: "Access denied" });
+
+            await ctx.blob.delete(req.params.id);
+            res.status(200).send();
           } catch (error) {
             console.error(error);
-            res.status(500).json({ error: `Failed to create blob: ${error}` });
+            res.status(500).json({ error: `Failed to delete blob: ${error}` });
           }
-        });
-        req.pipe(bb);
-      },
-    ),
-  );
+        },
+      ),
+    );
 
-  api.get(
-    "/blob/:id",
-    openAPIRoute(
-      {
-        summary: "Get a blob",
-        description: "Retrieve a blob (file) by its ID. Downloads the file.",
-        tag: "Blobs",
-        params: z.object({
-          id: z.string().openapi({
-            description:
-              "Blob ID which was generated by the server during upload",
-          }),
+    const shareParams = z.object({
+      id: z.string().openapi({
+        description: "Blob ID which was generated by the server during upload",
+      }),
+      userId: z.string().openapi({
+        description: "ID of the user the blob is shared with",
+      }),
+    });
+    const sharesResponse = {
+      schema: z.object({
+        shares: z.record(z.enum(["read", "write"])).openapi({
+          description: "Access granted to other users, by their IDs",
+          example: { "2": "read" },
         }),
-      },
-      async (req, res) => {
-        const obj = await ctx.blob.get(req.params.id);
-        if (!obj) return res.status(404).json({ error: "Blob not found" });
-
-        if (obj.metadata.mimeType) {
-          res.setHeader("Content-Type", obj.metadata.mimeType);
-        }
-        res.setHeader(
-          "Content-Disposition",
-          `attachment; filename="${obj.metadata.name}"`,
-        );
-        res.status(200);
+      }),
+    };
 
-        return obj.data.pipeTo(Writable.toWeb(res));
-      },
-    ),
-  );
+    api.put(
+      "/blob/:id/shares/:userId",
+      openAPIRoute(
+        {
+          summary: "Share a blob",
+          description:
+            "Grant another user read or write access to a blob. " +
+            "Only allowed for the owner of the blob.",
+          tag: "Blobs",
+          params: shareParams,
+          body: z.object({
+            access: z.enum(["read", "write"]),
+          }),
+          response: sharesResponse,
+        },
+        async (req, res) => {
+          if (!isBlobId(req.params.id))
+            return res.status(400).json({ error: "Invalid blob ID" });
+          const metadata = await ctx.blob.info(req.params.id);
+          if (!metadata)
+            return res.status(404).json({ error: "Blob not found" });
+          if (!canAccessBlob(metadata, req.auth, "owner"))
+            return res.status(403).json({ error: "Access denied" });
 
-  api.put(
-    "/blob/:id",
-    openAPIRoute(
-      {
-        summary: "Update/create a blob",
-        description:
-          "Update a file with the given ID or create a new file with the given ID.",
-        tag: "Blobs",
-        params: z.object({
-          id: z.string().openapi({
-            description:
-              "Blob ID which was generated by the server during upload",
+          const updated = await ctx.blob.updateMetadata(req.params.id, {
+            shares: {
+              ...metadata.shares,
+              [req.params.userId]: req.body.access,
+            },
+          });
+          res.json({ shares: updated?.shares ?? {} });
+        },
+      ),
+    );
+
+    api.delete(
+      "/blob/:id/shares/:userId",
+      openAPIRoute(
+        {
+          summary: "Unshare a blob",
+          description:
+            "Revoke the access to a blob granted to another user. " +
+            "Only allowed for the owner of the blob.",
+          tag: "Blobs",
+          params: shareParams,
+          response: sharesResponse,
+        },
+        async (req, res) => {
+          if (!isBlobId(req.params.id))
+            return res.status(400).json({ error: "Invalid blob ID" });
+          const metadata = await ctx.blob.info(req.params.id);
+          if (!metadata)
+            return res.status(404).json({ error: "Blob not found" });
+          if (!canAccessBlob(metadata, req.auth, "owner"))
+            return res.status(403).json({ error: "Access denied" });
+
+          const shares = { ...metadata.shares };
+          delete shares[req.params.userId];
+          const updated = await ctx.blob.updateMetadata(req.params.id, {
+            shares,
+          });
+          res.json({ shares: updated?.shares ?? {} });
+        },
+      ),
+    );
+
+    const uploads = createChunkedUploads(ctx.blob);
+    const uploadParams = z.object({
+      uploadId: z.string().uuid().openapi({
+        description: "Upload ID which was generated by the server",
+      }),
+    });
+
+    api.post(
+      "/blob/uploads",
+      openAPIRoute(
+        {
+          summary: "Start a chunked upload",
+          description:
+            "Start a resumable upload of a large file, " +
+            "which is then uploaded in chunks and completed.",
+          tag: "Blobs",
+          body: z.object({
+            name: z.string().min(1).openapi({ description: "Filename" }),
+            mimeType: z.string().optional(),
+            ttl: ttlSchema,
           }),
-        }),
-        finalizeRouteConfig(cfg) {
-          cfg.request = {
-            params: cfg.request?.params,
-            body: {
-              required: true,
-              description: "File",
-              content: {
-                "multipart/form-data": {
-                  schema: z.object({
-                    file: z.string().openapi({
-                      description: "The file to be uploaded",
-                      format: "binary",
-                    }),
-                  }),
+          response: {
+            schema: z.object({ uploadId: z.string() }),
+          },
+        },
+        async (req, res) => {
+          try {
+            const { uploadId } = await uploads.init(req.body, req.auth);
+            res.status(201).json({ uploadId });
+          } catch (error) {
+            sendUploadError(error, res);
+          }
+        },
+      ),
+    );
+
+    api.get(
+      "/blob/uploads/:uploadId",
+      openAPIRoute(
+        {
+          summary: "Get a chunked upload",
+          description:
+            "Returns the number of consecutive chunks received, " +
+            "i.e. the chunk from which an interrupted upload can be resumed.",
+          tag: "Blobs",
+          params: uploadParams,
+          response: {
+            schema: z.object({
+              uploadId: z.string(),
+              name: z.string(),
+              mimeType: z.string().optional(),
+              receivedChunks: z.number(),
+            }),
+          },
+        },
+        async (req, res) => {
+          try {
+            res.json(await uploads.status(req.params.uploadId, req.auth));
+          } catch (error) {
+            sendUploadError(error, res);
+          }
+        },
+      ),
+    );
+
+    api.put(
+      "/blob/uploads/:uploadId/chunks/:index",
+      openAPIRoute(
+        {
+          summary: "Upload a chunk",
+          description:
+            "Upload a chunk of a file, as the raw request body. " +
+            "Chunks are numbered from 0, and replace the already uploaded ones.",
+          tag: "Blobs",
+          params: uploadParams.extend({
+            index: z.coerce.number().int().nonnegative().openapi({
+              description: "Chunk number",
+            }),
+          }),
+          finalizeRouteConfig(cfg) {
+            cfg.request = {
+              params: cfg.request?.params,
+              body: {
+                required: true,
+                description: "Chunk content",
+                content: {
+                  "application/octet-stream": {
+                    schema: z.string().openapi({ format: "binary" }),
+                  },
                 },
               },
-            },
-          };
-          return cfg;
+            };
+            return cfg;
+          },
         },
-      },
-      async (req, res) => {
-        const bb = busboy({ headers: req.headers });
-        bb.on("file", async (name, file, info) => {
-          if (name !== "file")
-            return res.status(400).json({ error: "Invalid file name" });
-
+        async (req, res) => {
           try {
-            await ctx.blob.put(req.params.id, Readable.toWeb(file), {
-              name: info.filename,
-              mimeType: info.mimeType,
-            });
+            await uploads.putChunk(
+              req.params.uploadId,
+              req.params.index,
+              Readable.toWeb(req),
+              req.auth,
+            );
             res.status(200).send();
           } catch (error) {
-            console.error(error);
-            res.status(500).json({ error: `Failed to update blob: ${error}` });
+            sendUploadError(error, res);
           }
-        });
-        req.pipe(bb);
-      },
-    ),
-  );
+        },
+      ),
+    );
 
-  api.delete(
-    "/blob/:id",
-    openAPIRoute(
-      {
-        summary: "Delete a blob",
-        description: "Delete a blob (file) by its ID.",
-        tag: "Blobs",
-        params: z.object({
-          id: z.string().openapi({
-            description:
-              "Blob ID which was generated by the server during upload",
+    api.post(
+      "/blob/uploads/:uploadId/complete",
+      openAPIRoute(
+        {
+          summary: "Complete a chunked upload",
+          description:
+            "Store the uploaded chunks as a blob. " +
+            "If a SHA-256 digest is given, the content is verified.",
+          tag: "Blobs",
+          params: uploadParams,
+          body: z.object({
+            chunks: z.number().int().positive().openapi({
+              description: "Number of uploaded chunks",
+            }),
+            sha256: z.string().optional().openapi({
+              description: "Hex SHA-256 digest of the whole file",
+            }),
           }),
-        }),
-      },
-      async (req, res) => {
-        try {
-          await ctx.blob.delete(req.params.id);
-          res.status(200).send();
-        } catch (error) {
-          console.error(error);
-          res.status(500).json({ error: `Failed to delete blob: ${error}` });
-        }
-      },
-    ),
-  );
+          response: {
+            schema: z.object({
+              id: z.string(),
+              name: z.string(),
+              mimeType: z.string().optional(),
+            }),
+          },
+        },
+        async (req, res) => {
+          try {
+            const blob = await uploads.complete(
+              req.params.uploadId,
+              req.body,
+              req.auth,
+            );
+            res.status(201).json(blob);
+          } catch (error) {
+            sendUploadError(error, res);
+          }
+        },
+      ),
+    );
+
+    api.delete(
+      "/blob/uploads/:uploadId",
+      openAPIRoute(
+        {
+          summary: "Abort a chunked upload",
+          description: "Delete the upload with its uploaded chunks.",
+          tag: "Blobs",
+          params: uploadParams,
+        },
+        async (req, res) => {
+          try {
+            await uploads.abort(req.params.uploadId, req.auth);
+            res.status(200).send();
+          } catch (error) {
+            sendUploadError(error, res);
+          }
+        },
+      ),
+    );
+  },
 });
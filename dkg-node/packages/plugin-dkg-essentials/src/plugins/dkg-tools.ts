@@ -1,5 +1,4 @@
-import consumers from "stream/consumers";
-import { defineDkgPlugin } from "@dkg/plugins";
+import { defineDkgPlugin, type DkgNetwork } from "@dkg/plugins";
 import { z } from "@dkg/plugins/helpers";
 import {
   CompleteResourceTemplateCallback,
@@ -7,176 +6,354 @@ import {
 } from "@modelcontextprotocol/sdk/server/mcp.js";
 // @ts-expect-error dkg.js
 import { BLOCKCHAIN_IDS } from "dkg.js/constants";
-import { getExplorerUrl } from "../utils";
-
-export default defineDkgPlugin((ctx, mcp) => {
-  async function publishJsonLdAsset(
-    jsonldRaw: string,
-    privacy: "private" | "public",
-  ): Promise<{ ual: string | null; error: string | null }> {
-    try {
-      const jsonldParsed = JSON.parse(jsonldRaw);
-      const wrapped = { [privacy]: jsonldParsed };
-      const createAsset = await ctx.dkg.asset.create(wrapped, {
-        epochsNum: 2,
-        minimumNumberOfFinalizationConfirmations: 3,
-        minimumNumberOfNodeReplications: 1,
+import { getExplorerUrl, withSourceKnowledgeAssets } from "../utils";
+import type { PublishResult } from "../dkgAssets";
+import { formatValidationResult } from "../dkgValidator";
+import { networkInputSchema } from "../networks";
+import { formatPublishingCost } from "../publishingCost";
+import { publishOptionsInputSchema } from "../publishOptions";
+import { formatSparqlQueryResult, getSourceKnowledgeAssets } from "../sparql";
+
+/** Human readable summary of a successful publish, with the explorer link */
+const formatPublishResult = (
+  { ual, transactionHash, operations }: PublishResult,
+  network: DkgNetwork,
+) => {
+  const lines = [
+    "Knowledge Asset collection successfully created.",
+    "",
+    `UAL: ${ual}`,
+    `Network: ${network.name}`,
+    `DKG Explorer link: ${getExplorerUrl(ual!, network)}`,
+  ];
+  if (transactionHash) lines.push(`Transaction hash: ${transactionHash}`);
+  if (operations.finality)
+    lines.push(
+      `Finality: ${operations.finality.status} ` +
+        `(${operations.finality.confirmations} of ${operations.finality.requiredConfirmations} confirmations)`,
+    );
+  // The asset is already minted, so a failed submission is only reported
+  const submission = operations.submitToParanet;
+  if (submission)
+    lines.push(
+      submission.status === "COMPLETED"
+        ? `Submitted to paranet: ${submission.paranetUAL}`
+        : `Failed to submit to paranet ${submission.paranetUAL}: ${submission.errorMessage}`,
+    );
+  return lines.join("\n");
+};
+
+export default defineDkgPlugin({
+  registerMcp(ctx, mcp) {
+    const dkgAssets = ctx.services.use("dkgAssets");
+    const dkgValidator = ctx.services.use("dkgValidator");
+
+    const estimate = (
+      content: string,
+      privacy: "private" | "public",
+      options: { epochs?: number; network?: string },
+    ) =>
+      dkgAssets.estimate(content, privacy, options).catch((err) => {
+        console.error("Error estimating asset cost:", err);
+        throw new Error(
+          "Failed to estimate cost: " +
+            (err instanceof Error ? err.message : String(err)),
+        );
       });
-      const ual = createAsset?.UAL || null;
-      return { ual, error: null };
-    } catch (err) {
-      const error = err instanceof Error ? err.message : String(err);
-      return { ual: null, error };
-    }
-  }
-
-  mcp.registerTool(
-    "dkg-get",
-    {
-      title: "DKG Knowledge Asset get tool",
-      description:
-        "A tool for running a GET operation on OriginTrail Decentralized Knowledge Graph (DKG) and retrieving a specific Knowledge Asset by its UAL (Unique Asset Locator), taking the UAL as input.",
-      inputSchema: { ual: z.string() },
-    },
-    async ({ ual }) => {
-      const getAssetResult = await ctx.dkg.asset.get(ual);
-      return {
-        content: [
-          { type: "text", text: JSON.stringify(getAssetResult, null, 2) },
-        ],
+
+    mcp.registerTool(
+      "dkg-get",
+      {
+        title: "DKG Knowledge Asset get tool",
+        description:
+          "A tool for running a GET operation on OriginTrail Decentralized Knowledge Graph (DKG) and retrieving a specific Knowledge Asset by its UAL (Unique Asset Locator), taking the UAL as input. " +
+          "A historical state of the Knowledge Asset can be retrieved by its index. " +
+          "It is retrieved from the network of the blockchain in the UAL, unless a network is given.",
+        inputSchema: {
+          ual: z.string(),
+          network: networkInputSchema,
+          state: z
+            .number()
+            .int()
+            .min(0)
+            .optional()
+            .describe("Index of the state to retrieve, the latest by default"),
+        },
+      },
+      async ({ ual, state, network }) => {
+        const getAssetResult = await dkgAssets.get(
+          ual,
+          state === undefined ? { network } : { state, network },
+        );
+        return {
+          content: [
+            { type: "text", text: JSON.stringify(getAssetResult, null, 2) },
+          ],
+        };
+      },
+    );
+
+    mcp.registerTool(
+      "dkg-sparql-query",
+      {
+        title: "DKG SPARQL query tool",
+        description:
+          "A tool for querying the OriginTrail Decentralized Knowledge Graph (DKG) with SPARQL, " +
+          "taking a SELECT, CONSTRUCT, ASK or DESCRIBE query as input. " +
+          "SELECT results are returned as a table and graphs as N-Quads. " +
+          "Optionally, the query can be limited to the Knowledge Assets of a paranet, " +
+          "and run on another network than the node's default one.",
+        inputSchema: {
+          query: z.string().min(1).describe("SPARQL query"),
+          paranetUAL: z
+            .string()
+            .optional()
+            .describe("UAL of the paranet to query"),
+          network: networkInputSchema,
+          limit: z
+            .number()
+            .int()
+            .min(1)
+            .max(1000)
+            .optional()
+            .default(100)
+            .describe("Maximum number of returned rows or quads"),
+        },
+      },
+      async ({ query, paranetUAL, network, limit }) => {
+        const result = await dkgAssets.query(query, { paranetUAL, network });
+        const response = {
+          content: [
+            {
+              type: "text" as const,
+              text: formatSparqlQueryResult(result, limit),
+            },
+          ],
+        };
+
+        const kas = getSourceKnowledgeAssets(result, limit);
+        return kas.length ? withSourceKnowledgeAssets(response, kas) : response;
+      },
+    );
+
+    const ualCompleteOptions: Record<string, CompleteResourceTemplateCallback> =
+      {
+        blockchainName: (val) =>
+          (Object.values(BLOCKCHAIN_IDS) as string[]).reduce<string[]>(
+            (acc, id) => {
+              const blockchainName = id.split(":")[0]!;
+              if (
+                blockchainName.includes(val.toLowerCase()) &&
+                !acc.includes(blockchainName)
+              )
+                acc.push(blockchainName);
+
+              return acc;
+            },
+            [],
+          ),
+        blockchainId: (val, ctx) =>
+          (Object.values(BLOCKCHAIN_IDS) as string[]).reduce<string[]>(
+            (acc, id) => {
+              const [blockchainName, blockchainId] = id.split(":");
+              if (
+                blockchainName === ctx?.arguments?.blockchainName &&
+                blockchainId!.includes(val)
+              )
+                acc.push(blockchainId!);
+
+              return acc;
+            },
+            [],
+          ),
+        // TODO: List possible blockchain contract addresses for v8 and v6
+        // blockchainAddress: (val, ctx) =>...
       };
-    },
-  );
-
-  const ualCompleteOptions: Record<string, CompleteResourceTemplateCallback> = {
-    blockchainName: (val) =>
-      (Object.values(BLOCKCHAIN_IDS) as string[]).reduce<string[]>(
-        (acc, id) => {
-          const blockchainName = id.split(":")[0]!;
-          if (
-            blockchainName.includes(val.toLowerCase()) &&
-            !acc.includes(blockchainName)
-          )
-            acc.push(blockchainName);
-
-          return acc;
+
+    mcp.registerResource(
+      "dkg-knowledge-asset",
+      new ResourceTemplate(
+        "did:dkg:{blockchainName}:{blockchainId}/{blockchainAddress}/{collectionId}/{assetId}",
+        {
+          list: undefined,
+          complete: ualCompleteOptions,
         },
-        [],
       ),
-    blockchainId: (val, ctx) =>
-      (Object.values(BLOCKCHAIN_IDS) as string[]).reduce<string[]>(
-        (acc, id) => {
-          const [blockchainName, blockchainId] = id.split(":");
-          if (
-            blockchainName === ctx?.arguments?.blockchainName &&
-            blockchainId!.includes(val)
-          )
-            acc.push(blockchainId!);
-
-          return acc;
+      {
+        title: "DKG Knowledge Asset",
+        description:
+          "A resource for accessing Knowledge Assets on OriginTrail Decentralized Knowledge Graph (DKG).",
+      },
+      async (ual) => {
+        const getAssetResult = await dkgAssets.get(ual.href.toLowerCase(), {
+          includeMetadata: true,
+        });
+        return {
+          contents: [
+            { uri: ual.href, text: JSON.stringify(getAssetResult, null, 2) },
+          ],
+        };
+      },
+    );
+
+    mcp.registerResource(
+      "dkg-knowledge-collection",
+      new ResourceTemplate(
+        "did:dkg:{blockchainName}:{blockchainId}/{blockchainAddress}/{collectionId}",
+        {
+          list: undefined,
+          complete: ualCompleteOptions,
         },
-        [],
       ),
-    // TODO: List possible blockchain contract addresses for v8 and v6
-    // blockchainAddress: (val, ctx) =>...
-  };
-
-  mcp.registerResource(
-    "dkg-knowledge-asset",
-    new ResourceTemplate(
-      "did:dkg:{blockchainName}:{blockchainId}/{blockchainAddress}/{collectionId}/{assetId}",
       {
-        list: undefined,
-        complete: ualCompleteOptions,
+        title: "DKG Knowledge Collection",
+        description:
+          "A resource for accessing Knowledge Collections on OriginTrail Decentralized Knowledge Graph (DKG).",
       },
-    ),
-    {
-      title: "DKG Knowledge Asset",
-      description:
-        "A resource for accessing Knowledge Assets on OriginTrail Decentralized Knowledge Graph (DKG).",
-    },
-    async (ual) => {
-      const getAssetResult = await ctx.dkg.asset.get(ual.href.toLowerCase(), {
-        includeMetadata: true,
-      });
-      return {
-        contents: [
-          { uri: ual.href, text: JSON.stringify(getAssetResult, null, 2) },
-        ],
-      };
-    },
-  );
+      async (ual) => {
+        const getAssetResult = await dkgAssets.get(ual.href.toLowerCase(), {
+          includeMetadata: true,
+        });
+        return {
+          contents: [
+            { uri: ual.href, text: JSON.stringify(getAssetResult, null, 2) },
+          ],
+        };
+      },
+    );
 
-  mcp.registerResource(
-    "dkg-knowledge-collection",
-    new ResourceTemplate(
-      "did:dkg:{blockchainName}:{blockchainId}/{blockchainAddress}/{collectionId}",
+    mcp.registerTool(
+      "dkg-create",
       {
-        list: undefined,
-        complete: ualCompleteOptions,
+        title: "DKG Knowledge Asset create tool",
+        description:
+          "A tool for creating and publishing Knowledge Assets on OriginTrail Decentralized Knowledge Graph (DKG), " +
+          "taking either a single JSON-LD string or a single file id as input. " +
+          "Optionally, you can specify privacy as 'private' or 'public' (default: 'private'), " +
+          "the UAL of a paranet to submit the Knowledge Asset to, " +
+          "and the publish options, which default to the ones of the node: " +
+          "epochs, finalization confirmations, replications, immutability and the maximum TRAC to spend, " +
+          "and the network to publish on (default: the node's default network). " +
+          "It returns the UAL, the transaction hash and the statuses of the publishing operations. " +
+          "With SHACL shapes, invalid content is not published. " +
+          "With dryRun, the content is validated and the cost of publishing it is estimated, without publishing it. " +
+          "Publishing costs TRAC and gas, so unless the user has already confirmed the cost, " +
+          "do a dry run first and ask the user to confirm the estimated cost.",
+        inputSchema: {
+          jsonld: z
+            .string()
+            .describe("JSON-LD content or ID of an uploaded file"),
+          privacy: z.enum(["private", "public"]).optional().default("private"),
+          ...publishOptionsInputSchema,
+          shapes: z
+            .array(z.string())
+            .optional()
+            .describe(
+              "IDs of uploaded files with SHACL shapes in Turtle, to validate the content against",
+            ),
+          dryRun: z
+            .boolean()
+            .optional()
+            .default(false)
+            .describe(
+              "Only validate the content and estimate the cost, without publishing it",
+            ),
+        },
+        // Publishing is paid by the node's wallet
+        scopes: ["dkg:publish"],
       },
-    ),
-    {
-      title: "DKG Knowledge Collection",
-      description:
-        "A resource for accessing Knowledge Collections on OriginTrail Decentralized Knowledge Graph (DKG).",
-    },
-    async (ual) => {
-      const getAssetResult = await ctx.dkg.asset.get(ual.href.toLowerCase(), {
-        includeMetadata: true,
-      });
-      return {
-        contents: [
-          { uri: ual.href, text: JSON.stringify(getAssetResult, null, 2) },
-        ],
-      };
-    },
-  );
-
-  mcp.registerTool(
-    "dkg-create",
-    {
-      title: "DKG Knowledge Asset create tool",
-      description:
-        "A tool for creating and publishing Knowledge Assets on OriginTrail Decentralized Knowledge Graph (DKG), " +
-        "taking either a single JSON-LD string or a single file id as input. " +
-        "Optionally, you can specify privacy as 'private' or 'public' (default: 'private').",
-      inputSchema: {
-        jsonld: z
-          .string()
-          .describe("JSON-LD content or ID of an uploaded file"),
-        privacy: z.enum(["private", "public"]).optional().default("private"),
+      async (input, { authInfo }) => {
+        if (!input.jsonld) {
+          console.error("No JSON-LD content provided after file read.");
+          throw new Error("No JSON-LD content provided.");
+        }
+        const privacy = input.privacy || "private";
+        const content = await dkgAssets.resolveContent(input.jsonld, authInfo);
+
+        // Fails before the wallet pays for publishing invalid content
+        if (input.dryRun || input.shapes?.length) {
+          const validation = await dkgValidator.validate(content, {
+            shapes: input.shapes,
+            auth: authInfo,
+          });
+          if (input.dryRun) {
+            let text = formatValidationResult(validation);
+            // Invalid content is not published, so it costs nothing
+            if (validation.valid)
+              text +=
+                "\n" +
+                formatPublishingCost(
+                  await estimate(content, privacy, {
+                    epochs: input.epochs,
+                    network: input.network,
+                  }),
+                );
+            return { content: [{ type: "text", text }] };
+          }
+          if (!validation.valid)
+            throw new Error(
+              "Failed to create asset: " + formatValidationResult(validation),
+            );
+        }
+
+        const result = await dkgAssets.create(content, privacy, {
+          epochs: input.epochs,
+          finalizationConfirmations: input.finalizationConfirmations,
+          replications: input.replications,
+          immutable: input.immutable,
+          maxTokenAmount: input.maxTokenAmount,
+          paranetUAL: input.paranetUAL,
+          network: input.network,
+        });
+        if (result.error) {
+          console.error("Error creating asset:", result.error);
+          throw new Error("Failed to create asset: " + result.error);
+        }
+
+        const response = formatPublishResult(
+          result,
+          ctx.networks.resolve({ network: input.network }),
+        );
+        console.log("Formatted response:", response);
+        return {
+          content: [
+            { type: "text", text: response },
+            { type: "text", text: JSON.stringify(result, null, 2) },
+          ],
+        };
       },
-    },
-    async (input) => {
-      if (!input.jsonld) {
-        console.error("No JSON-LD content provided after file read.");
-        throw new Error("No JSON-LD content provided.");
-      }
-      const privacy = input.privacy || "private";
-      const content =
-        input.jsonld.startsWith("{") || input.jsonld.startsWith("[")
-          ? input.jsonld
-          : await ctx.blob.get(input.jsonld).then((r) => {
-              if (!r) {
-                console.error(`File with id "${input.jsonld}" not found`);
-                throw new Error(`File with id "${input.jsonld}" not found`);
-              }
-              return consumers.text(r.data);
-            });
-
-      const { ual, error } = await publishJsonLdAsset(content, privacy);
-      if (error) {
-        console.error("Error creating asset:", error);
-        throw new Error("Failed to create asset: " + error);
-      }
-
-      const explorerLink = getExplorerUrl(ual!);
-      const response = `Knowledge Asset collection successfully created.\n\nUAL: ${ual}\nDKG Explorer link: ${explorerLink}`;
-      console.log("Formatted response:", response);
-      return {
-        content: [{ type: "text", text: response }],
-      };
-    },
-  );
+    );
+
+    mcp.registerTool(
+      "dkg-estimate",
+      {
+        title: "DKG Knowledge Asset cost estimate tool",
+        description:
+          "A tool for estimating what publishing a Knowledge Asset on OriginTrail Decentralized Knowledge Graph (DKG) costs, " +
+          "taking either a single JSON-LD string or a single file id as input, without publishing it. " +
+          "It returns the size of the assertion, the estimated TRAC bid for the number of epochs, " +
+          "the estimated gas in the native token, and whether the node's wallet can pay for it.",
+        inputSchema: {
+          jsonld: z
+            .string()
+            .describe("JSON-LD content or ID of an uploaded file"),
+          privacy: z.enum(["private", "public"]).optional().default("private"),
+          epochs: publishOptionsInputSchema.epochs,
+          network: networkInputSchema,
+        },
+        // Reveals the balances of the node's wallet, which pays for publishing
+        scopes: ["dkg:publish"],
+      },
+      async (input, { authInfo }) => {
+        const content = await dkgAssets.resolveContent(input.jsonld, authInfo);
+        const result = await estimate(content, input.privacy, {
+          epochs: input.epochs,
+          network: input.network,
+        });
+        return {
+          content: [{ type: "text", text: formatPublishingCost(result) }],
+        };
+      },
+    );
+  },
 });
@@ -0,0 +1,101 @@
+import { defineDkgPlugin } from "@dkg/plugins";
+import { z, openAPIRoute } from "@dkg/plugin-swagger";
+
+const errorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : String(error);
+
+export default defineDkgPlugin({
+  registerApi(ctx, api) {
+    // The loader is resolved on every request,
+    // since the service is provided after the routes are registered
+
+    api.get(
+      "/jsonld/contexts",
+      openAPIRoute(
+        {
+          summary: "List JSON-LD contexts",
+          description:
+            "List the JSON-LD contexts that are resolved without fetching them: " +
+            "the bundled ones, the registered ones and the cached ones.",
+          tag: "JSON-LD",
+          response: {
+            schema: z.object({
+              contexts: z.array(
+                z.object({
+                  url: z.string(),
+                  source: z.enum(["bundled", "registered", "cached"]),
+                  version: z.string().optional().openapi({
+                    description: "Version of a bundled context",
+                  }),
+                }),
+              ),
+            }),
+          },
+        },
+        async (_req, res) => {
+          try {
+            res.json({
+              contexts: await ctx.services.use("jsonldLoader").list(),
+            });
+          } catch (error) {
+            console.error(error);
+            res.status(500).json({
+              error: `Failed to list contexts: ${errorMessage(error)}`,
+            });
+          }
+        },
+      ),
+    );
+
+    api.post(
+      "/jsonld/contexts",
+      openAPIRoute(
+        {
+          summary: "Register JSON-LD context",
+          description:
+            "Register a custom JSON-LD context, which is then used " +
+            "instead of fetching the URL, i.e. on air-gapped nodes. " +
+            "It replaces a bundled or previously registered context with the same URL.",
+          tag: "JSON-LD",
+          body: z.object({
+            url: z.string().url().openapi({
+              description: "URL the context is referenced by",
+              example: "https://example.org/context.jsonld",
+            }),
+            document: z
+              .object({
+                "@context": z.union([
+                  z.string(),
+                  z.array(z.unknown()),
+                  z.record(z.string(), z.unknown()),
+                ]),
+              })
+              .passthrough()
+              .openapi({
+                description: "The context document",
+                example: {
+                  "@context": { "@vocab": "https://example.org/" },
+                },
+              }),
+          }),
+          response: {
+            schema: z.object({ url: z.string() }),
+          },
+        },
+        async (req, res) => {
+          try {
+            await ctx.services
+              .use("jsonldLoader")
+              .register(req.body.url, req.body.document);
+            res.status(201).json({ url: req.body.url });
+          } catch (error) {
+            console.error(error);
+            res.status(500).json({
+              error: `Failed to register context: ${errorMessage(error)}`,
+            });
+          }
+        },
+      ),
+    );
+  },
+});
@@ -0,0 +1,333 @@
+import { defineDkgPlugin } from "@dkg/plugins";
+import { z, openAPIRoute } from "@dkg/plugin-swagger";
+import { getExplorerUrl } from "../utils";
+import { validateSparqlQuery } from "../sparql";
+
+const accessPolicySchema = z.enum(["open", "permissioned"]).optional();
+const paranetSchema = {
+  ual: z
+    .string()
+    .describe("UAL of the published Knowledge Asset describing the paranet"),
+  name: z.string().min(1).describe("Name of the paranet"),
+  description: z.string().optional().describe("Description of the paranet"),
+  submissionPolicy: z
+    .enum(["open", "staging"])
+    .optional()
+    .describe(
+      "'open' to add submitted Knowledge Collections directly, " +
+        "'staging' to have them reviewed by curators (default: 'open')",
+    ),
+  nodesAccessPolicy: accessPolicySchema.describe(
+    "Which nodes can host the paranet (default: 'open')",
+  ),
+  minersAccessPolicy: accessPolicySchema.describe(
+    "Who can mine Knowledge Assets for the paranet (default: 'open')",
+  ),
+};
+const submissionSchema = {
+  ual: z.string().describe("UAL of the Knowledge Collection"),
+  paranetUAL: z.string().describe("UAL of the paranet"),
+  staging: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe("Stage the Knowledge Collection for review by the curators"),
+};
+const reviewSchema = {
+  ual: z.string().describe("UAL of the staged Knowledge Collection"),
+  paranetUAL: z.string().describe("UAL of the paranet"),
+  accepted: z.boolean().describe("Whether to add it to the paranet"),
+};
+// Coerced, since it is also used for query strings
+const limitSchema = z.coerce
+  .number()
+  .int()
+  .min(1)
+  .max(1000)
+  .optional()
+  .default(100)
+  .describe("Maximum number of Knowledge Collections to return");
+
+const errorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : String(error);
+
+export default defineDkgPlugin({
+  registerMcp(ctx, mcp) {
+    const dkgParanets = ctx.services.use("dkgParanets");
+
+    mcp.registerTool(
+      "dkg-paranet-create",
+      {
+        title: "DKG paranet create tool",
+        description:
+          "A tool for creating a paranet, a curated sub-network of the OriginTrail Decentralized Knowledge Graph (DKG) for a topic. " +
+          "The paranet is described by an already published Knowledge Asset, whose UAL becomes the UAL of the paranet.",
+        inputSchema: paranetSchema,
+        // Registering is paid by the node's wallet
+        scopes: ["dkg:publish"],
+      },
+      async ({ ual, ...options }) => {
+        await dkgParanets.create(ual, options);
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Paranet "${options.name}" successfully created.\n\nParanet UAL: ${ual}\nDKG Explorer link: ${getExplorerUrl(ual)}`,
+            },
+          ],
+        };
+      },
+    );
+
+    mcp.registerTool(
+      "dkg-paranet-submit",
+      {
+        title: "DKG paranet submit tool",
+        description:
+          "A tool for adding a Knowledge Collection to a paranet, taking the UALs of the Knowledge Collection and of the paranet as input. " +
+          "For paranets whose Knowledge Collections are reviewed by curators, set staging to true.",
+        inputSchema: submissionSchema,
+        scopes: ["dkg:publish"],
+      },
+      async ({ ual, paranetUAL, staging }) => {
+        await dkgParanets.submit(ual, paranetUAL, { staging });
+        return {
+          content: [
+            {
+              type: "text",
+              text: staging
+                ? `Knowledge Collection ${ual} staged for review in paranet ${paranetUAL}.`
+                : `Knowledge Collection ${ual} added to paranet ${paranetUAL}.`,
+            },
+          ],
+        };
+      },
+    );
+
+    mcp.registerTool(
+      "dkg-paranet-review",
+      {
+        title: "DKG paranet review tool",
+        description:
+          "A tool for curators of a paranet to accept or reject a Knowledge Collection staged for review.",
+        inputSchema: reviewSchema,
+        scopes: ["dkg:publish"],
+      },
+      async ({ ual, paranetUAL, accepted }) => {
+        await dkgParanets.review(ual, paranetUAL, accepted);
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Knowledge Collection ${ual} ${accepted ? "accepted to" : "rejected from"} paranet ${paranetUAL}.`,
+            },
+          ],
+        };
+      },
+    );
+
+    mcp.registerTool(
+      "dkg-paranet-collections",
+      {
+        title: "DKG paranet collections tool",
+        description:
+          "A tool for listing the Knowledge Collections of a paranet, taking the UAL of the paranet as input. " +
+          "To query the paranet, use the SPARQL query tool with the paranet UAL.",
+        inputSchema: { paranetUAL: z.string(), limit: limitSchema },
+      },
+      async ({ paranetUAL, limit }) => {
+        const collections = await dkgParanets.listCollections(
+          paranetUAL,
+          limit,
+        );
+        return {
+          content: [
+            {
+              type: "text",
+              text: collections.length
+                ? collections
+                    .map((ual) => `- [${ual}](${getExplorerUrl(ual)})`)
+                    .join("\n")
+                : "No Knowledge Collections found in the paranet.",
+            },
+          ],
+        };
+      },
+    );
+  },
+
+  registerApi(ctx, api) {
+    // The services are resolved on every request,
+    // since they are provided after the routes are registered
+    const dkgParanets = () => ctx.services.use("dkgParanets");
+    const dkgAssets = () => ctx.services.use("dkgAssets");
+
+    api.post(
+      "/paranet",
+      openAPIRoute(
+        {
+          summary: "Create paranet",
+          description:
+            "Register a paranet, described by an already published Knowledge Asset. " +
+            "The UAL of the paranet is the UAL of that Knowledge Asset.",
+          tag: "Paranets",
+          body: z.object(paranetSchema),
+          response: {
+            schema: z.object({ paranetUAL: z.string() }),
+          },
+        },
+        async (req, res) => {
+          const { ual, ...options } = req.body;
+          try {
+            await dkgParanets().create(ual, options);
+            res.status(201).json({ paranetUAL: ual });
+          } catch (error) {
+            console.error(error);
+            res.status(500).json({
+              error: `Failed to create paranet: ${errorMessage(error)}`,
+            });
+          }
+        },
+      ),
+    );
+
+    api.get(
+      "/paranet/collections",
+      openAPIRoute(
+        {
+          summary: "List paranet Knowledge Collections",
+          description:
+            "List the UALs of the Knowledge Collections of a paranet",
+          tag: "Paranets",
+          query: z.object({
+            paranetUAL: z
+              .string()
+              .openapi({ description: "UAL of the paranet" }),
+            limit: limitSchema,
+          }),
+          response: {
+            schema: z.object({ collections: z.array(z.string()) }),
+          },
+        },
+        async (req, res) => {
+          try {
+            const collections = await dkgParanets().listCollections(
+              req.query.paranetUAL,
+              req.query.limit,
+            );
+            res.json({ collections });
+          } catch (error) {
+            console.error(error);
+            res.status(500).json({
+              error: `Failed to list Knowledge Collections: ${errorMessage(error)}`,
+            });
+          }
+        },
+      ),
+    );
+
+    api.post(
+      "/paranet/collections",
+      openAPIRoute(
+        {
+          summary: "Submit Knowledge Collection to paranet",
+          description:
+            "Add a Knowledge Collection to a paranet, or stage it " +
+            "for review by the curators with `staging: true`",
+          tag: "Paranets",
+          body: z.object(submissionSchema),
+          response: {
+            schema: z.object({
+              ual: z.string(),
+              paranetUAL: z.string(),
+              staged: z.boolean(),
+            }),
+          },
+        },
+        async (req, res) => {
+          const { ual, paranetUAL, staging } = req.body;
+          try {
+            await dkgParanets().submit(ual, paranetUAL, { staging });
+            res.json({ ual, paranetUAL, staged: staging });
+          } catch (error) {
+            console.error(error);
+            res.status(500).json({
+              error: `Failed to submit Knowledge Collection: ${errorMessage(error)}`,
+            });
+          }
+        },
+      ),
+    );
+
+    api.post(
+      "/paranet/collections/review",
+      openAPIRoute(
+        {
+          summary: "Review staged Knowledge Collection",
+          description:
+            "Accept or reject a Knowledge Collection staged for review, as a curator of the paranet",
+          tag: "Paranets",
+          body: z.object(reviewSchema),
+          response: {
+            schema: z.object({
+              ual: z.string(),
+              paranetUAL: z.string(),
+              accepted: z.boolean(),
+            }),
+          },
+        },
+        async (req, res) => {
+          const { ual, paranetUAL, accepted } = req.body;
+          try {
+            await dkgParanets().review(ual, paranetUAL, accepted);
+            res.json({ ual, paranetUAL, accepted });
+          } catch (error) {
+            console.error(error);
+            res.status(500).json({
+              error: `Failed to review Knowledge Collection: ${errorMessage(error)}`,
+            });
+          }
+        },
+      ),
+    );
+
+    api.post(
+      "/paranet/query",
+      openAPIRoute(
+        {
+          summary: "Query paranet",
+          description:
+            "Run a SELECT, CONSTRUCT, ASK or DESCRIBE SPARQL query " +
+            "on the Knowledge Assets of a paranet",
+          tag: "Paranets",
+          body: z.object({
+            paranetUAL: z.string(),
+            query: z.string().min(1),
+          }),
+          response: {
+            schema: z.object({
+              type: z.enum(["SELECT", "CONSTRUCT", "ASK", "DESCRIBE"]),
+              rows: z.array(z.record(z.string())).optional(),
+              answer: z.boolean().optional(),
+              nquads: z.string().optional(),
+            }),
+          },
+        },
+        async (req, res) => {
+          const { paranetUAL, query } = req.body;
+          const { valid, error } = validateSparqlQuery(query);
+          if (!valid) return res.status(400).json({ error: error! });
+
+          try {
+            res.json(await dkgAssets().query(query, { paranetUAL }));
+          } catch (error) {
+            console.error(error);
+            res.status(500).json({
+              error: `Failed to query paranet: ${errorMessage(error)}`,
+            });
+          }
+        },
+      ),
+    );
+  },
+});
@@ -0,0 +1,43 @@
+import { defineDkgPlugin } from "@dkg/plugins";
+import { z } from "@dkg/plugins/helpers";
+import { formatValidationResult } from "../dkgValidator";
+
+export default defineDkgPlugin({
+  registerMcp(ctx, mcp) {
+    const dkgAssets = ctx.services.use("dkgAssets");
+    const dkgValidator = ctx.services.use("dkgValidator");
+
+    mcp.registerTool(
+      "dkg-validate",
+      {
+        title: "DKG JSON-LD validation tool",
+        description:
+          "A tool for checking JSON-LD content before publishing it as a Knowledge Asset on OriginTrail Decentralized Knowledge Graph (DKG), " +
+          "taking either a single JSON-LD string or a single file id as input. " +
+          "The content is expanded and canonicalized, reporting the number of triples and the dropped properties, " +
+          "and optionally validated against SHACL shapes.",
+        inputSchema: {
+          jsonld: z
+            .string()
+            .describe("JSON-LD content or ID of an uploaded file"),
+          shapes: z
+            .array(z.string())
+            .optional()
+            .describe(
+              "IDs of uploaded files with SHACL shapes in Turtle, to validate the content against",
+            ),
+        },
+      },
+      async ({ jsonld, shapes }, { authInfo }) => {
+        const content = await dkgAssets.resolveContent(jsonld, authInfo);
+        const result = await dkgValidator.validate(content, {
+          shapes,
+          auth: authInfo,
+        });
+        return {
+          content: [{ type: "text", text: formatValidationResult(result) }],
+        };
+      },
+    );
+  },
+});
@@ -0,0 +1,105 @@
+import { z } from "@dkg/plugins/helpers";
+import { networkInputSchema } from "./networks";
+
+export type PublishOptions = {
+  /** Number of epochs the Knowledge Asset is stored for */
+  epochs?: number;
+  /** Finalization confirmations of the nodes to wait for, 0 to not wait */
+  finalizationConfirmations?: number;
+  /** Minimum number of nodes the Knowledge Asset is replicated to */
+  replications?: number;
+  /** Whether the Knowledge Asset cannot be updated after it is published */
+  immutable?: boolean;
+  /**
+   * Maximum TRAC bid, in wei. Publishing fails without spending anything
+   * if the estimated bid exceeds it.
+   */
+  maxTokenAmount?: string;
+  /** UAL of a paranet to submit the Knowledge Asset to, once it is published */
+  paranetUAL?: string;
+  /** Name of the network to publish on, instead of the default one */
+  network?: string;
+};
+
+/** Options that can be configured for the node */
+export type PublishDefaults = Omit<PublishOptions, "paranetUAL" | "network">;
+
+export const DEFAULT_PUBLISH_OPTIONS = {
+  epochs: 2,
+  finalizationConfirmations: 3,
+  replications: 1,
+  immutable: false,
+} satisfies PublishDefaults;
+
+/** Inclusive ranges of the numeric options */
+export const PUBLISH_OPTION_RANGES = {
+  epochs: { min: 1, max: 100 },
+  finalizationConfirmations: { min: 0, max: 20 },
+  replications: { min: 1, max: 20 },
+};
+
+const TOKEN_AMOUNT = /^\d+$/;
+
+/**
+ * Input schema of the publish options for tools, i.e. `dkg-create`.
+ * Options that are not given default to the node's configuration.
+ */
+export const publishOptionsInputSchema = {
+  epochs: z
+    .number()
+    .int()
+    .min(PUBLISH_OPTION_RANGES.epochs.min)
+    .max(PUBLISH_OPTION_RANGES.epochs.max)
+    .optional()
+    .describe("Number of epochs to store the Knowledge Asset for"),
+  finalizationConfirmations: z
+    .number()
+    .int()
+    .min(PUBLISH_OPTION_RANGES.finalizationConfirmations.min)
+    .max(PUBLISH_OPTION_RANGES.finalizationConfirmations.max)
+    .optional()
+    .describe("Finalization confirmations to wait for, 0 to not wait"),
+  replications: z
+    .number()
+    .int()
+    .min(PUBLISH_OPTION_RANGES.replications.min)
+    .max(PUBLISH_OPTION_RANGES.replications.max)
+    .optional()
+    .describe("Minimum number of nodes to replicate the Knowledge Asset to"),
+  immutable: z
+    .boolean()
+    .optional()
+    .describe("Whether the Knowledge Asset cannot be updated later"),
+  maxTokenAmount: z
+    .string()
+    .regex(TOKEN_AMOUNT, "Must be an amount in wei")
+    .optional()
+    .describe(
+      "Maximum TRAC to spend, in wei (1 TRAC = 10^18 wei). Nothing is published if the estimate exceeds it",
+    ),
+  paranetUAL: z
+    .string()
+    .optional()
+    .describe("UAL of a paranet to submit the Knowledge Asset to"),
+  network: networkInputSchema,
+};
+
+/**
+ * @throws {Error} If a numeric option is out of its range
+ * or the maximum token amount is not in wei.
+ */
+export const validatePublishOptions = (options: PublishOptions) => {
+  for (const [key, { min, max }] of Object.entries(PUBLISH_OPTION_RANGES)) {
+    const value = options[key as keyof typeof PUBLISH_OPTION_RANGES];
+    if (
+      value !== undefined &&
+      (!Number.isInteger(value) || value < min || value > max)
+    )
+      throw new Error(`${key} must be an integer from ${min} to ${max}`);
+  }
+  if (
+    options.maxTokenAmount !== undefined &&
+    !TOKEN_AMOUNT.test(options.maxTokenAmount)
+  )
+    throw new Error("maxTokenAmount must be an amount in wei");
+};
@@ -0,0 +1,182 @@
+import { createHash } from "crypto";
+import type { DkgContext } from "@dkg/plugins";
+import type { AssetNQuads } from "@dkg/jsonld-loader";
+// @ts-expect-error assertion-tools
+import { kaTools, kcTools } from "assertion-tools";
+
+export type PublishingCostEstimate = {
+  /** Number of Knowledge Assets, i.e. distinct subjects */
+  knowledgeAssets: number;
+  /** Public triples, including the ones representing the private content */
+  triples: number;
+  /** Size of the public assertion paid for, in whole 32 byte chunks */
+  sizeInBytes: number;
+  epochs: number;
+  /** Estimated TRAC bid, in wei */
+  tokenAmount: string;
+  /** Estimated native gas of the transactions, with the price and cost in wei */
+  gas: { price: string; limit: number; cost: string };
+  /** Balances of the publishing wallet, in wei, if it was checked */
+  wallet?: { trac: string; native: string; sufficient: boolean };
+};
+
+// Not exported by dkg.js
+const CHUNK_BYTE_SIZE = 32;
+const MAX_ASSERTION_SIZE = 10_000_000;
+const PRIVATE_ASSERTION_PREDICATE =
+  "https://ontology.origintrail.io/dkg/1.0#privateMerkleRoot";
+const PRIVATE_RESOURCE_PREDICATE =
+  "https://ontology.origintrail.io/dkg/1.0#representsPrivateResource";
+const PRIVATE_HASH_SUBJECT_PREFIX =
+  "https://ontology.origintrail.io/dkg/1.0#metadata-hash:";
+
+/**
+ * Gas assumed for the transactions, since creating the Knowledge Collection
+ * can only be estimated with the signatures of the nodes storing it
+ */
+const GAS_LIMITS = {
+  createKnowledgeCollection: 1_500_000,
+  increaseAllowance: 60_000,
+};
+
+const toLines = (nquads: string) =>
+  nquads
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean);
+
+const subjectOf = (quad: string) => quad.split(" ")[0]!;
+
+/**
+ * Public assertion that dkg.js publishes for the N-Quads, with the triples
+ * representing the private content. These are appended instead of sorted in,
+ * which does not change its size, and the generated IDs are random.
+ */
+const toPublicAssertion = (nquads: AssetNQuads): string[] => {
+  const publicQuads: string[] = kcTools.generateMissingIdsForBlankNodes(
+    toLines(nquads.public),
+  );
+  const privateGroups: string[][] = nquads.private
+    ? kcTools.groupNquadsBySubject(
+        kcTools.generateMissingIdsForBlankNodes(toLines(nquads.private)),
+        true,
+      )
+    : [];
+  if (privateGroups.length) {
+    const privateRoot = kcTools.calculateMerkleRoot(privateGroups.flat());
+    publicQuads.push(
+      `<${kaTools.generateNamedNode()}> <${PRIVATE_ASSERTION_PREDICATE}> "${privateRoot}" .`,
+    );
+  }
+  const assertion: string[] = kcTools
+    .groupNquadsBySubject(publicQuads, true)
+    .flat();
+  const publicSubjects = new Set(assertion.map(subjectOf));
+
+  return [
+    ...assertion,
+    ...privateGroups.map(([quad]) => {
+      const subject = subjectOf(quad!);
+      const representative = publicSubjects.has(subject)
+        ? subject
+        : `<${PRIVATE_HASH_SUBJECT_PREFIX}0x${createHash("sha256")
+            .update(subject.slice(1, -1))
+            .digest("hex")}>`;
+      return `${representative} <${PRIVATE_RESOURCE_PREDICATE}> <${kaTools.generateNamedNode()}> .`;
+    }),
+  ];
+};
+
+/**
+ * Estimates the cost of publishing the N-Quads for a number of epochs,
+ * the same way dkg.js computes the TRAC bid, without submitting them.
+ * With `checkWallet`, the balances and the allowance of the client's wallet
+ * are checked, otherwise the allowance is assumed to be increased.
+ *
+ * @throws {Error} If the assertion is too large or the blockchain fails.
+ */
+export const estimatePublishingCost = async (
+  dkg: DkgContext["dkg"],
+  nquads: AssetNQuads,
+  { epochs, checkWallet = false }: { epochs: number; checkWallet?: boolean },
+): Promise<PublishingCostEstimate> => {
+  const assertion = toPublicAssertion(nquads);
+  const sizeInBytes =
+    kcTools.calculateNumberOfChunks(assertion, CHUNK_BYTE_SIZE) *
+    CHUNK_BYTE_SIZE;
+  if (sizeInBytes > MAX_ASSERTION_SIZE)
+    throw new Error(
+      `Assertion size of ${sizeInBytes} bytes exceeds the limit of ${MAX_ASSERTION_SIZE} bytes`,
+    );
+
+  // The ask is only exposed by the blockchain service of dkg.js
+  const blockchain = dkg.asset.inputService.getBlockchain({});
+  const ask =
+    await dkg.asset.blockchainService.getStakeWeightedAverageAsk(blockchain);
+  const tokenAmount =
+    (BigInt(ask) * BigInt(epochs) * BigInt(sizeInBytes)) / 1024n;
+
+  const allowance = checkWallet
+    ? BigInt(await dkg.asset.getCurrentAllowance())
+    : 0n;
+  const gasLimit =
+    GAS_LIMITS.createKnowledgeCollection +
+    (allowance < tokenAmount ? GAS_LIMITS.increaseAllowance : 0);
+  const gasPrice = BigInt(await dkg.blockchain.getGasPrice());
+  const gasCost = gasPrice * BigInt(gasLimit);
+
+  const estimate: PublishingCostEstimate = {
+    knowledgeAssets: kcTools.countDistinctSubjects(assertion),
+    triples: assertion.length,
+    sizeInBytes,
+    epochs,
+    tokenAmount: tokenAmount.toString(),
+    gas: {
+      price: gasPrice.toString(),
+      limit: gasLimit,
+      cost: gasCost.toString(),
+    },
+  };
+  if (!checkWallet) return estimate;
+
+  const balances = await dkg.blockchain.getWalletBalances();
+  const trac = BigInt(balances.trac);
+  const native = BigInt(balances.blockchainToken);
+  return {
+    ...estimate,
+    wallet: {
+      trac: trac.toString(),
+      native: native.toString(),
+      sufficient: trac >= tokenAmount && native >= gasCost,
+    },
+  };
+};
+
+/** Amount in wei as a decimal number of tokens */
+const formatWei = (wei: string) => {
+  const amount = BigInt(wei);
+  const unit = 10n ** 18n;
+  const fraction = (amount % unit).toString().padStart(18, "0");
+  return `${amount / unit}.${fraction}`.replace(/\.?0+$/, "");
+};
+
+/** Human readable summary of the estimate, i.e. for the tools */
+export const formatPublishingCost = (estimate: PublishingCostEstimate) =>
+  [
+    `Knowledge Assets: ${estimate.knowledgeAssets}`,
+    `Public triples: ${estimate.triples}`,
+    `Size: ${estimate.sizeInBytes} bytes`,
+    `Epochs: ${estimate.epochs}`,
+    `Estimated TRAC: ${formatWei(estimate.tokenAmount)}`,
+    `Estimated gas: ${formatWei(estimate.gas.cost)} in the native token ` +
+      `(${estimate.gas.limit} gas at ${estimate.gas.price} wei)`,
+    ...(estimate.wallet
+      ? [
+          `Wallet balance: ${formatWei(estimate.wallet.trac)} TRAC, ` +
+            `${formatWei(estimate.wallet.native)} in the native token`,
+          estimate.wallet.sufficient
+            ? "The wallet can pay for publishing."
+            : "The wallet cannot pay for publishing.",
+        ]
+      : []),
+  ].join("\n");
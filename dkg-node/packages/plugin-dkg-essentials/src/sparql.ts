@@ -0,0 +1,226 @@
+import { Generator, Parser, Wildcard, type SparqlQuery } from "sparqljs";
+import type { SourceKA } from "./utils";
+
+export type SparqlQueryType = "SELECT" | "CONSTRUCT" | "ASK" | "DESCRIBE";
+
+export type SparqlQueryResult =
+  | { type: "SELECT"; rows: Record<string, string>[] }
+  | { type: "ASK"; answer: boolean }
+  | { type: "CONSTRUCT" | "DESCRIBE"; nquads: string };
+
+const UAL = /did:dkg:[^\s<>"'|]+/g;
+
+export type SparqlValidationResult = {
+  valid: boolean;
+  queryType?: SparqlQueryType;
+  error?: string;
+  /** Position of the syntax error, starting from 1 */
+  line?: number;
+  column?: number;
+};
+
+/** Details of the syntax errors thrown by the generated SPARQL parser */
+type SparqlParseError = Error & {
+  hash?: {
+    text?: string;
+    token?: string;
+    /** Location of the last token before the error */
+    loc?: { last_line: number; last_column: number };
+  };
+};
+
+/** Whitespace and comments, which the parser skips between tokens */
+const SEPARATORS = /(?:\s|#[^\n]*)*/y;
+
+/** Line and column of the first token after the given location */
+const nextTokenPosition = (
+  query: string,
+  { last_line, last_column }: { last_line: number; last_column: number },
+) => {
+  const lines = query.split("\n");
+  SEPARATORS.lastIndex =
+    lines
+      .slice(0, last_line - 1)
+      .reduce((offset, line) => offset + line.length + 1, 0) + last_column;
+  SEPARATORS.exec(query);
+
+  const before = query.slice(0, SEPARATORS.lastIndex).split("\n");
+  return { line: before.length, column: before.at(-1)!.length + 1 };
+};
+
+const parse = (query: string): SparqlQuery => new Parser().parse(query);
+
+/**
+ * Validate SPARQL 1.1 query syntax and detect its type.
+ * Updates are rejected, since queries are only run on read endpoints.
+ */
+export const validateSparqlQuery = (query: string): SparqlValidationResult => {
+  if (!query.trim()) {
+    return { valid: false, error: "Query cannot be empty" };
+  }
+
+  let parsed: SparqlQuery;
+  try {
+    parsed = parse(query);
+  } catch (error) {
+    const { hash, message } = error as SparqlParseError;
+    if (!hash?.loc) {
+      return { valid: false, error: message };
+    }
+
+    const { line, column } = nextTokenPosition(query, hash.loc);
+    const token = hash.token === "INVALID" ? hash.text : hash.token;
+    return {
+      valid: false,
+      error: token
+        ? `Unexpected '${token}' at line ${line}, column ${column}`
+        : `Syntax error at line ${line}, column ${column}`,
+      line,
+      column,
+    };
+  }
+
+  if (parsed.type === "update") {
+    return {
+      valid: false,
+      error: "SPARQL Update operations are not allowed on read endpoints",
+    };
+  }
+
+  return { valid: true, queryType: parsed.queryType };
+};
+
+/**
+ * The DKG only runs SELECT and CONSTRUCT queries, so ASK queries are
+ * rewritten to select a single row, and DESCRIBE queries run as graph queries.
+ */
+export const toDkgQuery = (
+  query: string,
+  queryType: SparqlQueryType,
+): { query: string; queryType: "SELECT" | "CONSTRUCT" } => {
+  if (queryType === "DESCRIBE") return { query, queryType: "CONSTRUCT" };
+  if (queryType !== "ASK") return { query, queryType };
+
+  const parsed = parse(query);
+  return {
+    query: new Generator().stringify(
+      Object.assign(parsed, {
+        queryType: "SELECT",
+        variables: [new Wildcard()],
+        limit: 1,
+      }),
+    ),
+    queryType: "SELECT",
+  };
+};
+
+/** Values are either plain strings or RDF/JS-like terms */
+const toText = (value: unknown) =>
+  typeof value === "object" && value !== null && "value" in value
+    ? String(value.value)
+    : String(value);
+
+export const toSparqlQueryResult = (
+  type: SparqlQueryType,
+  data: unknown,
+): SparqlQueryResult => {
+  if (type === "CONSTRUCT" || type === "DESCRIBE")
+    return {
+      type,
+      nquads: Array.isArray(data) ? data.join("\n") : String(data ?? ""),
+    };
+
+  const rows = (Array.isArray(data) ? data : []).map((row) =>
+    Object.fromEntries(
+      Object.entries(row as Record<string, unknown>).map(([name, value]) => [
+        name,
+        toText(value),
+      ]),
+    ),
+  );
+  return type === "ASK"
+    ? { type, answer: rows.length > 0 }
+    : { type: "SELECT", rows };
+};
+
+const escapeCell = (value: string) =>
+  value.replaceAll("|", "\\|").replaceAll(/\r?\n/g, " ");
+
+const truncationNote = (shown: number, total: number, unit: string) =>
+  shown < total ? `\n\nShowing the first ${shown} of ${total} ${unit}.` : "";
+
+/**
+ * Compact text for LLMs: SELECT results as a Markdown table and
+ * graphs as N-Quads, of up to `limit` rows or quads.
+ */
+export const formatSparqlQueryResult = (
+  result: SparqlQueryResult,
+  limit: number,
+) => {
+  if (result.type === "ASK") return `ASK result: ${result.answer}`;
+
+  if (result.type === "SELECT") {
+    if (!result.rows.length) return "No results.";
+
+    const rows = result.rows.slice(0, limit);
+    const columns = [...new Set(rows.flatMap((row) => Object.keys(row)))];
+    return (
+      [
+        `| ${columns.join(" | ")} |`,
+        `| ${columns.map(() => "---").join(" | ")} |`,
+        ...rows.map(
+          (row) =>
+            `| ${columns.map((c) => escapeCell(row[c] ?? "")).join(" | ")} |`,
+        ),
+      ].join("\n") + truncationNote(rows.length, result.rows.length, "rows")
+    );
+  }
+
+  const quads = result.nquads.split("\n").filter((line) => line.trim());
+  if (!quads.length) return "No results.";
+  return (
+    quads.slice(0, limit).join("\n") +
+    truncationNote(Math.min(limit, quads.length), quads.length, "quads")
+  );
+};
+
+/** Literal value without its quotes, language tag or datatype */
+const toLabel = (value: string) =>
+  value.match(/^"(.*)"(?:@[\w-]+|\^\^.*)?$/s)?.[1];
+
+/**
+ * Knowledge Assets whose UALs appear in the first `limit` rows or quads,
+ * i.e. as values or as named graphs. The first literal of the row
+ * with the UAL is used as the title.
+ */
+export const getSourceKnowledgeAssets = (
+  result: SparqlQueryResult,
+  limit: number,
+): SourceKA[] => {
+  if (result.type === "ASK") return [];
+
+  const lines =
+    result.type === "SELECT"
+      ? result.rows.slice(0, limit).map((row) => Object.values(row))
+      : result.nquads
+          .split("\n")
+          .slice(0, limit)
+          .map((quad) => [quad]);
+
+  const kas = new Map<string, SourceKA>();
+  for (const values of lines) {
+    const label = values.map(toLabel).find((label) => label);
+    for (const value of values)
+      for (const [match] of value.matchAll(UAL)) {
+        // Named graphs of the public and private assertions
+        const ual = match.replace(/\/(public|private)$/, "");
+        if (kas.has(ual)) continue;
+        kas.set(ual, {
+          title: label ?? "Knowledge Asset",
+          issuer: ual.split("/")[0]!.substring("did:dkg:".length),
+          ual,
+        });
+      }
+  }
+  return [...kas.values()];
+};
@@ -1,4 +1,11 @@
 import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+// Not from the index, since the utils are also used by the app
+import {
+  DKG_NETWORK_PRESETS,
+  getNetworkPreset,
+  getUalBlockchain,
+  type DkgNetwork,
+} from "@dkg/plugins/networks";
 
 export type SourceKA = {
   title: string;
@@ -6,12 +13,29 @@ export type SourceKA = {
   ual: string;
 };
 
-const DKG_EXPLORER_BASE_URL = "https://dkg-testnet.origintrail.io/explore?ual=";
+const DKG_EXPLORER_BASE_URL = DKG_NETWORK_PRESETS.testnet.explorerUrl;
 
-export const getExplorerUrl = (ual: string) => {
-  return `${DKG_EXPLORER_BASE_URL}${ual}`;
+/**
+ * Link to the UAL on the explorer of the network if it has one,
+ * otherwise on the explorer of the blockchain of the UAL.
+ * Falls back to the testnet explorer, i.e. for local networks.
+ */
+export const getExplorerUrl = (ual: string, network?: DkgNetwork) => {
+  const blockchain = getUalBlockchain(ual) ?? network?.profile?.blockchain;
+  const preset = blockchain && getNetworkPreset(blockchain);
+  const baseUrl =
+    network?.profile?.explorerUrl ??
+    (preset && DKG_NETWORK_PRESETS[preset].explorerUrl) ??
+    DKG_EXPLORER_BASE_URL;
+  return `${baseUrl}${ual}`;
 };
 
+/** Expiration date of a blob that should be deleted after `ttl` seconds */
+export const getExpiresAt = (ttl?: number) =>
+  ttl === undefined
+    ? undefined
+    : new Date(Date.now() + ttl * 1000).toISOString();
+
 export const serializeSourceKAContent = (
   kas: SourceKA[],
 ): CallToolResult["content"][number] => ({
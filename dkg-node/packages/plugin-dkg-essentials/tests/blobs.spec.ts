@@ -3,7 +3,15 @@
 import { describe, it, beforeEach, afterEach } from "mocha";
 import { expect } from "chai";
 import sinon from "sinon";
+import { createHash } from "crypto";
+import fs from "fs";
+import consumers from "stream/consumers";
+import os from "os";
+import path from "path";
 import blobsPlugin from "../dist/plugins/blobs.js";
+import { createDkgAssets } from "../dist/dkgAssets.js";
+import createFsBlobStorage from "../dist/createFsBlobStorage.js";
+import { BlobQuotaExceededError } from "@dkg/plugins/helpers";
 import {
   createExpressApp,
   createInMemoryBlobStorage,
@@ -21,6 +29,14 @@ const mockDkgContext = {
   blob: createInMemoryBlobStorage(),
 };
 
+// Blobs are only accessible to authenticated users
+const mockAuth = {
+  token: "token",
+  clientId: "client",
+  scopes: [],
+  extra: { userId: "user" },
+};
+
 describe("@dkg/plugin-dkg-essentials blobs checks", () => {
   let mockMcpServer: McpServer;
   let mockMcpClient: Client;
@@ -28,13 +44,18 @@ describe("@dkg/plugin-dkg-essentials blobs checks", () => {
   let app: express.Application;
 
   beforeEach(async () => {
-    const { server, client, connect } = await createMcpServerClientPair();
+    const { server, client, connect } =
+      await createMcpServerClientPair(mockAuth);
     mockMcpServer = server;
     mockMcpClient = client;
     apiRouter = express.Router();
 
     // Setup Express app
     app = createExpressApp();
+    app.use((req, _res, next) => {
+      (req as any).auth = mockAuth;
+      next();
+    });
 
     // Initialize plugin
     blobsPlugin(mockDkgContext, mockMcpServer, apiRouter);
@@ -51,10 +72,15 @@ describe("@dkg/plugin-dkg-essentials blobs checks", () => {
       expect(tools.some((t) => t.name === "upload")).to.equal(true);
     });
 
-    it("should register exactly 1 tool", async () => {
+    it("should register the upload tool and the chunked upload tools", async () => {
       const tools = await mockMcpClient.listTools().then((t) => t.tools);
 
-      expect(tools.length).to.equal(1);
+      expect(tools.map((t) => t.name)).to.deep.equal([
+        "upload",
+        "upload_init",
+        "upload_chunk",
+        "upload_complete",
+      ]);
     });
 
     it("should have correct upload tool configuration", async () => {
@@ -1391,4 +1417,854 @@ describe("@dkg/plugin-dkg-essentials blobs checks", () => {
       });
     });
   });
+
+  describe("Blob Listing", () => {
+    let listClient: Client;
+    let listApp: express.Application;
+    let userId: string | undefined;
+    // Scopes of a token without a user, i.e. created with a script
+    let userlessScopes: string[] | undefined;
+
+    const upload = (name: string, user?: string) => {
+      userId = user;
+      return request(listApp)
+        .post("/blob")
+        .attach("file", Buffer.from(name), name)
+        .expect(201)
+        .then((r) => r.body.id as string);
+    };
+
+    beforeEach(async () => {
+      const { server, client, connect } = await createMcpServerClientPair();
+      const router = express.Router();
+      // Simulates the bearer auth middleware
+      router.use((req, _res, next) => {
+        if (userlessScopes)
+          (req as any).auth = { scopes: userlessScopes, extra: {} };
+        else if (userId) (req as any).auth = { scopes: [], extra: { userId } };
+        next();
+      });
+      blobsPlugin(
+        { ...mockDkgContext, blob: createInMemoryBlobStorage() },
+        server,
+        router,
+      );
+      await connect();
+      listClient = client;
+      listApp = createExpressApp();
+      listApp.use("/", router);
+      userId = undefined;
+      userlessScopes = undefined;
+    });
+
+    it("should list only the blobs of the calling user", async () => {
+      const own = await upload("own.txt", "1");
+      await upload("other.txt", "2");
+
+      userId = "1";
+      const response = await request(listApp).get("/blob").expect(200);
+
+      expect(response.body.blobs.map((b: any) => b.id)).to.deep.equal([own]);
+      expect(response.body.blobs[0]).to.include({
+        name: "own.txt",
+        mimeType: "text/plain",
+        owner: "1",
+      });
+      expect(response.body).to.not.have.property("cursor");
+    });
+
+    it("should paginate with a cursor", async () => {
+      const ids = [];
+      for (const name of ["a.txt", "b.txt", "c.txt"])
+        ids.push(await upload(name, "1"));
+      ids.sort();
+
+      userId = "1";
+      const first = await request(listApp).get("/blob?limit=2").expect(200);
+      const second = await request(listApp)
+        .get("/blob")
+        .query({ limit: 2, cursor: first.body.cursor })
+        .expect(200);
+
+      expect(first.body.blobs.map((b: any) => b.id)).to.deep.equal(
+        ids.slice(0, 2),
+      );
+      expect(first.body.cursor).to.equal(ids[1]);
+      expect(second.body.blobs.map((b: any) => b.id)).to.deep.equal([ids[2]]);
+      expect(second.body).to.not.have.property("cursor");
+    });
+
+    it("should filter by MIME type", async () => {
+      await upload("text.txt", "1");
+      const image = await upload("image.png", "1");
+
+      userId = "1";
+      const exact = await request(listApp)
+        .get("/blob?mimeType=image/png")
+        .expect(200);
+      const wildcard = await request(listApp)
+        .get("/blob?mimeType=image/*")
+        .expect(200);
+
+      expect(exact.body.blobs.map((b: any) => b.id)).to.deep.equal([image]);
+      expect(wildcard.body.blobs.map((b: any) => b.id)).to.deep.equal([image]);
+    });
+
+    it("should list blobs for tokens without a user only to admins", async () => {
+      const own = await upload("own.txt", "1");
+      const other = await upload("other.txt", "2");
+
+      userlessScopes = ["blob"];
+      const user = await request(listApp).get("/blob").expect(200);
+      const { resources } = await listClient.listResources();
+      userlessScopes = ["blob", "admin"];
+      const admin = await request(listApp).get("/blob").expect(200);
+
+      expect(user.body.blobs).to.deep.equal([]);
+      expect(admin.body.blobs.map((b: any) => b.id)).to.deep.equal(
+        [own, other].sort(),
+      );
+      // Without authentication, as the MCP client is not authenticated
+      expect(resources).to.have.length(2);
+    });
+
+    it("should reject invalid limits", async () => {
+      await request(listApp).get("/blob?limit=0").expect(400);
+    });
+
+    it("should list blobs as MCP resources", async () => {
+      const id = await upload("resource.txt");
+
+      const { resources } = await listClient.listResources();
+
+      expect(resources).to.have.length(1);
+      expect(resources[0]).to.include({
+        uri: `dkg-blob://${id}`,
+        name: "resource.txt",
+        mimeType: "text/plain",
+      });
+    });
+  });
+
+  describe("Access Control", () => {
+    let aclApp: express.Application;
+    let blob: ReturnType<typeof createInMemoryBlobStorage>;
+    let auth: { scopes: string[]; extra: { userId?: string } } | undefined;
+
+    const as = (userId: string, scopes: string[] = []) => {
+      auth = { scopes, extra: { userId } };
+      return request(aclApp);
+    };
+
+    const upload = (userId: string) =>
+      as(userId)
+        .post("/blob")
+        .attach("file", Buffer.from("Private"), "private.txt")
+        .expect(201)
+        .then((r) => r.body.id as string);
+
+    beforeEach(async () => {
+      const { server } = await createMcpServerClientPair();
+      blob = createInMemoryBlobStorage();
+      const router = express.Router();
+      // Simulates the bearer auth middleware
+      router.use((req, _res, next) => {
+        (req as any).auth = auth;
+        next();
+      });
+      blobsPlugin({ ...mockDkgContext, blob }, server, router);
+      aclApp = createExpressApp();
+      aclApp.use("/", router);
+      auth = undefined;
+    });
+
+    it("should record the owner of uploaded blobs", async () => {
+      const id = await upload("1");
+
+      expect((await blob.info(id))?.owner).to.equal("1");
+    });
+
+    it("should allow the owner to read, update and delete a blob", async () => {
+      const id = await upload("1");
+
+      await as("1").get(`/blob/${id}`).expect(200);
+      await as("1")
+        .put(`/blob/${id}`)
+        .attach("file", Buffer.from("Updated"), "private.txt")
+        .expect(200);
+      await as("1").delete(`/blob/${id}`).expect(200);
+    });
+
+    it("should deny other users access to a blob", async () => {
+      const id = await upload("1");
+
+      await as("2").get(`/blob/${id}`).expect(403);
+      await as("2")
+        .put(`/blob/${id}`)
+        .attach("file", Buffer.from("Hacked"), "private.txt")
+        .expect(403);
+      await as("2").delete(`/blob/${id}`).expect(403);
+      expect(await blob.exists(id)).to.equal(true);
+    });
+
+    it("should deny access without authentication", async () => {
+      const id = await upload("1");
+      auth = undefined;
+
+      await request(aclApp).get(`/blob/${id}`).expect(403);
+      await request(aclApp).delete(`/blob/${id}`).expect(403);
+    });
+
+    it("should only allow admins to access blobs without an owner", async () => {
+      auth = { scopes: [], extra: {} };
+      const response = await request(aclApp)
+        .post("/blob")
+        .attach("file", Buffer.from("Ownerless"), "ownerless.txt")
+        .expect(201);
+
+      await request(aclApp).get(`/blob/${response.body.id}`).expect(403);
+      await as("1").get(`/blob/${response.body.id}`).expect(403);
+      await as("2", ["admin"]).get(`/blob/${response.body.id}`).expect(200);
+    });
+
+    it("should allow full access with the admin scope", async () => {
+      const id = await upload("1");
+
+      await as("2", ["admin"]).get(`/blob/${id}`).expect(200);
+      await as("2", ["admin"]).delete(`/blob/${id}`).expect(200);
+    });
+
+    it("should grant read access to shared users", async () => {
+      const id = await upload("1");
+
+      const response = await as("1")
+        .put(`/blob/${id}/shares/2`)
+        .send({ access: "read" })
+        .expect(200);
+
+      expect(response.body.shares).to.deep.equal({ "2": "read" });
+      await as("2").get(`/blob/${id}`).expect(200);
+      await as("2")
+        .put(`/blob/${id}`)
+        .attach("file", Buffer.from("Updated"), "private.txt")
+        .expect(403);
+      await as("3").get(`/blob/${id}`).expect(403);
+    });
+
+    it("should keep owner and shares when a shared user updates a blob", async () => {
+      const id = await upload("1");
+      await as("1")
+        .put(`/blob/${id}/shares/2`)
+        .send({ access: "write" })
+        .expect(200);
+
+      await as("2")
+        .put(`/blob/${id}`)
+        .attach("file", Buffer.from("Updated"), "private.txt")
+        .expect(200);
+      await as("2").delete(`/blob/${id}`).expect(403);
+
+      expect(await blob.info(id)).to.include({ owner: "1" });
+      expect((await blob.info(id))?.shares).to.deep.equal({ "2": "write" });
+    });
+
+    it("should revoke shares", async () => {
+      const id = await upload("1");
+      await as("1")
+        .put(`/blob/${id}/shares/2`)
+        .send({ access: "read" })
+        .expect(200);
+
+      const response = await as("1").delete(`/blob/${id}/shares/2`).expect(200);
+
+      expect(response.body.shares).to.deep.equal({});
+      await as("2").get(`/blob/${id}`).expect(403);
+    });
+
+    it("should only allow the owner to share a blob", async () => {
+      const id = await upload("1");
+
+      await as("2")
+        .put(`/blob/${id}/shares/2`)
+        .send({ access: "write" })
+        .expect(403);
+      await as("2")
+        .put(`/blob/missing/shares/2`)
+        .send({ access: "read" })
+        .expect(404);
+    });
+
+    it("should check access when resolving blob content", async () => {
+      const id = await upload("1");
+      const dkgAssets = createDkgAssets({ ...mockDkgContext, blob });
+
+      expect(
+        await dkgAssets.resolveContent(id, {
+          token: "",
+          clientId: "",
+          scopes: [],
+          extra: { userId: "1" },
+        }),
+      ).to.equal("Private");
+      try {
+        await dkgAssets.resolveContent(id, {
+          token: "",
+          clientId: "",
+          scopes: [],
+          extra: { userId: "2" },
+        });
+        expect.fail("Should have thrown an error");
+      } catch (error) {
+        expect((error as Error).message).to.include("denied");
+      }
+    });
+
+    it("should only resolve blob content without a user for internal callers", async () => {
+      const id = await upload("1");
+      const dkgAssets = createDkgAssets({ ...mockDkgContext, blob });
+
+      expect(await dkgAssets.resolveContent(id, "internal")).to.equal(
+        "Private",
+      );
+      try {
+        await dkgAssets.resolveContent(id, undefined);
+        expect.fail("Should have thrown an error");
+      } catch (error) {
+        expect((error as Error).message).to.include("denied");
+      }
+    });
+  });
+
+  describe("Namespaced Plugin", () => {
+    let namespacedClient: Client;
+
+    beforeEach(async () => {
+      const { server, client, connect } =
+        await createMcpServerClientPair(mockAuth);
+      blobsPlugin.withNamespace("first")(
+        mockDkgContext,
+        server,
+        express.Router(),
+      );
+      blobsPlugin.withNamespace("second")(
+        mockDkgContext,
+        server,
+        express.Router(),
+      );
+      await connect();
+      namespacedClient = client;
+    });
+
+    it("should prefix tool names with the namespace", async () => {
+      const tools = await namespacedClient.listTools().then((t) => t.tools);
+
+      expect(tools.map((t) => t.name)).to.deep.equal(
+        ["first", "second"].flatMap((namespace) =>
+          ["upload", "upload_init", "upload_chunk", "upload_complete"].map(
+            (name) => `${namespace}__${name}`,
+          ),
+        ),
+      );
+    });
+
+    it("should prefix resource URI schemes with the namespace", async () => {
+      const templates = await namespacedClient
+        .listResourceTemplates()
+        .then((r) => r.resourceTemplates);
+
+      expect(templates.map((t) => t.uriTemplate)).to.deep.equal([
+        "first+dkg-blob://{id}",
+        "second+dkg-blob://{id}",
+      ]);
+    });
+
+    it("should read resources through the namespaced URI", async () => {
+      const uploadResult = await namespacedClient.callTool({
+        name: "second__upload",
+        arguments: {
+          filename: "namespaced.txt",
+          fileBase64: Buffer.from("Namespaced content").toString("base64"),
+        },
+      });
+      const blobId = (uploadResult.content as any[])[0].text.match(
+        /ID: (.+)$/,
+      )?.[1];
+
+      const resourceUri = `second+dkg-blob://${blobId}`;
+      const result = await namespacedClient.readResource({
+        uri: resourceUri,
+      });
+
+      expect(result.contents[0].uri).to.equal(resourceUri);
+      expect(result.contents[0].text).to.equal("Namespaced content");
+    });
+  });
+
+  describe("Quotas and Retention", () => {
+    let quotaApp: express.Application;
+    let directory: string;
+    let blob: ReturnType<typeof createFsBlobStorage>;
+    let userId: string;
+
+    beforeEach(async () => {
+      directory = fs.mkdtempSync(path.join(os.tmpdir(), "dkg-blobs-"));
+      blob = createFsBlobStorage(directory, { quota: 10 });
+      const { server } = await createMcpServerClientPair();
+      const router = express.Router();
+      // Simulates the bearer auth middleware
+      router.use((req, _res, next) => {
+        (req as any).auth = { scopes: [], extra: { userId } };
+        next();
+      });
+      blobsPlugin({ ...mockDkgContext, blob }, server, router);
+      quotaApp = createExpressApp();
+      quotaApp.use("/", router);
+      userId = "1";
+    });
+
+    afterEach(() => {
+      fs.rmSync(directory, { recursive: true, force: true });
+      fs.rmSync(`${directory}.metadata`, { recursive: true, force: true });
+    });
+
+    it("should not expose the metadata of other users' blobs", async () => {
+      const response = await request(quotaApp)
+        .post("/blob")
+        .attach("file", Buffer.from("Secret"), "secret.txt")
+        .expect(201);
+      const metadataId = encodeURIComponent(
+        `.metadata/${response.body.id}.json`,
+      );
+      userId = "2";
+
+      await request(quotaApp).get(`/blob/${metadataId}`).expect(400);
+      await request(quotaApp)
+        .put(`/blob/${metadataId}`)
+        .attach("file", Buffer.from('{"owner":"2"}'), "metadata.json")
+        .expect(400);
+      await request(quotaApp)
+        .get(`/blob/${encodeURIComponent("../escaped.txt")}`)
+        .expect(400);
+      await request(quotaApp).get(`/blob/${response.body.id}`).expect(403);
+    });
+
+    it("should reject uploads over the quota with 413", async () => {
+      await request(quotaApp)
+        .post("/blob")
+        .attach("file", Buffer.from("12345678"), "first.txt")
+        .expect(201);
+
+      const response = await request(quotaApp)
+        .post("/blob")
+        .attach("file", Buffer.from("12345"), "second.txt")
+        .expect(413);
+
+      expect(response.body.error).to.include("quota");
+      expect(await blob.usage("1")).to.equal(8);
+    });
+
+    it("should apply the quota to each user separately", async () => {
+      await request(quotaApp)
+        .post("/blob")
+        .attach("file", Buffer.from("12345678"), "first.txt")
+        .expect(201);
+      userId = "2";
+
+      await request(quotaApp)
+        .post("/blob")
+        .attach("file", Buffer.from("12345678"), "second.txt")
+        .expect(201);
+    });
+
+    it("should reject updates over the quota with 413", async () => {
+      const { body } = await request(quotaApp)
+        .post("/blob")
+        .attach("file", Buffer.from("12345678"), "first.txt")
+        .expect(201);
+
+      await request(quotaApp)
+        .put(`/blob/${body.id}`)
+        .attach("file", Buffer.from("1234567890"), "first.txt")
+        .expect(200);
+      await request(quotaApp)
+        .put(`/blob/${body.id}`)
+        .attach("file", Buffer.from("12345678901"), "first.txt")
+        .expect(413);
+    });
+
+    it("should set the expiration of uploads with a ttl", async () => {
+      const { body } = await request(quotaApp)
+        .post("/blob?ttl=60")
+        .attach("file", Buffer.from("Temporary"), "temporary.txt")
+        .expect(201);
+
+      const { expiresAt } = (await blob.info(body.id))!;
+      expect(new Date(expiresAt!).getTime()).to.be.closeTo(
+        Date.now() + 60_000,
+        5000,
+      );
+    });
+
+    it("should reject uploads over the quota in the upload tool", async () => {
+      const create = sinon
+        .stub(mockDkgContext.blob, "create")
+        .rejects(new BlobQuotaExceededError(10));
+
+      try {
+        const result = await mockMcpClient.callTool({
+          name: "upload",
+          arguments: {
+            filename: "large.txt",
+            fileBase64: Buffer.from("Large").toString("base64"),
+          },
+        });
+
+        expect(result.isError).to.equal(true);
+        expect((result.content as any[])[0].text).to.include("quota");
+      } finally {
+        create.restore();
+      }
+    });
+  });
+
+  describe("Range and Conditional Requests", () => {
+    let rangeApp: express.Application;
+    let directory: string;
+    let id: string;
+
+    const setup = async (options?: { contentAddressed: boolean }) => {
+      const blob = createFsBlobStorage(directory, options);
+      const { server } = await createMcpServerClientPair();
+      const router = express.Router();
+      // Simulates the bearer auth middleware
+      router.use((req, _res, next) => {
+        (req as any).auth = mockAuth;
+        next();
+      });
+      blobsPlugin({ ...mockDkgContext, blob }, server, router);
+      rangeApp = createExpressApp();
+      rangeApp.use("/", router);
+
+      const response = await request(rangeApp)
+        .post("/blob")
+        .attach("file", Buffer.from("Hello, range!"), "range.txt")
+        .expect(201);
+      id = response.body.id;
+    };
+
+    beforeEach(async () => {
+      directory = fs.mkdtempSync(path.join(os.tmpdir(), "dkg-blobs-"));
+      await setup();
+    });
+
+    afterEach(() => {
+      fs.rmSync(directory, { recursive: true, force: true });
+      fs.rmSync(`${directory}.metadata`, { recursive: true, force: true });
+    });
+
+    it("should send the length and validators of the blob", async () => {
+      const response = await request(rangeApp).get(`/blob/${id}`).expect(200);
+
+      expect(response.headers["content-length"]).to.equal("13");
+      expect(response.headers["accept-ranges"]).to.equal("bytes");
+      expect(response.headers["etag"]).to.match(/^W\/"/);
+      expect(response.headers["last-modified"]).to.be.a("string");
+      expect(response.headers["content-disposition"]).to.equal(
+        'attachment; filename="range.txt"',
+      );
+    });
+
+    it("should send a part of the blob for a range", async () => {
+      const response = await request(rangeApp)
+        .get(`/blob/${id}`)
+        .set("Range", "bytes=7-11")
+        .expect(206);
+
+      expect(response.text).to.equal("range");
+      expect(response.headers["content-range"]).to.equal("bytes 7-11/13");
+      expect(response.headers["content-length"]).to.equal("5");
+    });
+
+    it("should send the end of the blob for a suffix range", async () => {
+      const response = await request(rangeApp)
+        .get(`/blob/${id}`)
+        .set("Range", "bytes=-6")
+        .expect(206);
+
+      expect(response.text).to.equal("range!");
+    });
+
+    it("should reject unsatisfiable ranges with 416", async () => {
+      const response = await request(rangeApp)
+        .get(`/blob/${id}`)
+        .set("Range", "bytes=100-200")
+        .expect(416);
+
+      expect(response.headers["content-range"]).to.equal("bytes */13");
+    });
+
+    it("should send the whole blob for multiple ranges", async () => {
+      const response = await request(rangeApp)
+        .get(`/blob/${id}`)
+        .set("Range", "bytes=0-1,5-6")
+        .expect(200);
+
+      expect(response.text).to.equal("Hello, range!");
+    });
+
+    it("should respond with 304 for a matching ETag", async () => {
+      const { headers } = await request(rangeApp).get(`/blob/${id}`);
+
+      await request(rangeApp)
+        .get(`/blob/${id}`)
+        .set("If-None-Match", headers["etag"])
+        .expect(304);
+      await request(rangeApp)
+        .get(`/blob/${id}`)
+        .set("If-None-Match", '"other"')
+        .expect(200);
+    });
+
+    it("should respond with 304 if not modified since", async () => {
+      const { headers } = await request(rangeApp).get(`/blob/${id}`);
+
+      await request(rangeApp)
+        .get(`/blob/${id}`)
+        .set("If-Modified-Since", headers["last-modified"])
+        .expect(304);
+    });
+
+    it("should ignore ranges of other versions of the blob", async () => {
+      await request(rangeApp)
+        .get(`/blob/${id}`)
+        .set("Range", "bytes=0-4")
+        .set("If-Range", "Thu, 01 Jan 1970 00:00:00 GMT")
+        .expect(200);
+    });
+
+    it("should use the digest as a strong ETag of content-addressed blobs", async () => {
+      await setup({ contentAddressed: true });
+      const { headers } = await request(rangeApp).get(`/blob/${id}`);
+
+      expect(headers["etag"]).to.equal(
+        `"${createHash("sha256").update("Hello, range!").digest("hex")}"`,
+      );
+      const response = await request(rangeApp)
+        .get(`/blob/${id}`)
+        .set("Range", "bytes=0-4")
+        .set("If-Range", headers["etag"])
+        .expect(206);
+      expect(response.text).to.equal("Hello");
+    });
+
+    it("should send blobs inline if requested", async () => {
+      const response = await request(rangeApp)
+        .get(`/blob/${id}?disposition=inline`)
+        .expect(200);
+
+      expect(response.headers["content-disposition"]).to.equal(
+        'inline; filename="range.txt"',
+      );
+    });
+  });
+
+  describe("Chunked Uploads", () => {
+    let uploadApp: express.Application;
+    let directory: string;
+    let blob: ReturnType<typeof createFsBlobStorage>;
+    let userId: string | undefined;
+
+    const sha256 = (content: string) =>
+      createHash("sha256").update(content).digest("hex");
+
+    const init = () =>
+      request(uploadApp)
+        .post("/blob/uploads")
+        .send({ name: "dataset.jsonld", mimeType: "application/ld+json" })
+        .expect(201)
+        .then((r) => r.body.uploadId as string);
+
+    const putChunk = (uploadId: string, index: number, content: string) =>
+      request(uploadApp)
+        .put(`/blob/uploads/${uploadId}/chunks/${index}`)
+        .set("Content-Type", "application/octet-stream")
+        .send(Buffer.from(content));
+
+    beforeEach(async () => {
+      directory = fs.mkdtempSync(path.join(os.tmpdir(), "dkg-blobs-"));
+      blob = createFsBlobStorage(directory, { quota: 100 });
+      const { server } = await createMcpServerClientPair();
+      const router = express.Router();
+      // Simulates the bearer auth middleware
+      router.use((req, _res, next) => {
+        (req as any).auth = userId && { scopes: [], extra: { userId } };
+        next();
+      });
+      blobsPlugin({ ...mockDkgContext, blob }, server, router);
+      uploadApp = createExpressApp();
+      uploadApp.use("/", router);
+      userId = "user";
+    });
+
+    afterEach(() => {
+      fs.rmSync(directory, { recursive: true, force: true });
+      fs.rmSync(`${directory}.metadata`, { recursive: true, force: true });
+    });
+
+    it("should store the chunks as a single blob", async () => {
+      const uploadId = await init();
+      await putChunk(uploadId, 1, "World!").expect(200);
+      await putChunk(uploadId, 0, "Hello ").expect(200);
+
+      const response = await request(uploadApp)
+        .post(`/blob/uploads/${uploadId}/complete`)
+        .send({ chunks: 2, sha256: sha256("Hello World!") })
+        .expect(201);
+
+      expect(response.body).to.include({
+        name: "dataset.jsonld",
+        mimeType: "application/ld+json",
+      });
+      const content = await request(uploadApp)
+        .get(`/blob/${response.body.id}`)
+        .buffer(true)
+        .parse((res, callback) => {
+          let data = "";
+          res.on("data", (chunk: Buffer) => (data += chunk.toString()));
+          res.on("end", () => callback(null, data));
+        })
+        .expect(200);
+      expect(content.body).to.equal("Hello World!");
+      expect(fs.readdirSync(directory)).to.deep.equal([response.body.id]);
+    });
+
+    it("should return the chunk to resume the upload from", async () => {
+      const uploadId = await init();
+      await putChunk(uploadId, 0, "Hello ").expect(200);
+      await putChunk(uploadId, 2, "!").expect(200);
+
+      const response = await request(uploadApp)
+        .get(`/blob/uploads/${uploadId}`)
+        .expect(200);
+
+      expect(response.body).to.deep.equal({
+        uploadId,
+        name: "dataset.jsonld",
+        mimeType: "application/ld+json",
+        receivedChunks: 1,
+      });
+    });
+
+    it("should not complete uploads with missing chunks", async () => {
+      const uploadId = await init();
+      await putChunk(uploadId, 0, "Hello ").expect(200);
+
+      const response = await request(uploadApp)
+        .post(`/blob/uploads/${uploadId}/complete`)
+        .send({ chunks: 2 })
+        .expect(400);
+
+      expect(response.body.error).to.include("Missing chunk 1");
+    });
+
+    it("should reject content that does not match the checksum", async () => {
+      const uploadId = await init();
+      await putChunk(uploadId, 0, "Hello").expect(200);
+
+      await request(uploadApp)
+        .post(`/blob/uploads/${uploadId}/complete`)
+        .send({ chunks: 1, sha256: sha256("Bye") })
+        .expect(422);
+
+      expect((await blob.list()).blobs).to.deep.equal([]);
+    });
+
+    it("should not list uploads in progress", async () => {
+      const uploadId = await init();
+      await putChunk(uploadId, 0, "Hello").expect(200);
+
+      const response = await request(uploadApp).get("/blob").expect(200);
+
+      expect(response.body.blobs).to.deep.equal([]);
+    });
+
+    it("should delete aborted uploads", async () => {
+      const uploadId = await init();
+      await putChunk(uploadId, 0, "Hello").expect(200);
+
+      await request(uploadApp).delete(`/blob/uploads/${uploadId}`).expect(200);
+
+      await request(uploadApp).get(`/blob/uploads/${uploadId}`).expect(404);
+      expect(fs.readdirSync(directory)).to.deep.equal([]);
+    });
+
+    it("should only allow the uploader to continue the upload", async () => {
+      userId = "1";
+      const uploadId = await init();
+
+      userId = "2";
+      await putChunk(uploadId, 0, "Hello").expect(403);
+      await request(uploadApp)
+        .post(`/blob/uploads/${uploadId}/complete`)
+        .send({ chunks: 1 })
+        .expect(403);
+
+      userId = "1";
+      await putChunk(uploadId, 0, "Hello").expect(200);
+      const response = await request(uploadApp)
+        .post(`/blob/uploads/${uploadId}/complete`)
+        .send({ chunks: 1 })
+        .expect(201);
+      expect((await blob.info(response.body.id))?.owner).to.equal("1");
+    });
+
+    it("should count uploaded chunks towards the quota", async () => {
+      userId = "1";
+      const uploadId = await init();
+      await putChunk(uploadId, 0, "a".repeat(60)).expect(200);
+
+      await putChunk(uploadId, 1, "a".repeat(60)).expect(413);
+      await putChunk(uploadId, 1, "a".repeat(40)).expect(200);
+      await request(uploadApp)
+        .post(`/blob/uploads/${uploadId}/complete`)
+        .send({ chunks: 2 })
+        .expect(201);
+      expect(await blob.usage("1")).to.equal(100);
+    });
+
+    it("should upload files in chunks with the MCP tools", async () => {
+      const { server, client, connect } =
+        await createMcpServerClientPair(mockAuth);
+      blobsPlugin({ ...mockDkgContext, blob }, server, express.Router());
+      await connect();
+      const text = (result: any) => (result.content as any[])[0].text as string;
+
+      const uploadId = text(
+        await client.callTool({
+          name: "upload_init",
+          arguments: { filename: "dataset.jsonld" },
+        }),
+      ).match(/ID: (.+)$/)?.[1];
+      for (const [index, chunk] of ["Hello ", "World!"].entries())
+        await client.callTool({
+          name: "upload_chunk",
+          arguments: {
+            uploadId,
+            index,
+            chunkBase64: Buffer.from(chunk).toString("base64"),
+          },
+        });
+      const id = text(
+        await client.callTool({
+          name: "upload_complete",
+          arguments: { uploadId, chunks: 2, sha256: sha256("Hello World!") },
+        }),
+      ).match(/ID: (.+)$/)?.[1];
+
+      const stored = await blob.get(id!);
+      expect(await consumers.text(stored!.data as any)).to.equal(
+        "Hello World!",
+      );
+    });
+  });
 });
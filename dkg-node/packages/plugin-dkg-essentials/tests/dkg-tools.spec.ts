@@ -3,13 +3,19 @@
 import { describe, it, beforeEach, afterEach } from "mocha";
 import { expect } from "chai";
 import sinon from "sinon";
-import { dkgToolsPlugin } from "../dist/index.js";
+import { dkgToolsPlugin, provideEssentialsServices } from "../dist/index.js";
+import { createDkgAssets } from "../dist/dkgAssets.js";
 import {
   getExplorerUrl,
   withSourceKnowledgeAssets,
   serializeSourceKAContent,
   parseSourceKAContent,
 } from "../dist/utils.js";
+import {
+  createDkgNetworkRegistry,
+  createServiceRegistry,
+  type DkgServices,
+} from "@dkg/plugins";
 import {
   createExpressApp,
   createInMemoryBlobStorage,
@@ -21,11 +27,13 @@ import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
 import express from "express";
 import { Blob } from "buffer";
 
-// Mock DKG context
+// Mock DKG context, with the services that the essentials plugin provides
 const mockDkgContext = {
   dkg: createMockDkgClient(),
   blob: createInMemoryBlobStorage(),
+  services: createServiceRegistry<DkgServices>(),
 };
+provideEssentialsServices(mockDkgContext);
 
 mockDkgContext.dkg.asset = {
   // @ts-expect-error Mock definition differs from the original implementation
@@ -45,8 +53,55 @@ mockDkgContext.dkg.asset = {
   create: () =>
     Promise.resolve({
       UAL: "did:dkg:otp:20430/0x123456/12345",
+      datasetRoot: "0xroot",
+      operation: {
+        // Receipts of web3 have bigints
+        mintKnowledgeCollection: {
+          transactionHash: "0xtransaction",
+          status: 1n,
+          blockNumber: 100n,
+        },
+        publish: { operationId: "operation-1", status: "COMPLETED" },
+        finality: { status: "FINALIZED" },
+        numberOfConfirmations: 3,
+        requiredConfirmations: 3,
+      },
     }),
+  submitToParanet: () => Promise.resolve({}),
+  getCurrentAllowance: () => Promise.resolve("0"),
+  // Internals of dkg.js, used for estimating the cost of publishing
+  inputService: { getBlockchain: () => ({ name: "otp:20430" }) },
+  blockchainService: {
+    getStakeWeightedAverageAsk: () => Promise.resolve("1000000000000000000"),
+  },
+};
+
+mockDkgContext.dkg.blockchain = {
+  // @ts-expect-error Mock definition differs from the original implementation
+  getGasPrice: () => Promise.resolve("1000000000"),
+  getWalletBalances: () =>
+    Promise.resolve({
+      trac: "5000000000000000000",
+      blockchainToken: "1000000000000000000",
+    }),
+};
+
+// User of the MCP session, with access to the blobs that it owns
+const mockAuth = {
+  token: "token",
+  clientId: "client",
+  scopes: ["dkg:publish"],
+  extra: { userId: "user" },
+};
+
+const thing = {
+  "@context": "https://schema.org",
+  "@id": "urn:thing:1",
+  "@type": "Thing",
 };
+// Canonicalized with the bundled schema.org context, without fetching it
+const thingNQuads =
+  "<urn:thing:1> <http://www.w3.org/1999/02/22-rdf-syntax-ns#type> <http://schema.org/Thing> .\n";
 
 describe("@dkg/plugin-dkg-essentials checks", () => {
   let mockMcpServer: McpServer;
@@ -55,7 +110,8 @@ describe("@dkg/plugin-dkg-essentials checks", () => {
   let app: express.Application;
 
   beforeEach(async () => {
-    const { server, client, connect } = await createMcpServerClientPair();
+    const { server, client, connect } =
+      await createMcpServerClientPair(mockAuth);
     mockMcpServer = server;
     mockMcpClient = client;
     apiRouter = express.Router();
@@ -84,10 +140,22 @@ describe("@dkg/plugin-dkg-essentials checks", () => {
       expect(tools.some((t) => t.name === "dkg-create")).to.equal(true);
     });
 
-    it("should register exactly 2 tools", async () => {
+    it("should register the dkg-estimate tool", async () => {
+      const tools = await mockMcpClient.listTools().then((t) => t.tools);
+
+      expect(tools.some((t) => t.name === "dkg-estimate")).to.equal(true);
+    });
+
+    it("should register the dkg-sparql-query tool", async () => {
       const tools = await mockMcpClient.listTools().then((t) => t.tools);
 
-      expect(tools.length).to.equal(2);
+      expect(tools.some((t) => t.name === "dkg-sparql-query")).to.equal(true);
+    });
+
+    it("should register exactly 4 tools", async () => {
+      const tools = await mockMcpClient.listTools().then((t) => t.tools);
+
+      expect(tools.length).to.equal(4);
     });
 
     it("should have correct dkg-get tool configuration", async () => {
@@ -213,6 +281,65 @@ describe("@dkg/plugin-dkg-essentials checks", () => {
         JSON.parse((result.content as any[])[0].text),
       ).to.not.throw();
     });
+
+    it("should retrieve a historical state of the knowledge asset", async () => {
+      const testUal = "did:dkg:otp:20430/0x123456/12345";
+      const assetGet = sinon.spy(mockDkgContext.dkg.asset, "get");
+      try {
+        await mockMcpClient.callTool({
+          name: "dkg-get",
+          arguments: { ual: testUal, state: 1 },
+        });
+        await mockMcpClient.callTool({
+          name: "dkg-get",
+          arguments: { ual: testUal },
+        });
+
+        expect(assetGet.firstCall.args).to.deep.equal([testUal, { state: 1 }]);
+        expect(assetGet.secondCall.args).to.deep.equal([testUal]);
+      } finally {
+        assetGet.restore();
+      }
+    });
+
+    it("should return the historical state of the knowledge asset", async () => {
+      const testUal = "did:dkg:otp:20430/0x123456/12345";
+      const assetGet = sinon
+        .stub(mockDkgContext.dkg.asset, "get")
+        .resolves({ public: { state: 1 } });
+      try {
+        const result = await mockMcpClient.callTool({
+          name: "dkg-get",
+          arguments: { ual: testUal, state: 1 },
+        });
+
+        expect(result.isError).to.not.equal(true);
+        expect(JSON.parse((result.content as any[])[0].text)).to.deep.equal({
+          public: { state: 1 },
+        });
+      } finally {
+        assetGet.restore();
+      }
+    });
+
+    it("should reject states that are not indexes", async () => {
+      const assetGet = sinon.spy(mockDkgContext.dkg.asset, "get");
+      try {
+        for (const state of [-1, 1.5]) {
+          const error = await mockMcpClient
+            .callTool({
+              name: "dkg-get",
+              arguments: { ual: "did:dkg:otp:20430/0x123456/12345", state },
+            })
+            .catch((error: Error) => error);
+          expect(error).to.be.instanceOf(Error);
+          expect((error as Error).message).to.include("state");
+        }
+        expect(assetGet.called).to.equal(false);
+      } finally {
+        assetGet.restore();
+      }
+    });
   });
 
   describe("DKG Create Tool Functionality", () => {
@@ -254,6 +381,7 @@ describe("@dkg/plugin-dkg-essentials checks", () => {
         {
           name: "test-jsonld.json",
           mimeType: "application/json",
+          owner: "user",
         },
       );
       const result = await mockMcpClient.callTool({
@@ -322,8 +450,125 @@ describe("@dkg/plugin-dkg-essentials checks", () => {
       );
     });
 
+    it("should submit the created asset to a paranet", async () => {
+      const paranetUAL = "did:dkg:otp:20430/0x123456/100/1";
+      const submit = sinon.spy(mockDkgContext.dkg.asset, "submitToParanet");
+      try {
+        const result = await mockMcpClient.callTool({
+          name: "dkg-create",
+          arguments: {
+            jsonld: JSON.stringify(thing),
+            paranetUAL,
+          },
+        });
+
+        expect(submit.firstCall.args).to.deep.equal([
+          "did:dkg:otp:20430/0x123456/12345",
+          paranetUAL,
+        ]);
+        expect((result.content as any[])[0].text).to.include(
+          `Submitted to paranet: ${paranetUAL}`,
+        );
+      } finally {
+        submit.restore();
+      }
+    });
+
+    it("should report failed paranet submissions of created assets", async () => {
+      const submit = sinon
+        .stub(mockDkgContext.dkg.asset, "submitToParanet")
+        .rejects(new Error("Not a paranet"));
+      try {
+        const result = await mockMcpClient.callTool({
+          name: "dkg-create",
+          arguments: {
+            jsonld: JSON.stringify(thing),
+            paranetUAL: "did:dkg:otp:20430/0x123456/100/1",
+          },
+        });
+
+        expect(result.isError).to.not.equal(true);
+        expect((result.content as any[])[0].text).to.include("Not a paranet");
+      } finally {
+        submit.restore();
+      }
+    });
+
+    it("should validate the content and estimate the cost in dry runs", async () => {
+      const create = sinon.spy(mockDkgContext.dkg.asset, "create");
+      try {
+        const result = await mockMcpClient.callTool({
+          name: "dkg-create",
+          arguments: {
+            jsonld: JSON.stringify({
+              "@context": { "@vocab": "http://schema.org/" },
+              "@type": "Thing",
+            }),
+            dryRun: true,
+          },
+        });
+
+        expect(create.called).to.equal(false);
+        expect((result.content as any[])[0].text).to.match(
+          /^The JSON-LD is valid\.\nTriples: 1\nKnowledge Assets: 2\n/,
+        );
+        expect((result.content as any[])[0].text).to.include(
+          "The wallet can pay for publishing.",
+        );
+      } finally {
+        create.restore();
+      }
+    });
+
+    it("should not estimate the cost of invalid content in dry runs", async () => {
+      const result = await mockMcpClient.callTool({
+        name: "dkg-create",
+        arguments: { jsonld: "{", dryRun: true },
+      });
+
+      expect((result.content as any[])[0].text).to.include(
+        "The JSON-LD is not valid.",
+      );
+      expect((result.content as any[])[0].text).to.not.include(
+        "Estimated TRAC",
+      );
+    });
+
+    it("should not publish content violating the SHACL shapes", async () => {
+      const { id } = await mockDkgContext.blob.create(
+        new Blob([
+          "@prefix sh: <http://www.w3.org/ns/shacl#> .\n" +
+            "<urn:shape> a sh:NodeShape ; " +
+            "sh:targetClass <http://schema.org/Thing> ; " +
+            "sh:property [ sh:path <http://schema.org/name> ; sh:minCount 1 ] .",
+        ]).stream(),
+        { name: "shapes.ttl", mimeType: "text/turtle", owner: "user" },
+      );
+      const create = sinon.spy(mockDkgContext.dkg.asset, "create");
+      try {
+        const result = await mockMcpClient.callTool({
+          name: "dkg-create",
+          arguments: {
+            jsonld: JSON.stringify({
+              "@context": { "@vocab": "http://schema.org/" },
+              "@type": "Thing",
+            }),
+            shapes: [id],
+          },
+        });
+
+        expect(result.isError).to.equal(true);
+        expect(create.called).to.equal(false);
+        expect((result.content as any[])[0].text).to.include(
+          "The JSON-LD is not valid.",
+        );
+      } finally {
+        create.restore();
+      }
+    });
+
     it("should include UAL in response", async () => {
-      const testJsonLd = JSON.stringify({ "@type": "Thing" });
+      const testJsonLd = JSON.stringify(thing);
       const result = await mockMcpClient.callTool({
         name: "dkg-create",
         arguments: { jsonld: testJsonLd },
@@ -335,6 +580,321 @@ describe("@dkg/plugin-dkg-essentials checks", () => {
     });
   });
 
+  describe("DKG Estimate Tool Functionality", () => {
+    it("should estimate the cost of publishing without publishing", async () => {
+      const create = sinon.spy(mockDkgContext.dkg.asset, "create");
+      try {
+        const result = await mockMcpClient.callTool({
+          name: "dkg-estimate",
+          arguments: { jsonld: JSON.stringify(thing), privacy: "public" },
+        });
+
+        expect(create.called).to.equal(false);
+        expect((result.content as any[])[0].text).to.equal(
+          [
+            "Knowledge Assets: 1",
+            "Public triples: 1",
+            "Size: 96 bytes",
+            "Epochs: 2",
+            "Estimated TRAC: 0.1875",
+            "Estimated gas: 0.00156 in the native token (1560000 gas at 1000000000 wei)",
+            "Wallet balance: 5 TRAC, 1 in the native token",
+            "The wallet can pay for publishing.",
+          ].join("\n"),
+        );
+      } finally {
+        create.restore();
+      }
+    });
+
+    it("should estimate the TRAC bid for the epochs", async () => {
+      const result = await mockMcpClient.callTool({
+        name: "dkg-estimate",
+        arguments: {
+          jsonld: JSON.stringify(thing),
+          privacy: "public",
+          epochs: 4,
+        },
+      });
+
+      expect((result.content as any[])[0].text).to.include(
+        "Estimated TRAC: 0.375",
+      );
+    });
+
+    it("should include the private content representations in the size", async () => {
+      const result = await mockMcpClient.callTool({
+        name: "dkg-estimate",
+        arguments: { jsonld: JSON.stringify(thing) },
+      });
+
+      // The private merkle root and the hashed private subject
+      expect((result.content as any[])[0].text).to.include(
+        "Knowledge Assets: 2\nPublic triples: 2",
+      );
+    });
+
+    it("should not include the allowance increase if it suffices", async () => {
+      const allowance = sinon
+        .stub(mockDkgContext.dkg.asset as any, "getCurrentAllowance")
+        .resolves("1000000000000000000");
+      try {
+        const result = await mockMcpClient.callTool({
+          name: "dkg-estimate",
+          arguments: { jsonld: JSON.stringify(thing), privacy: "public" },
+        });
+
+        expect((result.content as any[])[0].text).to.include(
+          "(1500000 gas at 1000000000 wei)",
+        );
+      } finally {
+        allowance.restore();
+      }
+    });
+
+    it("should report wallets that cannot pay for publishing", async () => {
+      const balances = sinon
+        .stub(mockDkgContext.dkg.blockchain as any, "getWalletBalances")
+        .resolves({ trac: "0", blockchainToken: "1000000000000000000" });
+      try {
+        const result = await mockMcpClient.callTool({
+          name: "dkg-estimate",
+          arguments: { jsonld: JSON.stringify(thing), privacy: "public" },
+        });
+
+        expect((result.content as any[])[0].text).to.include(
+          "The wallet cannot pay for publishing.",
+        );
+      } finally {
+        balances.restore();
+      }
+    });
+
+    it("should report failed estimates", async () => {
+      const ask = sinon
+        .stub(
+          (mockDkgContext.dkg.asset as any).blockchainService,
+          "getStakeWeightedAverageAsk",
+        )
+        .rejects(new Error("RPC unavailable"));
+      try {
+        const result = await mockMcpClient.callTool({
+          name: "dkg-estimate",
+          arguments: { jsonld: JSON.stringify(thing) },
+        });
+
+        expect(result.isError).to.equal(true);
+        expect((result.content as any[])[0].text).to.include(
+          "Failed to estimate cost: RPC unavailable",
+        );
+      } finally {
+        ask.restore();
+      }
+    });
+  });
+
+  describe("DKG Create Tool Scopes", () => {
+    const connectWithScopes = async (scopes: string[]) => {
+      const { server, client, connect } = await createMcpServerClientPair({
+        token: "test-token",
+        clientId: "test-client",
+        scopes,
+      });
+      dkgToolsPlugin(mockDkgContext, server, express.Router());
+      await connect();
+      return client;
+    };
+
+    it("should hide dkg-create without the dkg:publish scope", async () => {
+      const client = await connectWithScopes(["mcp"]);
+      const tools = await client.listTools().then((t) => t.tools);
+
+      expect(tools.map((t) => t.name)).to.deep.equal([
+        "dkg-get",
+        "dkg-sparql-query",
+      ]);
+    });
+
+    it("should reject dkg-create calls without the dkg:publish scope", async () => {
+      const client = await connectWithScopes(["mcp"]);
+
+      try {
+        await client.callTool({
+          name: "dkg-create",
+          arguments: { jsonld: JSON.stringify(thing) },
+        });
+        expect.fail("Should have thrown an error");
+      } catch (error) {
+        expect((error as Error).message).to.include("dkg-create");
+      }
+    });
+
+    it("should allow dkg-create with the dkg:publish scope", async () => {
+      const client = await connectWithScopes(["mcp", "dkg:publish"]);
+      const result = await client.callTool({
+        name: "dkg-create",
+        arguments: { jsonld: JSON.stringify(thing) },
+      });
+
+      expect((result.content as any[])[0].text).to.include(
+        "Knowledge Asset collection successfully created",
+      );
+    });
+  });
+
+  describe("DKG SPARQL Query Tool Functionality", () => {
+    const ual = "did:dkg:otp:20430/0x123456/12345/1";
+    let graphQuery: sinon.SinonStub;
+
+    const callQuery = (args: Record<string, unknown>) =>
+      mockMcpClient
+        .callTool({ name: "dkg-sparql-query", arguments: args })
+        .then((result) => ({
+          ...result,
+          text: (result.content as any[]).map((c) => c.text).join("\n"),
+        }));
+
+    beforeEach(() => {
+      graphQuery = sinon.stub(mockDkgContext.dkg.graph, "query");
+    });
+
+    afterEach(() => {
+      graphQuery.restore();
+    });
+
+    it("should render SELECT results as a table", async () => {
+      graphQuery.resolves({
+        data: [
+          { name: '"Alice"', ka: ual },
+          { name: '"Bob | Carol"', ka: ual },
+        ],
+      });
+
+      const result = await callQuery({
+        query:
+          "PREFIX schema: <http://schema.org/>\nSELECT ?name ?ka WHERE { ?ka schema:name ?name }",
+      });
+
+      expect(graphQuery.firstCall.args[1]).to.equal("SELECT");
+      expect(result.text).to.include(
+        [
+          "| name | ka |",
+          "| --- | --- |",
+          `| "Alice" | ${ual} |`,
+          `| "Bob \\| Carol" | ${ual} |`,
+        ].join("\n"),
+      );
+    });
+
+    it("should return the Knowledge Assets of the results as sources", async () => {
+      graphQuery.resolves({ data: [{ name: '"Alice"', ka: ual }] });
+
+      const result = await callQuery({ query: "SELECT * WHERE { ?s ?p ?o }" });
+
+      expect(
+        parseSourceKAContent((result.content as any[]).at(-1)),
+      ).to.deep.equal([{ title: "Alice", issuer: "otp:20430", ual }]);
+    });
+
+    it("should limit the number of rows", async () => {
+      graphQuery.resolves({
+        data: Array.from({ length: 5 }, (_, i) => ({ n: String(i) })),
+      });
+
+      const result = await callQuery({
+        query: "SELECT ?n WHERE { ?s ?p ?n }",
+        limit: 2,
+      });
+
+      expect(result.text).to.include("| 1 |");
+      expect(result.text).not.to.include("| 2 |");
+      expect(result.text).to.include("Showing the first 2 of 5 rows.");
+    });
+
+    it("should run CONSTRUCT and DESCRIBE queries as graph queries", async () => {
+      const quad = `<urn:a> <http://schema.org/name> "A" <${ual}/public> .`;
+      graphQuery.resolves({ data: quad });
+
+      const result = await callQuery({ query: `DESCRIBE <urn:a>` });
+
+      expect(graphQuery.firstCall.args[1]).to.equal("CONSTRUCT");
+      expect(result.text).to.include(quad);
+      expect(
+        parseSourceKAContent((result.content as any[]).at(-1))?.[0]?.ual,
+      ).to.equal(ual);
+    });
+
+    it("should answer ASK queries with a SELECT query", async () => {
+      graphQuery.resolves({ data: [{ s: "urn:a" }] });
+
+      const result = await callQuery({
+        query: "# Is there anything?\nASK { ?s ?p ?o }",
+      });
+
+      expect(graphQuery.firstCall.args[0]).to.equal(
+        "SELECT * WHERE { ?s ?p ?o. }\nLIMIT 1",
+      );
+      expect(graphQuery.firstCall.args[1]).to.equal("SELECT");
+      expect(result.text).to.equal("ASK result: true");
+    });
+
+    it("should limit ASK queries before their trailing clauses", async () => {
+      graphQuery.resolves({ data: [] });
+
+      const result = await callQuery({
+        query: "ASK { ?s ?p ?o } VALUES ?s { <urn:a> } # Is it there?",
+      });
+
+      expect(graphQuery.firstCall.args[0]).to.equal(
+        "SELECT * WHERE { ?s ?p ?o. }\nLIMIT 1\nVALUES ?s {\n  <urn:a>\n}",
+      );
+      expect(result.text).to.equal("ASK result: false");
+    });
+
+    it("should detect the type of queries with comments", async () => {
+      graphQuery.resolves({ data: [] });
+
+      await callQuery({
+        query: "# SELECT ?s WHERE { ?s ?p ?o }\nCONSTRUCT WHERE { ?s ?p ?o }",
+      });
+
+      expect(graphQuery.firstCall.args[1]).to.equal("CONSTRUCT");
+    });
+
+    it("should scope the query to a paranet", async () => {
+      graphQuery.resolves({ data: [] });
+      const paranetUAL = "did:dkg:otp:20430/0x123456/1/1";
+
+      const result = await callQuery({
+        query: "SELECT * WHERE { ?s ?p ?o }",
+        paranetUAL,
+      });
+
+      expect(graphQuery.firstCall.args[2]).to.deep.equal({ paranetUAL });
+      expect(result.text).to.equal("No results.");
+    });
+
+    it("should reject other queries", async () => {
+      const result = await callQuery({
+        query: "INSERT DATA { <urn:a> <urn:b> <urn:c> }",
+      });
+
+      expect(result.isError).to.equal(true);
+      expect(result.text).to.include(
+        "SPARQL Update operations are not allowed",
+      );
+      expect(graphQuery.called).to.equal(false);
+    });
+
+    it("should reject invalid queries", async () => {
+      const result = await callQuery({ query: "SELECT ?s WHERE {" });
+
+      expect(result.isError).to.equal(true);
+      expect(result.text).to.include("line 1");
+      expect(graphQuery.called).to.equal(false);
+    });
+  });
+
   describe("Resource Handler Functionality", () => {
     it("should handle knowledge asset resource requests", async () => {
       const mockUal = "did:dkg:otp:20430/0x123456/12345/1";
@@ -424,6 +984,31 @@ describe("@dkg/plugin-dkg-essentials checks", () => {
         expect(getExplorerUrl(ual)).to.equal(expectedUrl);
       });
 
+      it("should link UALs to the explorer of their blockchain", () => {
+        const ual = "did:dkg:base:8453/0x123456/12345";
+
+        expect(getExplorerUrl(ual)).to.equal(
+          `https://dkg.origintrail.io/explore?ual=${ual}`,
+        );
+      });
+
+      it("should link UALs to the explorer of the network", () => {
+        const ual = "did:dkg:hardhat1:31337/0x123456/12345";
+        const network = {
+          name: "hardhat",
+          profile: {
+            endpoint: "http://localhost:8900",
+            blockchain: "hardhat1:31337",
+            explorerUrl: "http://localhost:3000/explore?ual=",
+          },
+          dkg: {},
+        };
+
+        expect(getExplorerUrl(ual, network)).to.equal(
+          `http://localhost:3000/explore?ual=${ual}`,
+        );
+      });
+
       it("should handle empty UAL", () => {
         const ual = "";
         const expectedUrl = "https://dkg-testnet.origintrail.io/explore?ual=";
@@ -553,11 +1138,138 @@ describe("@dkg/plugin-dkg-essentials checks", () => {
     });
   });
 
+  describe("DKG Networks", () => {
+    const mainnetUal = "did:dkg:base:8453/0xabc/1";
+    let mainnet: { asset: any; graph: any };
+    let networkClient: Client;
+
+    beforeEach(async () => {
+      mainnet = {
+        asset: {
+          ...mockDkgContext.dkg.asset,
+          get: sinon.stub().resolves({ network: "mainnet" }),
+          create: sinon.stub().resolves({ UAL: mainnetUal }),
+        },
+        graph: { query: sinon.stub().resolves({ data: [] }) },
+      };
+      const { server, client, connect } = await createMcpServerClientPair();
+      const ctx = {
+        ...mockDkgContext,
+        services: createServiceRegistry<DkgServices>(),
+        networks: createDkgNetworkRegistry({
+          defaultNetwork: "testnet",
+          profiles: {
+            testnet: { endpoint: "http://testnet", blockchain: "otp:20430" },
+            mainnet: {
+              endpoint: "http://mainnet",
+              blockchain: "base:8453",
+              explorerUrl: "https://explorer.example/?ual=",
+            },
+          },
+          clients: { testnet: mockDkgContext.dkg },
+          createClient: () => mainnet,
+        }),
+      } as any;
+      provideEssentialsServices(ctx);
+      dkgToolsPlugin(ctx, server, express.Router());
+      await connect();
+      networkClient = client;
+    });
+
+    it("should retrieve Knowledge Assets from the network of their UAL", async () => {
+      const result = await networkClient.callTool({
+        name: "dkg-get",
+        arguments: { ual: "did:dkg:gnosis:100/0xabc/1" },
+      });
+
+      // Gnosis mainnet is not configured, so the mainnet network is used
+      expect(JSON.parse((result.content as any[])[0].text)).to.deep.equal({
+        network: "mainnet",
+      });
+    });
+
+    it("should retrieve Knowledge Assets from the given network", async () => {
+      const result = await networkClient.callTool({
+        name: "dkg-get",
+        arguments: { ual: "did:dkg:otp:20430/0xabc/1", network: "mainnet" },
+      });
+
+      expect(mainnet.asset.get.firstCall.args).to.deep.equal([
+        "did:dkg:otp:20430/0xabc/1",
+      ]);
+      expect((result.content as any[])[0].text).to.include("mainnet");
+    });
+
+    it("should retrieve historical states from the given network", async () => {
+      await networkClient.callTool({
+        name: "dkg-get",
+        arguments: {
+          ual: "did:dkg:otp:20430/0xabc/1",
+          state: 2,
+          network: "mainnet",
+        },
+      });
+
+      expect(mainnet.asset.get.firstCall.args).to.deep.equal([
+        "did:dkg:otp:20430/0xabc/1",
+        { state: 2 },
+      ]);
+    });
+
+    it("should use the default network for other UALs", async () => {
+      const result = await networkClient.callTool({
+        name: "dkg-get",
+        arguments: { ual: "did:dkg:otp:20430/0xabc/1" },
+      });
+
+      expect(mainnet.asset.get.called).to.equal(false);
+      expect((result.content as any[])[0].text).to.include("Test Asset");
+    });
+
+    it("should publish on the given network", async () => {
+      const result = await networkClient.callTool({
+        name: "dkg-create",
+        arguments: { jsonld: JSON.stringify(thing), network: "mainnet" },
+      });
+
+      const text = (result.content as any[])[0].text;
+      expect(mainnet.asset.create.calledOnce).to.equal(true);
+      expect(text).to.include("Network: mainnet");
+      expect(text).to.include(
+        `DKG Explorer link: https://explorer.example/?ual=${mainnetUal}`,
+      );
+    });
+
+    it("should query the given network", async () => {
+      await networkClient.callTool({
+        name: "dkg-sparql-query",
+        arguments: {
+          query: "SELECT ?s WHERE { ?s ?p ?o }",
+          network: "mainnet",
+        },
+      });
+
+      expect(mainnet.graph.query.calledOnce).to.equal(true);
+    });
+
+    it("should reject networks that are not configured", async () => {
+      const result = await networkClient.callTool({
+        name: "dkg-get",
+        arguments: { ual: mainnetUal, network: "hardhat" },
+      });
+
+      expect(result.isError).to.equal(true);
+      expect((result.content as any[])[0].text).to.include(
+        'Network "hardhat" is not configured. Configured networks: testnet, mainnet.',
+      );
+    });
+  });
+
   describe("Asset Creation Options", () => {
     it("should call asset.create with correct options", async () => {
       const spy = sinon.spy(mockDkgContext.dkg.asset, "create");
 
-      const testJsonLd = JSON.stringify({ "@type": "Thing" });
+      const testJsonLd = JSON.stringify(thing);
       await mockMcpClient.callTool({
         name: "dkg-create",
         arguments: { jsonld: testJsonLd, privacy: "private" },
@@ -565,27 +1277,210 @@ describe("@dkg/plugin-dkg-essentials checks", () => {
 
       expect(spy.calledOnce).to.be.true;
       const [data, options] = spy.firstCall.args as unknown as [any, any];
-      expect(data).to.deep.equal({ private: { "@type": "Thing" } });
+      expect(data).to.deep.equal({ public: "", private: thingNQuads });
       expect(options).to.deep.equal({
         epochsNum: 2,
         minimumNumberOfFinalizationConfirmations: 3,
         minimumNumberOfNodeReplications: 1,
+        immutable: false,
       });
 
       spy.restore();
     });
 
+    it("should publish with the given options", async () => {
+      const spy = sinon.spy(mockDkgContext.dkg.asset, "create");
+      try {
+        await mockMcpClient.callTool({
+          name: "dkg-create",
+          arguments: {
+            jsonld: JSON.stringify(thing),
+            epochs: 12,
+            finalizationConfirmations: 0,
+            replications: 5,
+            immutable: true,
+          },
+        });
+
+        const [, options] = spy.firstCall.args as unknown as [any, any];
+        expect(options).to.deep.equal({
+          epochsNum: 12,
+          minimumNumberOfFinalizationConfirmations: 0,
+          minimumNumberOfNodeReplications: 5,
+          immutable: true,
+        });
+      } finally {
+        spy.restore();
+      }
+    });
+
+    it("should reject options out of their ranges", async () => {
+      const spy = sinon.spy(mockDkgContext.dkg.asset, "create");
+      try {
+        for (const options of [
+          { epochs: 0 },
+          { epochs: 1.5 },
+          { finalizationConfirmations: -1 },
+          { replications: 21 },
+          { maxTokenAmount: "1.5" },
+        ]) {
+          const error = await mockMcpClient
+            .callTool({
+              name: "dkg-create",
+              arguments: { jsonld: JSON.stringify(thing), ...options },
+            })
+            .catch((error: Error) => error);
+          expect(error).to.be.instanceOf(Error);
+          expect((error as Error).message).to.include(Object.keys(options)[0]);
+        }
+        expect(spy.called).to.equal(false);
+      } finally {
+        spy.restore();
+      }
+    });
+
+    it("should not publish if the estimated bid exceeds the maximum", async () => {
+      const spy = sinon.spy(mockDkgContext.dkg.asset, "create");
+      try {
+        // Public thing is 96 bytes, so 2 epochs cost 0.1875 TRAC
+        const result = await mockMcpClient.callTool({
+          name: "dkg-create",
+          arguments: {
+            jsonld: JSON.stringify(thing),
+            privacy: "public",
+            maxTokenAmount: "100000000000000000",
+          },
+        });
+
+        expect(result.isError).to.equal(true);
+        expect((result.content as any[])[0].text).to.include(
+          "Estimated TRAC bid of 187500000000000000 wei exceeds the maximum of 100000000000000000 wei",
+        );
+        expect(spy.called).to.equal(false);
+      } finally {
+        spy.restore();
+      }
+    });
+
+    it("should fix the bid to the estimate within the maximum", async () => {
+      const spy = sinon.spy(mockDkgContext.dkg.asset, "create");
+      try {
+        await mockMcpClient.callTool({
+          name: "dkg-create",
+          arguments: {
+            jsonld: JSON.stringify(thing),
+            privacy: "public",
+            maxTokenAmount: "200000000000000000",
+          },
+        });
+
+        const [, options] = spy.firstCall.args as unknown as [any, any];
+        expect(options.tokenAmount).to.equal("187500000000000000");
+      } finally {
+        spy.restore();
+      }
+    });
+
+    it("should return the structured publish result", async () => {
+      const result = await mockMcpClient.callTool({
+        name: "dkg-create",
+        arguments: { jsonld: JSON.stringify(thing) },
+      });
+
+      const content = result.content as any[];
+      expect(content[0].text).to.include("Transaction hash: 0xtransaction");
+      expect(content[0].text).to.include(
+        "Finality: FINALIZED (3 of 3 confirmations)",
+      );
+      expect(JSON.parse(content[1].text)).to.deep.equal({
+        ual: "did:dkg:otp:20430/0x123456/12345",
+        transactionHash: "0xtransaction",
+        operations: {
+          publish: { operationId: "operation-1", status: "COMPLETED" },
+          mintKnowledgeCollection: { status: "COMPLETED", blockNumber: 100 },
+          finality: {
+            status: "FINALIZED",
+            confirmations: 3,
+            requiredConfirmations: 3,
+          },
+        },
+        error: null,
+      });
+    });
+
+    it("should fail if the nodes did not store the assertion", async () => {
+      const create = sinon.stub(mockDkgContext.dkg.asset, "create").resolves({
+        datasetRoot: "0xroot",
+        operation: {
+          publish: {
+            operationId: "operation-1",
+            status: "FAILED",
+            errorType: "PublishError",
+            errorMessage: "Not enough nodes",
+          },
+        },
+      });
+      try {
+        const result = await mockMcpClient.callTool({
+          name: "dkg-create",
+          arguments: { jsonld: JSON.stringify(thing) },
+        });
+
+        expect(result.isError).to.equal(true);
+        expect((result.content as any[])[0].text).to.include(
+          "Failed to create asset: Not enough nodes",
+        );
+      } finally {
+        create.restore();
+      }
+    });
+
+    it("should publish with the node's defaults", async () => {
+      const spy = sinon.spy(mockDkgContext.dkg.asset, "create");
+      try {
+        const dkgAssets = createDkgAssets(mockDkgContext, undefined, {
+          epochs: 6,
+          replications: 3,
+        });
+        await dkgAssets.create(JSON.stringify(thing), "public", {
+          epochs: 4,
+        });
+
+        const [, options] = spy.firstCall.args as unknown as [any, any];
+        expect(options).to.deep.equal({
+          epochsNum: 4,
+          minimumNumberOfFinalizationConfirmations: 3,
+          minimumNumberOfNodeReplications: 3,
+          immutable: false,
+        });
+      } finally {
+        spy.restore();
+      }
+    });
+
+    it("should return invalid options of direct calls as errors", async () => {
+      const dkgAssets = createDkgAssets(mockDkgContext);
+      const result = await dkgAssets.create(JSON.stringify(thing), "public", {
+        replications: 0,
+      });
+
+      expect(result.ual).to.equal(null);
+      expect(result.error).to.equal(
+        "replications must be an integer from 1 to 20",
+      );
+    });
+
     it("should wrap data correctly for public privacy", async () => {
       const spy = sinon.spy(mockDkgContext.dkg.asset, "create");
 
-      const testJsonLd = JSON.stringify({ "@type": "Thing" });
+      const testJsonLd = JSON.stringify(thing);
       await mockMcpClient.callTool({
         name: "dkg-create",
         arguments: { jsonld: testJsonLd, privacy: "public" },
       });
 
       const [data] = spy.firstCall.args as unknown as [any];
-      expect(data).to.deep.equal({ public: { "@type": "Thing" } });
+      expect(data).to.deep.equal({ public: thingNQuads });
 
       spy.restore();
     });
@@ -637,7 +1532,7 @@ describe("@dkg/plugin-dkg-essentials checks", () => {
     });
 
     it("should log formatted response on successful asset creation", async () => {
-      const testJsonLd = JSON.stringify({ "@type": "Thing" });
+      const testJsonLd = JSON.stringify(thing);
       await mockMcpClient.callTool({
         name: "dkg-create",
         arguments: { jsonld: testJsonLd },
@@ -747,14 +1642,14 @@ describe("@dkg/plugin-dkg-essentials checks", () => {
     it("should handle empty privacy string as private", async () => {
       const spy = sinon.spy(mockDkgContext.dkg.asset, "create");
 
-      const testJsonLd = JSON.stringify({ "@type": "Thing" });
+      const testJsonLd = JSON.stringify(thing);
       await mockMcpClient.callTool({
         name: "dkg-create",
         arguments: { jsonld: testJsonLd, privacy: undefined },
       });
 
       const [data] = spy.firstCall.args as unknown as [any];
-      expect(data).to.deep.equal({ private: { "@type": "Thing" } });
+      expect(data).to.deep.equal({ public: "", private: thingNQuads });
 
       spy.restore();
     });
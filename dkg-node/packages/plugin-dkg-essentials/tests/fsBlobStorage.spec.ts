@@ -0,0 +1,414 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import { describe, it, beforeEach, afterEach } from "mocha";
+import { expect } from "chai";
+import { createHash } from "crypto";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { Readable } from "stream";
+import consumers from "stream/consumers";
+import createFsBlobStorage from "../dist/createFsBlobStorage.js";
+import { createDkgAssets } from "../dist/dkgAssets.js";
+import { BlobQuotaExceededError } from "@dkg/plugins/helpers";
+
+const toStream = (content: string) =>
+  Readable.toWeb(Readable.from([Buffer.from(content)])) as any;
+
+describe("@dkg/plugin-dkg-essentials fs blob storage", () => {
+  let directory: string;
+  let storage: ReturnType<typeof createFsBlobStorage>;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), "dkg-blobs-"));
+    storage = createFsBlobStorage(directory);
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+    fs.rmSync(`${directory}.metadata`, { recursive: true, force: true });
+  });
+
+  it("should persist the mime type sent on upload", async () => {
+    const { id } = await storage.create(toStream("{}"), {
+      name: "data.txt",
+      mimeType: "application/json",
+    });
+
+    const info = await storage.info(id);
+
+    expect(info?.mimeType).to.equal("application/json");
+    expect(info?.name).to.equal("data.txt");
+    expect(info?.size).to.equal(2);
+  });
+
+  it("should round-trip custom metadata", async () => {
+    const { id } = await storage.create(toStream("Hello"), {
+      name: "hello.txt",
+      userId: "7",
+      sourceUrl: "https://example.com/hello.txt",
+      checksum: "sha256-abc",
+    });
+
+    const blob = await storage.get(id);
+
+    expect(await consumers.text(blob!.data as any)).to.equal("Hello");
+    expect(blob!.metadata).to.include({
+      name: "hello.txt",
+      userId: "7",
+      sourceUrl: "https://example.com/hello.txt",
+      checksum: "sha256-abc",
+    });
+  });
+
+  it("should keep metadata across storage instances", async () => {
+    const { id } = await storage.create(toStream("Hello"), {
+      name: "hello.txt",
+      userId: "7",
+    });
+
+    const info = await createFsBlobStorage(directory).info(id);
+
+    expect(info?.userId).to.equal("7");
+  });
+
+  it("should replace metadata when a blob is overwritten", async () => {
+    const { id } = await storage.create(toStream("Hello"), {
+      name: "hello.txt",
+      userId: "7",
+    });
+
+    await storage.put(id, toStream("Bye"), { name: "hello.txt" });
+
+    const info = await storage.info(id);
+    expect(info?.userId).to.equal(undefined);
+    expect(info?.size).to.equal(3);
+  });
+
+  it("should fall back to the file name for blobs without metadata", async () => {
+    const id = "b931b43f-76be-4289-a44e-bbc87286bd2e_legacy.txt";
+    fs.writeFileSync(path.join(directory, id), "Legacy");
+
+    const info = await storage.info(id);
+
+    expect(info?.name).to.equal("legacy.txt");
+    expect(info?.mimeType).to.equal("text/plain");
+  });
+
+  it("should delete metadata together with the blob", async () => {
+    const { id } = await storage.create(toStream("Hello"), {
+      name: "hello.txt",
+    });
+
+    await storage.delete(id);
+
+    expect(await storage.info(id)).to.equal(null);
+    expect(fs.readdirSync(`${directory}.metadata`)).to.deep.equal([]);
+  });
+
+  it("should not resolve blob IDs outside of the blobs directory", async () => {
+    const { id } = await storage.create(toStream("Secret"), {
+      name: "secret.txt",
+      owner: "1",
+    });
+    const metadataId = `../${path.basename(directory)}.metadata/${id}.json`;
+
+    expect(await storage.info(metadataId)).to.equal(null);
+    expect(await storage.info("..")).to.equal(null);
+    for (const invalidId of [metadataId, "../escaped.txt", "a/b.txt", ".."]) {
+      await storage.put(invalidId, toStream("Attack"), { name: "a" }).then(
+        () => expect.fail(`Should reject ${invalidId}`),
+        (error: Error) => expect(error.message).to.include("Invalid blob ID"),
+      );
+    }
+    expect((await storage.info(id))?.owner).to.equal("1");
+    expect(fs.existsSync(path.join(os.tmpdir(), "escaped.txt"))).to.equal(
+      false,
+    );
+  });
+
+  it("should replace path separators in the names of created blobs", async () => {
+    const { id } = await storage.create(toStream("Hello"), {
+      name: "../hello.txt",
+    });
+
+    expect(id).to.match(/_\.\._hello\.txt$/);
+    expect(fs.readdirSync(directory)).to.deep.equal([id]);
+  });
+
+  it("should move metadata out of the legacy subdirectory", async () => {
+    const id = "b931b43f-76be-4289-a44e-bbc87286bd2e_legacy.txt";
+    const legacyDirectory = fs.mkdtempSync(
+      path.join(os.tmpdir(), "dkg-blobs-"),
+    );
+    fs.mkdirSync(path.join(legacyDirectory, ".metadata"));
+    fs.writeFileSync(path.join(legacyDirectory, id), "Legacy");
+    fs.writeFileSync(
+      path.join(legacyDirectory, ".metadata", `${id}.json`),
+      JSON.stringify({ owner: "7" }),
+    );
+
+    try {
+      const info = await createFsBlobStorage(legacyDirectory).info(id);
+
+      expect(info?.owner).to.equal("7");
+      expect(fs.readdirSync(legacyDirectory)).to.deep.equal([id]);
+    } finally {
+      fs.rmSync(legacyDirectory, { recursive: true, force: true });
+      fs.rmSync(`${legacyDirectory}.metadata`, {
+        recursive: true,
+        force: true,
+      });
+    }
+  });
+
+  it("should list blobs without the metadata directory", async () => {
+    const { id: first } = await storage.create(toStream("1"), {
+      name: "first.txt",
+      owner: "1",
+    });
+    const { id: second } = await storage.create(toStream("2"), {
+      name: "second.txt",
+      owner: "2",
+    });
+
+    const all = await storage.list();
+    const owned = await storage.list({ owner: "2" });
+
+    expect(all.blobs.map((b) => b.id)).to.deep.equal([first, second].sort());
+    expect(owned.blobs.map((b) => b.id)).to.deep.equal([second]);
+  });
+});
+
+describe("@dkg/plugin-dkg-essentials content-addressed fs blob storage", () => {
+  let directory: string;
+  let storage: ReturnType<typeof createFsBlobStorage>;
+
+  const sha256 = (content: string) =>
+    createHash("sha256").update(content).digest("hex");
+  const contentFiles = () =>
+    fs.readdirSync(directory).filter((file) => file.startsWith("sha256-"));
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), "dkg-blobs-"));
+    storage = createFsBlobStorage(directory, { contentAddressed: true });
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+    fs.rmSync(`${directory}.metadata`, { recursive: true, force: true });
+  });
+
+  it("should store identical content only once", async () => {
+    const { id: first } = await storage.create(toStream("Dataset"), {
+      name: "first.csv",
+    });
+    const { id: second } = await storage.create(toStream("Dataset"), {
+      name: "second.csv",
+    });
+
+    expect(contentFiles()).to.deep.equal([`sha256-${sha256("Dataset")}`]);
+    expect(await storage.info(first)).to.include({
+      name: "first.csv",
+      size: 7,
+      digest: sha256("Dataset"),
+    });
+    expect(
+      await consumers.text((await storage.get(second))!.data as any),
+    ).to.equal("Dataset");
+  });
+
+  it("should count references of concurrent uploads", async () => {
+    const [{ id: first }, { id: second }] = await Promise.all([
+      storage.create(toStream("Dataset"), { name: "first.csv" }),
+      storage.create(toStream("Dataset"), { name: "second.csv" }),
+    ]);
+
+    await storage.delete(first);
+    expect(contentFiles()).to.have.length(1);
+    expect(await storage.exists(second)).to.equal(true);
+
+    await storage.delete(second);
+    expect(contentFiles()).to.deep.equal([]);
+  });
+
+  it("should release the previous content when a blob is overwritten", async () => {
+    const { id } = await storage.create(toStream("Old"), { name: "data.txt" });
+
+    await storage.put(id, toStream("New"), { name: "data.txt" });
+
+    expect(contentFiles()).to.deep.equal([`sha256-${sha256("New")}`]);
+    expect((await storage.info(id))?.digest).to.equal(sha256("New"));
+  });
+
+  it("should not list stored contents", async () => {
+    const { id } = await storage.create(toStream("Dataset"), {
+      name: "data.csv",
+    });
+
+    const { blobs } = await storage.list();
+
+    expect(blobs.map((b) => b.id)).to.deep.equal([id]);
+  });
+
+  it("should not find stored contents by their IDs", async () => {
+    const { id } = await storage.create(toStream("Dataset"), {
+      name: "data.csv",
+    });
+    const content = `sha256-${sha256("Dataset")}`;
+
+    expect(await storage.info(content)).to.equal(null);
+    expect(await storage.get(content)).to.equal(null);
+    await storage.put(content, toStream("Other"), { name: "data.csv" }).then(
+      () => expect.fail("Should have thrown an error"),
+      (error: Error) => expect(error.message).to.include("Invalid blob ID"),
+    );
+    await storage.delete(content);
+
+    expect(contentFiles()).to.deep.equal([content]);
+    expect(await consumers.text((await storage.get(id))!.data as any)).to.equal(
+      "Dataset",
+    );
+  });
+
+  it("should detect corrupted content before publishing", async () => {
+    const { id } = await storage.create(toStream('{"@id":"a"}'), {
+      name: "asset.json",
+    });
+    const dkgAssets = createDkgAssets({ dkg: {} as any, blob: storage });
+
+    expect(await dkgAssets.resolveContent(id, "internal")).to.equal(
+      '{"@id":"a"}',
+    );
+
+    fs.writeFileSync(path.join(directory, contentFiles()[0]!), '{"@id":"b"}');
+    try {
+      await dkgAssets.resolveContent(id, "internal");
+      expect.fail("Should have thrown an error");
+    } catch (error) {
+      expect((error as Error).message).to.include("corrupted");
+    }
+  });
+});
+
+describe("@dkg/plugin-dkg-essentials fs blob storage retention and quotas", () => {
+  let directory: string;
+
+  const expectQuotaExceeded = async (promise: Promise<unknown>) => {
+    try {
+      await promise;
+      expect.fail("Should have thrown an error");
+    } catch (error) {
+      expect(error).to.be.instanceOf(BlobQuotaExceededError);
+    }
+  };
+  const setModified = (id: string, date: Date) =>
+    fs.utimesSync(path.join(directory, id), date, date);
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), "dkg-blobs-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+    fs.rmSync(`${directory}.metadata`, { recursive: true, force: true });
+  });
+
+  it("should compute the usage of each owner", async () => {
+    const storage = createFsBlobStorage(directory);
+    await storage.create(toStream("Hello"), { name: "a.txt", owner: "1" });
+    await storage.create(toStream("World!"), { name: "b.txt", owner: "1" });
+    await storage.create(toStream("Other"), { name: "c.txt", owner: "2" });
+
+    expect(await storage.usage("1")).to.equal(11);
+    expect(await storage.usage("3")).to.equal(0);
+  });
+
+  it("should reject uploads over the quota and remove partial blobs", async () => {
+    const storage = createFsBlobStorage(directory, { quota: 10 });
+    await storage.create(toStream("Hello"), { name: "a.txt", owner: "1" });
+
+    await expectQuotaExceeded(
+      storage.create(toStream("World!"), { name: "b.txt", owner: "1" }),
+    );
+
+    const { blobs } = await storage.list();
+    expect(blobs.map((b) => b.name)).to.deep.equal(["a.txt"]);
+  });
+
+  it("should not count overwritten content against the quota", async () => {
+    const storage = createFsBlobStorage(directory, { quota: 10 });
+    const { id } = await storage.create(toStream("Hello"), {
+      name: "a.txt",
+      owner: "1",
+    });
+
+    await storage.put(id, toStream("HelloWorld"), {
+      name: "a.txt",
+      owner: "1",
+    });
+
+    expect(await storage.usage("1")).to.equal(10);
+  });
+
+  it("should not limit blobs without an owner", async () => {
+    const storage = createFsBlobStorage(directory, { quota: 1 });
+
+    await storage.create(toStream("Hello"), { name: "a.txt" });
+  });
+
+  it("should delete blobs after their expiration", async () => {
+    const storage = createFsBlobStorage(directory);
+    const { id: expired } = await storage.create(toStream("Old"), {
+      name: "old.txt",
+      expiresAt: new Date(Date.now() - 1000).toISOString(),
+    });
+    const { id: kept } = await storage.create(toStream("New"), {
+      name: "new.txt",
+      expiresAt: new Date(Date.now() + 60_000).toISOString(),
+    });
+
+    expect(await storage.sweep()).to.deep.equal([expired]);
+    expect(await storage.exists(expired)).to.equal(false);
+    expect(await storage.exists(kept)).to.equal(true);
+  });
+
+  it("should delete blobs according to the retention policy", async () => {
+    const storage = createFsBlobStorage(directory, {
+      retention: { ttl: 60_000, ttlByMimeType: { "image/*": 1000 } },
+    });
+    const { id: image } = await storage.create(toStream("PNG"), {
+      name: "image.png",
+      mimeType: "image/png",
+    });
+    const { id: text } = await storage.create(toStream("Text"), {
+      name: "text.txt",
+      mimeType: "text/plain",
+    });
+    const { id: old } = await storage.create(toStream("Old"), {
+      name: "old.txt",
+      mimeType: "text/plain",
+    });
+    const fiveSecondsAgo = new Date(Date.now() - 5000);
+    setModified(image, fiveSecondsAgo);
+    setModified(text, fiveSecondsAgo);
+    setModified(old, new Date(Date.now() - 120_000));
+
+    const deleted = await storage.sweep();
+
+    expect(deleted.sort()).to.deep.equal([image, old].sort());
+    expect(await storage.exists(text)).to.equal(true);
+  });
+
+  it("should release contents of expired content-addressed blobs", async () => {
+    const storage = createFsBlobStorage(directory, {
+      contentAddressed: true,
+      retention: { ttl: 0 },
+    });
+    await storage.create(toStream("Dataset"), { name: "data.csv" });
+
+    await storage.sweep();
+
+    expect(fs.readdirSync(directory)).to.deep.equal([]);
+  });
+});
@@ -0,0 +1,96 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import { describe, it, beforeEach, afterEach } from "mocha";
+import { expect } from "chai";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import jsonldPlugin from "../dist/plugins/jsonld.js";
+import { createJsonLdLoader } from "@dkg/jsonld-loader";
+import {
+  createExpressApp,
+  createInMemoryBlobStorage,
+  createMcpServerClientPair,
+  createMockDkgClient,
+} from "@dkg/plugins/testing";
+import express from "express";
+import request from "supertest";
+
+const customUrl = "https://example.org/context.jsonld";
+const customContext = { "@context": { "@vocab": "https://example.org/" } };
+
+describe("@dkg/plugin-dkg-essentials JSON-LD checks", () => {
+  let directory: string;
+  let app: express.Application;
+
+  beforeEach(async () => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), "dkg-jsonld-"));
+    const jsonldLoader = createJsonLdLoader({
+      cacheDir: directory,
+      fetch: false,
+    });
+    // Provided by the essentials plugin when it runs in the server
+    const services = {
+      has: (name: string) => name === "jsonldLoader",
+      use: () => jsonldLoader,
+      provide: () => {},
+    };
+
+    const { server } = await createMcpServerClientPair();
+    const apiRouter = express.Router();
+    app = createExpressApp();
+
+    jsonldPlugin(
+      {
+        dkg: createMockDkgClient(),
+        blob: createInMemoryBlobStorage(),
+        services: services as any,
+      },
+      server,
+      apiRouter,
+    );
+    app.use("/", apiRouter);
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it("should list the bundled contexts", async () => {
+    const response = await request(app).get("/jsonld/contexts").expect(200);
+
+    expect(response.body.contexts).to.deep.include({
+      url: "https://schema.org",
+      source: "bundled",
+      version: "1.1.0",
+    });
+    expect(response.body.contexts).to.deep.include({
+      url: "https://ontology.origintrail.io/dkg/1.0",
+      source: "bundled",
+      version: "1.0",
+    });
+  });
+
+  it("should register custom contexts", async () => {
+    const response = await request(app)
+      .post("/jsonld/contexts")
+      .send({ url: customUrl, document: customContext })
+      .expect(201);
+
+    expect(response.body).to.deep.equal({ url: customUrl });
+
+    const { body } = await request(app).get("/jsonld/contexts").expect(200);
+    expect(body.contexts).to.deep.include({
+      url: customUrl,
+      source: "registered",
+    });
+    expect(fs.readdirSync(directory)).to.have.length(1);
+  });
+
+  it("should reject documents without a @context", async () => {
+    await request(app)
+      .post("/jsonld/contexts")
+      .send({ url: customUrl, document: { "@vocab": "https://example.org/" } })
+      .expect(400);
+  });
+});
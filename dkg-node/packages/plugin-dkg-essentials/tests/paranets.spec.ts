@@ -0,0 +1,277 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import { describe, it, beforeEach, afterEach } from "mocha";
+import { expect } from "chai";
+import sinon from "sinon";
+import paranetsPlugin from "../dist/plugins/paranets.js";
+import { provideEssentialsServices } from "../dist/index.js";
+import { createServiceRegistry, type DkgServices } from "@dkg/plugins";
+import {
+  createExpressApp,
+  createInMemoryBlobStorage,
+  createMcpServerClientPair,
+  createMockDkgClient,
+} from "@dkg/plugins/testing";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import express from "express";
+import request from "supertest";
+
+// Mock DKG context, with the services that the essentials plugin provides
+const mockDkgContext = {
+  dkg: createMockDkgClient(),
+  blob: createInMemoryBlobStorage(),
+  services: createServiceRegistry<DkgServices>(),
+};
+provideEssentialsServices(mockDkgContext);
+
+const paranetUAL = "did:dkg:otp:20430/0x123456/100/1";
+const kcUAL = "did:dkg:otp:20430/0x123456/200";
+
+describe("@dkg/plugin-dkg-essentials paranets checks", () => {
+  let mockMcpServer: McpServer;
+  let mockMcpClient: Client;
+  let apiRouter: express.Router;
+  let app: express.Application;
+
+  const textOf = (result: any) =>
+    (result.content as any[]).map((c) => c.text).join("\n");
+
+  beforeEach(async () => {
+    const { server, client, connect } = await createMcpServerClientPair();
+    mockMcpServer = server;
+    mockMcpClient = client;
+    apiRouter = express.Router();
+
+    // Setup Express app
+    app = createExpressApp();
+
+    // Initialize plugin
+    paranetsPlugin(mockDkgContext, mockMcpServer, apiRouter);
+    await connect();
+
+    // Mount the router
+    app.use("/", apiRouter);
+  });
+
+  afterEach(() => {
+    sinon.restore();
+  });
+
+  describe("MCP Tool Registration", () => {
+    it("should register the paranet tools", async () => {
+      const tools = await mockMcpClient.listTools().then((t) => t.tools);
+
+      expect(tools.map((t) => t.name)).to.deep.equal([
+        "dkg-paranet-create",
+        "dkg-paranet-submit",
+        "dkg-paranet-review",
+        "dkg-paranet-collections",
+      ]);
+    });
+
+    it("should only list collections without the dkg:publish scope", async () => {
+      const { server, client, connect } = await createMcpServerClientPair({
+        token: "token",
+        clientId: "client",
+        scopes: ["mcp"],
+      });
+      paranetsPlugin(mockDkgContext, server, express.Router());
+      await connect();
+
+      const tools = await client.listTools().then((t) => t.tools);
+
+      expect(tools.map((t) => t.name)).to.deep.equal([
+        "dkg-paranet-collections",
+      ]);
+    });
+  });
+
+  describe("Paranet Tools Functionality", () => {
+    it("should create a paranet with the given policies", async () => {
+      const create = sinon.spy(mockDkgContext.dkg.paranet, "create");
+
+      const result = await mockMcpClient.callTool({
+        name: "dkg-paranet-create",
+        arguments: {
+          ual: paranetUAL,
+          name: "Supply chain",
+          submissionPolicy: "staging",
+        },
+      });
+
+      expect(create.firstCall.args).to.deep.equal([
+        paranetUAL,
+        {
+          paranetName: "Supply chain",
+          paranetDescription: "",
+          paranetNodesAccessPolicy: 0,
+          paranetMinersAccessPolicy: 0,
+          paranetKcSubmissionPolicy: 1,
+        },
+      ]);
+      expect(textOf(result)).to.include(`Paranet UAL: ${paranetUAL}`);
+    });
+
+    it("should submit Knowledge Collections to open paranets", async () => {
+      const submit = sinon.spy(mockDkgContext.dkg.asset, "submitToParanet");
+      const stage = sinon.spy(
+        mockDkgContext.dkg.paranet,
+        "stageKnowledgeCollection",
+      );
+
+      const result = await mockMcpClient.callTool({
+        name: "dkg-paranet-submit",
+        arguments: { ual: kcUAL, paranetUAL },
+      });
+
+      expect(submit.firstCall.args).to.deep.equal([kcUAL, paranetUAL]);
+      expect(stage.called).to.equal(false);
+      expect(textOf(result)).to.include("added to paranet");
+    });
+
+    it("should stage Knowledge Collections for review", async () => {
+      const stage = sinon.spy(
+        mockDkgContext.dkg.paranet,
+        "stageKnowledgeCollection",
+      );
+      const review = sinon.spy(
+        mockDkgContext.dkg.paranet,
+        "reviewKnowledgeCollection",
+      );
+
+      await mockMcpClient.callTool({
+        name: "dkg-paranet-submit",
+        arguments: { ual: kcUAL, paranetUAL, staging: true },
+      });
+      await mockMcpClient.callTool({
+        name: "dkg-paranet-review",
+        arguments: { ual: kcUAL, paranetUAL, accepted: true },
+      });
+
+      expect(stage.firstCall.args).to.deep.equal([kcUAL, paranetUAL]);
+      expect(review.firstCall.args).to.deep.equal([kcUAL, paranetUAL, true]);
+    });
+
+    it("should list the Knowledge Collections of a paranet", async () => {
+      const graphQuery = sinon
+        .stub(mockDkgContext.dkg.graph, "query")
+        .resolves({
+          data: [
+            { g: `${kcUAL}/1/public` },
+            { g: `${kcUAL}/2/public` },
+            { g: "did:dkg:otp:20430/0x123456/300/1/private" },
+            { g: "urn:other:graph" },
+          ],
+        } as any);
+
+      const result = await mockMcpClient.callTool({
+        name: "dkg-paranet-collections",
+        arguments: { paranetUAL },
+      });
+
+      expect(graphQuery.firstCall.args[2]).to.deep.equal({ paranetUAL });
+      expect(textOf(result).split("\n")).to.have.length(2);
+      expect(textOf(result)).to.include(kcUAL);
+      expect(textOf(result)).to.include("did:dkg:otp:20430/0x123456/300");
+    });
+  });
+
+  describe("Paranet API Routes", () => {
+    it("should create a paranet", async () => {
+      const response = await request(app)
+        .post("/paranet")
+        .send({ ual: paranetUAL, name: "Supply chain" })
+        .expect(201);
+
+      expect(response.body).to.deep.equal({ paranetUAL });
+    });
+
+    it("should stage Knowledge Collections", async () => {
+      const response = await request(app)
+        .post("/paranet/collections")
+        .send({ ual: kcUAL, paranetUAL, staging: true })
+        .expect(200);
+
+      expect(response.body).to.deep.equal({
+        ual: kcUAL,
+        paranetUAL,
+        staged: true,
+      });
+    });
+
+    it("should list the Knowledge Collections with a limit", async () => {
+      sinon.stub(mockDkgContext.dkg.graph, "query").resolves({
+        data: [{ g: `${kcUAL}/1` }, { g: "did:dkg:otp:20430/0x123456/300/1" }],
+      } as any);
+
+      const response = await request(app)
+        .get("/paranet/collections")
+        .query({ paranetUAL, limit: 1 })
+        .expect(200);
+
+      expect(response.body).to.deep.equal({ collections: [kcUAL] });
+    });
+
+    it("should run queries scoped to the paranet", async () => {
+      const graphQuery = sinon
+        .stub(mockDkgContext.dkg.graph, "query")
+        .resolves({ data: [{ s: "urn:a" }] } as any);
+
+      const response = await request(app)
+        .post("/paranet/query")
+        .send({ paranetUAL, query: "ASK { ?s ?p ?o }" })
+        .expect(200);
+
+      expect(graphQuery.firstCall.args[2]).to.deep.equal({ paranetUAL });
+      expect(response.body).to.deep.equal({ type: "ASK", answer: true });
+    });
+
+    it("should reject SPARQL updates", async () => {
+      await request(app)
+        .post("/paranet/query")
+        .send({ paranetUAL, query: "INSERT DATA { <urn:a> <urn:b> <urn:c> }" })
+        .expect(400);
+    });
+
+    it("should reject invalid queries", async () => {
+      const response = await request(app)
+        .post("/paranet/query")
+        .send({ paranetUAL, query: "SELECT ?s WHERE {" })
+        .expect(400);
+
+      expect(response.body.error).to.include("line 1");
+    });
+
+    it("should report DKG errors", async () => {
+      sinon
+        .stub(mockDkgContext.dkg.asset, "submitToParanet")
+        .rejects(new Error("Not a paranet"));
+
+      const response = await request(app)
+        .post("/paranet/collections")
+        .send({ ual: kcUAL, paranetUAL })
+        .expect(500);
+
+      expect(response.body.error).to.include("Not a paranet");
+    });
+
+    it("should use services provided after the routes are registered", async () => {
+      // Like in the server, where the routes are registered before setup
+      const ctx = {
+        ...mockDkgContext,
+        services: createServiceRegistry<DkgServices>(),
+      };
+      const router = express.Router();
+      paranetsPlugin.registerApi!(ctx as any, router);
+      provideEssentialsServices(ctx);
+
+      const response = await request(createExpressApp().use("/", router))
+        .post("/paranet")
+        .send({ ual: paranetUAL, name: "Supply chain" })
+        .expect(201);
+
+      expect(response.body).to.deep.equal({ paranetUAL });
+    });
+  });
+});
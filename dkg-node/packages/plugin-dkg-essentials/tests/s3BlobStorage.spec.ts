@@ -0,0 +1,312 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import { describe, it, beforeEach } from "mocha";
+import { expect } from "chai";
+import { Readable } from "stream";
+import consumers from "stream/consumers";
+import {
+  AbortMultipartUploadCommand,
+  CompleteMultipartUploadCommand,
+  CopyObjectCommand,
+  CreateMultipartUploadCommand,
+  DeleteObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  ListObjectsV2Command,
+  PutObjectCommand,
+  UploadPartCommand,
+} from "@aws-sdk/client-s3";
+import createS3BlobStorage from "../dist/createS3BlobStorage.js";
+
+const PART_SIZE = 5 * 1024 * 1024;
+
+// In-process S3 mock, supporting only the commands used by the storage
+const createS3Mock = () => {
+  type S3Object = {
+    body: Buffer;
+    contentType?: string;
+    metadata?: Record<string, string>;
+  };
+  const objects = new Map<string, S3Object>();
+  const uploads = new Map<
+    string,
+    { parts: Map<number, Buffer> } & Omit<S3Object, "body">
+  >();
+  const commands: string[] = [];
+  const notFound = () =>
+    Object.assign(new Error("Not found"), {
+      name: "NotFound",
+      $metadata: { httpStatusCode: 404 },
+    });
+
+  const send = async (command: any): Promise<any> => {
+    const input = command.input;
+    commands.push(command.constructor.name);
+
+    if (command instanceof PutObjectCommand) {
+      objects.set(input.Key, {
+        body: Buffer.from(input.Body),
+        contentType: input.ContentType,
+        metadata: input.Metadata,
+      });
+      return {};
+    }
+    if (command instanceof HeadObjectCommand) {
+      const object = objects.get(input.Key);
+      if (!object) throw notFound();
+      return {
+        ContentLength: object.body.byteLength,
+        ContentType: object.contentType,
+        Metadata: object.metadata,
+        LastModified: new Date(),
+      };
+    }
+    if (command instanceof GetObjectCommand) {
+      const object = objects.get(input.Key);
+      if (!object) throw notFound();
+      return {
+        Body: {
+          transformToWebStream: () =>
+            Readable.toWeb(Readable.from([object.body])),
+        },
+      };
+    }
+    if (command instanceof DeleteObjectCommand) {
+      objects.delete(input.Key);
+      return {};
+    }
+    if (command instanceof CreateMultipartUploadCommand) {
+      const uploadId = `upload-${uploads.size + 1}`;
+      uploads.set(uploadId, {
+        parts: new Map(),
+        contentType: input.ContentType,
+        metadata: input.Metadata,
+      });
+      return { UploadId: uploadId };
+    }
+    if (command instanceof UploadPartCommand) {
+      uploads.get(input.UploadId)!.parts.set(input.PartNumber, input.Body);
+      return { ETag: `etag-${input.PartNumber}` };
+    }
+    if (command instanceof CompleteMultipartUploadCommand) {
+      const { parts, ...upload } = uploads.get(input.UploadId)!;
+      objects.set(input.Key, {
+        ...upload,
+        body: Buffer.concat(
+          input.MultipartUpload.Parts.map((p: any) => parts.get(p.PartNumber)),
+        ),
+      });
+      uploads.delete(input.UploadId);
+      return {};
+    }
+    if (command instanceof CopyObjectCommand) {
+      const [, ...key] = decodeURIComponent(input.CopySource).split("/");
+      const object = objects.get(key.join("/"));
+      if (!object) throw notFound();
+      objects.set(input.Key, {
+        body: object.body,
+        contentType: input.ContentType,
+        metadata: input.Metadata,
+      });
+      return {};
+    }
+    if (command instanceof ListObjectsV2Command) {
+      // Pages of 2 objects, to test the continuation
+      const keys = [...objects.keys()]
+        .filter((key) => key.startsWith(input.Prefix ?? ""))
+        .filter((key) => !input.StartAfter || key > input.StartAfter)
+        .sort();
+      const start = Number(input.ContinuationToken ?? 0);
+      return {
+        Contents: keys.slice(start, start + 2).map((Key) => ({ Key })),
+        NextContinuationToken:
+          start + 2 < keys.length ? String(start + 2) : undefined,
+      };
+    }
+    if (command instanceof AbortMultipartUploadCommand) {
+      uploads.delete(input.UploadId);
+      return {};
+    }
+    throw new Error(`Unexpected command ${command.constructor.name}`);
+  };
+
+  return { send, objects, uploads, commands };
+};
+
+const toStream = (...chunks: Buffer[]) =>
+  Readable.toWeb(Readable.from(chunks)) as any;
+
+describe("@dkg/plugin-dkg-essentials S3 blob storage", () => {
+  let s3: ReturnType<typeof createS3Mock>;
+  let storage: ReturnType<typeof createS3BlobStorage>;
+
+  beforeEach(() => {
+    s3 = createS3Mock();
+    storage = createS3BlobStorage({
+      bucket: "test-bucket",
+      prefix: "blobs/",
+      client: s3 as any,
+    });
+  });
+
+  it("should store small blobs with a single request", async () => {
+    const { id } = await storage.create(toStream(Buffer.from("Hello S3")), {
+      name: "hello.txt",
+      mimeType: "text/plain",
+    });
+
+    expect(s3.commands).to.deep.equal(["PutObjectCommand"]);
+    expect(s3.objects.get(`blobs/${id}`)?.body.toString()).to.equal("Hello S3");
+  });
+
+  it("should retrieve blob content and metadata", async () => {
+    const { id } = await storage.create(toStream(Buffer.from("Hello S3")), {
+      name: "hello.txt",
+      mimeType: "text/plain",
+    });
+
+    const blob = await storage.get(id);
+
+    expect(blob).to.not.equal(null);
+    expect(await consumers.text(blob!.data as any)).to.equal("Hello S3");
+    expect(blob!.metadata.name).to.equal("hello.txt");
+    expect(blob!.metadata.size).to.equal(8);
+    expect(blob!.metadata.mimeType).to.equal("text/plain");
+  });
+
+  it("should upload large blobs in multiple parts", async () => {
+    const content = Buffer.alloc(PART_SIZE * 2 + 100, "a");
+    const { id } = await storage.create(
+      toStream(
+        content.subarray(0, PART_SIZE + 50),
+        content.subarray(PART_SIZE + 50),
+      ),
+      { name: "large.bin" },
+    );
+
+    expect(s3.commands).to.deep.equal([
+      "CreateMultipartUploadCommand",
+      "UploadPartCommand",
+      "UploadPartCommand",
+      "CompleteMultipartUploadCommand",
+    ]);
+    expect(s3.objects.get(`blobs/${id}`)?.body.equals(content)).to.equal(true);
+  });
+
+  it("should abort multipart uploads that fail", async () => {
+    const send = s3.send;
+    s3.send = async (command: any) => {
+      if (command instanceof UploadPartCommand && command.input.PartNumber > 1)
+        throw new Error("Upload failed");
+      return send(command);
+    };
+
+    try {
+      await storage.create(
+        toStream(Buffer.alloc(PART_SIZE, "a"), Buffer.alloc(PART_SIZE, "b")),
+        { name: "large.bin" },
+      );
+      expect.fail("Should have thrown an error");
+    } catch (error) {
+      expect((error as Error).message).to.equal("Upload failed");
+    }
+
+    expect(s3.commands).to.include("AbortMultipartUploadCommand");
+    expect(s3.uploads.size).to.equal(0);
+    expect(s3.objects.size).to.equal(0);
+  });
+
+  it("should request only the range of the blob", async () => {
+    const { id } = await storage.create(toStream(Buffer.from("Hello S3")), {
+      name: "hello.txt",
+    });
+    const ranges: string[] = [];
+    const send = s3.send;
+    s3.send = async (command: any) => {
+      if (command instanceof GetObjectCommand) ranges.push(command.input.Range);
+      return send(command);
+    };
+
+    await storage.get(id, { range: { start: 6, end: 7 } });
+    await storage.get(id, { range: { start: 6 } });
+
+    expect(ranges).to.deep.equal(["bytes=6-7", "bytes=6-"]);
+  });
+
+  it("should return null for missing blobs", async () => {
+    expect(await storage.get("missing-id")).to.equal(null);
+    expect(await storage.info("missing-id")).to.equal(null);
+    expect(await storage.exists("missing-id")).to.equal(false);
+  });
+
+  it("should delete blobs", async () => {
+    const { id } = await storage.create(toStream(Buffer.from("Delete me")), {
+      name: "delete.txt",
+    });
+
+    await storage.delete(id);
+
+    expect(await storage.exists(id)).to.equal(false);
+  });
+
+  it("should reject part sizes below the S3 minimum", () => {
+    expect(() =>
+      createS3BlobStorage({ bucket: "test-bucket", partSize: 1024 }),
+    ).to.throw("at least");
+  });
+
+  it("should round-trip custom metadata", async () => {
+    const { id } = await storage.create(toStream(Buffer.from("Hello")), {
+      name: "hello.txt",
+      owner: "7",
+      sourceUrl: "https://example.com/ünïcode",
+    });
+
+    const info = await storage.info(id);
+
+    expect(info).to.include({
+      name: "hello.txt",
+      owner: "7",
+      sourceUrl: "https://example.com/ünïcode",
+    });
+  });
+
+  it("should list blobs across multiple pages", async () => {
+    const ids: string[] = [];
+    for (const name of ["a.txt", "b.txt", "c.txt"]) {
+      const { id } = await storage.create(toStream(Buffer.from(name)), {
+        name,
+        owner: name === "b.txt" ? "2" : "1",
+      });
+      ids.push(id);
+    }
+    s3.objects.set("other/not-a-blob", { body: Buffer.from("") });
+
+    const all = await storage.list();
+    const owned = await storage.list({ owner: "1", limit: 1 });
+    const next = await storage.list({ owner: "1", cursor: owned.cursor });
+
+    expect(all.blobs.map((b) => b.id)).to.deep.equal([...ids].sort());
+    expect([...owned.blobs, ...next.blobs].map((b) => b.id)).to.deep.equal(
+      [ids[0], ids[2]].sort(),
+    );
+    expect(next.cursor).to.equal(undefined);
+  });
+
+  it("should update metadata without modifying the content", async () => {
+    const { id } = await storage.create(toStream(Buffer.from("Hello")), {
+      name: "hello.txt",
+      mimeType: "text/plain",
+      owner: "1",
+    });
+
+    const updated = await storage.updateMetadata(id, {
+      shares: { "2": "read" },
+    });
+
+    expect(updated).to.include({ owner: "1", mimeType: "text/plain" });
+    expect(updated?.shares).to.deep.equal({ "2": "read" });
+    expect(s3.objects.get(`blobs/${id}`)?.body.toString()).to.equal("Hello");
+    expect(await storage.updateMetadata("missing-id", {})).to.equal(null);
+  });
+});
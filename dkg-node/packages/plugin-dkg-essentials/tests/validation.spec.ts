@@ -0,0 +1,254 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import { describe, it, beforeEach } from "mocha";
+import { expect } from "chai";
+import validationPlugin from "../dist/plugins/validation.js";
+import { createDkgValidator } from "../dist/dkgValidator.js";
+import { provideEssentialsServices } from "../dist/index.js";
+import { createServiceRegistry, type DkgServices } from "@dkg/plugins";
+import { createJsonLdLoader } from "@dkg/jsonld-loader";
+import {
+  createInMemoryBlobStorage,
+  createMcpServerClientPair,
+  createMockDkgClient,
+} from "@dkg/plugins/testing";
+import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import express from "express";
+import { Blob } from "buffer";
+
+// Mock DKG context, with the services that the essentials plugin provides
+const mockDkgContext = {
+  dkg: createMockDkgClient(),
+  blob: createInMemoryBlobStorage(),
+  services: createServiceRegistry<DkgServices>(),
+};
+provideEssentialsServices(mockDkgContext);
+
+// User of the MCP session, with access to the blobs that it owns
+const mockAuth = {
+  token: "token",
+  clientId: "client",
+  scopes: [],
+  extra: { userId: "user" },
+};
+
+const context = { "@vocab": "http://schema.org/" };
+
+const person = (properties: Record<string, unknown> = {}) =>
+  JSON.stringify({
+    "@context": context,
+    "@id": "urn:person:1",
+    "@type": "Person",
+    name: "Alice",
+    ...properties,
+  });
+
+const shapes = `
+@prefix sh: <http://www.w3.org/ns/shacl#> .
+@prefix schema: <http://schema.org/> .
+
+<urn:shapes:Person> a sh:NodeShape ;
+  sh:targetClass schema:Person ;
+  sh:property [
+    sh:path schema:email ;
+    sh:minCount 1 ;
+    sh:message "A person needs an email" ;
+  ] .
+`;
+
+const uploadShapes = (turtle: string) =>
+  mockDkgContext.blob.create(new Blob([turtle]).stream(), {
+    name: "shapes.ttl",
+    mimeType: "text/turtle",
+    owner: "user",
+  });
+
+describe("@dkg/plugin-dkg-essentials validation checks", () => {
+  let mockMcpClient: Client;
+
+  const textOf = (result: any) =>
+    (result.content as any[]).map((c) => c.text).join("\n");
+
+  beforeEach(async () => {
+    const { server, client, connect } =
+      await createMcpServerClientPair(mockAuth);
+    mockMcpClient = client;
+
+    validationPlugin(mockDkgContext, server, express.Router());
+    await connect();
+  });
+
+  describe("JSON-LD Validation", () => {
+    const dkgValidator = createDkgValidator(
+      mockDkgContext,
+      createJsonLdLoader({ fetch: false }).load,
+    );
+
+    it("should canonicalize the JSON-LD and count its triples", async () => {
+      const result = await dkgValidator.validate(person());
+
+      expect(result.valid).to.equal(true);
+      expect(result.tripleCount).to.equal(2);
+      expect(result.canonical).to.include(
+        '<urn:person:1> <http://schema.org/name> "Alice" .',
+      );
+      expect(result.errors).to.deep.equal([]);
+    });
+
+    it("should report invalid JSON", async () => {
+      const result = await dkgValidator.validate("{ not json");
+
+      expect(result.valid).to.equal(false);
+      expect(result.errors[0]).to.include("Invalid JSON");
+    });
+
+    it("should report invalid JSON-LD", async () => {
+      const result = await dkgValidator.validate(
+        person({ name: { "@value": 1, "@language": "en" } }),
+      );
+
+      expect(result.valid).to.equal(false);
+      expect(result.errors[0]).to.include(
+        "only strings may be language-tagged",
+      );
+    });
+
+    it("should report JSON-LD without triples", async () => {
+      const result = await dkgValidator.validate(JSON.stringify({ name: "A" }));
+
+      expect(result.valid).to.equal(false);
+      expect(result.tripleCount).to.equal(0);
+    });
+
+    it("should reject dropped properties, like publishing", async () => {
+      const result = await dkgValidator.validate(
+        JSON.stringify({ "@id": "urn:a", "@type": "urn:Thing", name: "A" }),
+      );
+
+      expect(result.valid).to.equal(false);
+      expect(result.errors[0]).to.include("Safe mode validation error");
+      expect(result.errors[0]).to.include("(name)");
+      expect(result.canonical).to.equal(undefined);
+    });
+
+    it("should validate the public and private parts separately", async () => {
+      const result = await dkgValidator.validate(
+        JSON.stringify({
+          public: JSON.parse(person()),
+          private: JSON.parse(person({ "@id": "urn:person:2" })),
+        }),
+      );
+
+      expect(result.valid).to.equal(true);
+      expect(result.tripleCount).to.equal(4);
+      expect(result.canonical).to.include("<urn:person:2>");
+    });
+
+    it("should only resolve available contexts offline", async () => {
+      const url = "https://example.org/context.jsonld";
+      const document = JSON.stringify({
+        "@context": url,
+        "@type": "Person",
+        name: "Alice",
+      });
+
+      const offline = await dkgValidator.validate(document);
+      expect(offline.valid).to.equal(false);
+      expect(offline.errors[0]).to.include(
+        `Context ${url} is not available offline`,
+      );
+
+      const cached = await createDkgValidator(
+        mockDkgContext,
+        createJsonLdLoader({
+          contexts: { [url]: { "@context": context } },
+          fetch: false,
+        }).load,
+      ).validate(document);
+      expect(cached.valid).to.equal(true);
+      expect(cached.tripleCount).to.equal(2);
+    });
+
+    it("should validate against SHACL shapes stored as blobs", async () => {
+      const { id } = await uploadShapes(shapes);
+
+      const invalid = await dkgValidator.validate(person(), {
+        shapes: [id],
+        auth: mockAuth,
+      });
+      expect(invalid.valid).to.equal(false);
+      expect(invalid.shaclResults).to.deep.equal([
+        {
+          severity: "violation",
+          message: "A person needs an email",
+          focusNode: "urn:person:1",
+          path: "http://schema.org/email",
+          value: undefined,
+          shape: undefined,
+        },
+      ]);
+
+      const valid = await dkgValidator.validate(
+        person({ email: "alice@example.org" }),
+        { shapes: [id], auth: mockAuth },
+      );
+      expect(valid.valid).to.equal(true);
+      expect(valid.shaclResults).to.deep.equal([]);
+    });
+
+    it("should reject shapes that are not valid Turtle", async () => {
+      const { id } = await uploadShapes("<urn:a> sh:property");
+
+      try {
+        await dkgValidator.validate(person(), {
+          shapes: [id],
+          auth: mockAuth,
+        });
+        expect.fail("Should have thrown");
+      } catch (error: any) {
+        expect(error.message).to.include("is not valid Turtle");
+      }
+    });
+  });
+
+  describe("DKG Validate Tool", () => {
+    it("should register the dkg-validate tool", async () => {
+      const tools = await mockMcpClient.listTools().then((t) => t.tools);
+
+      expect(tools.map((t) => t.name)).to.deep.equal(["dkg-validate"]);
+    });
+
+    it("should report the validation results", async () => {
+      const { id } = await uploadShapes(shapes);
+
+      const result = await mockMcpClient.callTool({
+        name: "dkg-validate",
+        arguments: { jsonld: person(), shapes: [id] },
+      });
+
+      expect(textOf(result)).to.equal(
+        [
+          "The JSON-LD is not valid.",
+          "Triples: 2",
+          "SHACL results:",
+          "- [violation] A person needs an email " +
+            "(focus node: urn:person:1, path: http://schema.org/email)",
+        ].join("\n"),
+      );
+    });
+
+    it("should validate uploaded files", async () => {
+      const { id } = await mockDkgContext.blob.create(
+        new Blob([person()]).stream(),
+        { name: "person.json", mimeType: "application/json", owner: "user" },
+      );
+
+      const result = await mockMcpClient.callTool({
+        name: "dkg-validate",
+        arguments: { jsonld: id },
+      });
+
+      expect(textOf(result)).to.equal("The JSON-LD is valid.\nTriples: 2");
+    });
+  });
+});
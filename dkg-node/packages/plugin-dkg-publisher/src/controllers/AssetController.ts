@@ -1,7 +1,7 @@
 import { Request, Response, Router } from "express";
 import { z } from "zod";
 import { ServiceContainer } from "../services/ServiceContainer";
-import { AssetService } from "../services/AssetService";
+import { AssetService, AssetValidationError } from "../services/AssetService";
 import { QueueService } from "../services/QueueService";
 import { AssetInput } from "../types";
 
@@ -21,6 +21,13 @@ const registerAssetSchema = z.object({
       priority: z.number().min(1).max(100).optional(),
       epochs: z.number().optional(),
       maxAttempts: z.number().optional(),
+      paranetUAL: z.string().optional(),
+    })
+    .optional(),
+  validation: z
+    .object({
+      skip: z.boolean().optional(),
+      shapes: z.array(z.string()).optional(),
     })
     .optional(),
 });
@@ -61,10 +68,12 @@ export class AssetController {
 
       // Register asset in the system
       console.log("🔄 Registering asset in system...");
-      const result = await this.assetService.registerAsset(input as AssetInput);
+      const result = await this.assetService.registerAsset(
+        input as AssetInput,
+        res.locals.auth,
+      );
       console.log("✅ Asset registered with ID:", result.id);
       res.json(result);
-      
     } catch (error: any) {
       console.error("❌ Asset registration failed:", error);
 
@@ -73,6 +82,11 @@ export class AssetController {
           error: "Validation error",
           details: error.errors,
         });
+      } else if (error instanceof AssetValidationError) {
+        res.status(400).json({
+          error: error.message,
+          validation: error.validation,
+        });
       } else {
         res.status(500).json({
           error: error.message,
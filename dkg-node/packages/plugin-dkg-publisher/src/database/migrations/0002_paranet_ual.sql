@@ -0,0 +1 @@
+ALTER TABLE `assets` ADD `paranet_ual` varchar(255);
\ No newline at end of file
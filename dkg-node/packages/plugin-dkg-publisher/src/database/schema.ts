@@ -37,6 +37,7 @@ export const assets = mysqlTable(
     epochs: int("epochs").default(2),
     replications: int("replications").default(1),
     maxAttempts: int("max_attempts").default(3),
+    paranetUal: varchar("paranet_ual", { length: 255 }),
 
     // Status and attempts
     status: mysqlEnum("status", [
@@ -1,15 +1,17 @@
 import { defineDkgPlugin } from "@dkg/plugins";
 import { z } from "@dkg/plugin-swagger";
 import type { KnowledgeAssetManagerConfig, AssetInput } from "./types";
-import { config as dotenvConfig } from "dotenv";
 import path from "path";
 import {
   initializeServices,
   shutdownServices,
   ServiceContainer,
   AssetService,
+  AssetValidationError,
   QueueService,
   DkgService,
+  PublishingService,
+  validateSparqlQuery,
 } from "./services";
 import { openAPIRoute } from "@dkg/plugin-swagger";
 
@@ -29,50 +31,113 @@ import express from "express";
 // Services container for managing dependencies
 let serviceContainer: ServiceContainer | null = null;
 
-// No intervals needed anymore
+// Configuration is read from the environment and the package root .env file
+const envPath = path.resolve(__dirname, "..", ".env.publisher");
+
+const configSchema = z.object({
+  DKGP_DATABASE_URL: z.string().optional(),
+  REDIS_HOST: z.string().default("localhost"),
+  REDIS_PORT: z.coerce.number().int().positive().default(6379),
+  REDIS_PASSWORD: z.string().optional(),
+  DKG_ENDPOINT: z.string().url().default("http://localhost:8900"),
+  DKG_BLOCKCHAIN: z.string().default("hardhat1:31337"),
+  ENCRYPTION_KEY: z.string().optional(),
+  STORAGE_TYPE: z.enum(["filesystem", "s3"]).default("filesystem"),
+  STORAGE_PATH: z.string().default(path.resolve(__dirname, "../storage")),
+  STORAGE_BASE_URL: z.string().url().optional(),
+  STORAGE_SWEEP_INTERVAL: z.coerce
+    .number()
+    .int()
+    .nonnegative()
+    .default(60 * 60 * 1000),
+  STORAGE_SWEEP_GRACE_PERIOD: z.coerce
+    .number()
+    .int()
+    .nonnegative()
+    .default(60 * 60 * 1000),
+  PORT: z.coerce.number().int().positive().default(9200),
+  POLL_FREQUENCY: z.coerce.number().int().positive().default(2000),
+  WORKER_COUNT: z.coerce.number().int().positive().default(1),
+});
 
 // Plugin definition for DKG integration
-export default defineDkgPlugin((_ctx, mcp, api) => {
-  const pluginInitTime = Date.now();
-  console.log(
-    `🔍 DKG Publisher Plugin executing at ${new Date().toISOString()} (${pluginInitTime})`,
-  );
-  // Load configuration from package root .env file
-  const envPath = path.resolve(__dirname, "..", ".env.publisher");
-
-  console.log(`🔧 Loading DKG Publisher config from: ${envPath}`);
-  dotenvConfig({ path: envPath });
-
-  console.log(`📊 DKGP_DATABASE_URL found: ${!!process.env.DKGP_DATABASE_URL}`);
+export default defineDkgPlugin({
+  name: "dkg-publisher",
+  // Provides the JSON-LD validator and document loader, if registered
+  after: ["dkg-essentials"],
+  config: {
+    schema: configSchema,
+    files: [envPath],
+  },
+
+  async setup({ config: env, services }) {
+    console.log(`📊 DKGP_DATABASE_URL found: ${!!env.DKGP_DATABASE_URL}`);
+
+    if (!env.DKGP_DATABASE_URL) {
+      console.log(
+        "⚠️  DKG Publisher Plugin not configured - DKGP_DATABASE_URL not found",
+      );
+      console.log(`   Looked for config in: ${envPath}`);
+      return;
+    }
 
-  // Initialize services if configuration is provided via environment
-  if (process.env.DKGP_DATABASE_URL) {
     const config: KnowledgeAssetManagerConfig = {
       database: {
-        connectionString: process.env.DKGP_DATABASE_URL,
+        connectionString: env.DKGP_DATABASE_URL,
       },
       redis: {
-        host: process.env.REDIS_HOST || "localhost",
-        port: process.env.REDIS_PORT ? parseInt(process.env.REDIS_PORT) : 6379,
-        password: process.env.REDIS_PASSWORD,
+        host: env.REDIS_HOST,
+        port: env.REDIS_PORT,
+        password: env.REDIS_PASSWORD,
       },
       wallets: [], // Should be loaded from config or setup
+      workers: {
+        count: env.WORKER_COUNT,
+        pollFrequency: env.POLL_FREQUENCY,
+      },
+      storage: {
+        type: env.STORAGE_TYPE,
+        path: env.STORAGE_PATH,
+        baseUrl: env.STORAGE_BASE_URL ?? `http://localhost:${env.PORT}/storage`,
+        sweepInterval: env.STORAGE_SWEEP_INTERVAL,
+        sweepGracePeriod: env.STORAGE_SWEEP_GRACE_PERIOD,
+      },
       dkg: {
-        endpoint: process.env.DKG_ENDPOINT,
-        blockchain: process.env.DKG_BLOCKCHAIN,
+        endpoint: env.DKG_ENDPOINT,
+        blockchain: env.DKG_BLOCKCHAIN,
       },
-      encryptionKey: process.env.ENCRYPTION_KEY,
+      encryptionKey: env.ENCRYPTION_KEY,
     };
     console.log(`🚀 Initializing DKG Publisher services... (${Date.now()})`);
 
-    // Mount storage directory immediately (before services initialize)
-    const storageType = process.env.STORAGE_TYPE || "filesystem";
-    const storagePath =
-      process.env.STORAGE_PATH || path.resolve(__dirname, "../storage");
+    try {
+      serviceContainer = await initializeServices(config, {
+        validator: services.has("dkgValidator")
+          ? services.use("dkgValidator")
+          : undefined,
+        documentLoader: services.has("jsonldLoader")
+          ? services.use("jsonldLoader").load
+          : undefined,
+      });
+
+      console.log(`✅ DKG Publisher Plugin ready!`);
+      console.log(
+        `   - Database: ${config.database.connectionString.replace(/\/\/.*@/, "//***@")}`,
+      );
+      console.log(`   - Redis: ${config.redis.host}:${config.redis.port}`);
+      console.log(`   - DKG Endpoint: ${config.dkg?.endpoint}`);
+      console.log(`   - Blockchain: ${config.dkg?.blockchain}`);
+      console.log(`📁 Storage configured for: ${config.storage?.type}`);
+    } catch (error) {
+      console.error("❌ DKG Publisher Plugin initialization failed:", error);
+    }
+  },
 
-    if (storageType === "filesystem") {
+  registerApi({ config }, api) {
+    // Mount storage directory immediately (before services initialize)
+    if (config.DKGP_DATABASE_URL && config.STORAGE_TYPE === "filesystem") {
       try {
-        const resolvedStoragePath = path.resolve(storagePath);
+        const resolvedStoragePath = path.resolve(config.STORAGE_PATH);
         console.log(
           `📁 Mounting storage serving at /storage from: ${resolvedStoragePath}`,
         );
@@ -83,373 +148,482 @@ export default defineDkgPlugin((_ctx, mcp, api) => {
       }
     }
 
-    // Initialize services
-    initializeServices(config)
-      .then((container) => {
-        serviceContainer = container;
+    // Mount admin dashboard route immediately - handle service readiness internally
+    api.use("/admin/queues", (req, res, next) => {
+      if (!serviceContainer) {
+        return res
+          .status(503)
+          .json({ error: "DKG Publisher Plugin is starting up" });
+      }
 
-        console.log(`✅ DKG Publisher Plugin ready!`);
-        console.log(
-          `   - Database: ${config.database.connectionString.replace(/\/\/.*@/, "//***@")}`,
-        );
-        console.log(`   - Redis: ${config.redis.host}:${config.redis.port}`);
-        console.log(`   - DKG Endpoint: ${config.dkg?.endpoint}`);
-        console.log(`   - Blockchain: ${config.dkg?.blockchain}`);
-        console.log(`📁 Storage configured for: ${storageType}`);
-      })
-      .catch((error) => {
-        console.error("❌ DKG Publisher Plugin initialization failed:", error);
-      });
-  } else {
-    console.log(
-      "⚠️  DKG Publisher Plugin not configured - DKGP_DATABASE_URL not found",
+      try {
+        const queueService = serviceContainer.get<QueueService>("queueService");
+        const dashboard = queueService.getDashboard();
+        // Forward request to Bull Board dashboard
+        dashboard(req, res, next);
+      } catch (error) {
+        console.error("❌ Dashboard access failed:", error);
+        res.status(500).json({ error: "Dashboard temporarily unavailable" });
+      }
+    });
+
+    console.log(`📊 Admin dashboard route registered at /admin/queues`);
+
+    // Register API routes using the plugin's native method
+    api.post(
+      "/api/dkg/assets",
+      openAPIRoute(
+        {
+          tag: "Knowledge Assets",
+          summary: "Register asset for publishing",
+          description: "Register a JSON-LD asset for publishing to the DKG",
+          body: z.object({
+            content: z.union([z.object({}).passthrough(), z.string()]),
+            metadata: z
+              .object({
+                source: z.string().optional(),
+                sourceId: z.string().optional(),
+              })
+              .passthrough()
+              .optional(),
+            publishOptions: z
+              .object({
+                privacy: z.enum(["private", "public"]).optional(),
+                priority: z.number().min(1).max(100).optional(),
+                epochs: z.number().optional(),
+                maxAttempts: z.number().optional(),
+                paranetUAL: z.string().optional(),
+              })
+              .optional(),
+            validation: z
+              .object({
+                skip: z.boolean().optional(),
+                shapes: z.array(z.string()).optional(),
+              })
+              .optional(),
+          }),
+          response: {
+            schema: z.object({
+              id: z.number(),
+              status: z.string(),
+              attemptCount: z.number(),
+              // Only returned with errors, for content that is not valid
+              validation: z.object({}).passthrough().optional(),
+            }),
+          },
+        },
+        async (req, res) => {
+          if (!serviceContainer) {
+            return res
+              .status(503)
+              .json({ error: "DKG Publisher Plugin is starting up" });
+          }
+
+          try {
+            console.log("🔄 Processing asset registration request...");
+
+            const assetService =
+              serviceContainer.get<AssetService>("assetService");
+
+            const result = await assetService.registerAsset(
+              req.body as AssetInput,
+              res.locals.auth,
+            );
+            // Asset registration emits 'asset-queued' event which triggers queue addition
+
+            console.log("✅ Asset registered with ID:", result.id);
+            res.json(result);
+          } catch (error: any) {
+            console.error("❌ Asset registration failed:", error);
+            if (error instanceof AssetValidationError) {
+              return res
+                .status(400)
+                .json({ error: error.message, validation: error.validation });
+            }
+            res.status(500).json({ error: error.message });
+          }
+        },
+      ),
     );
-    console.log(`   Looked for config in: ${envPath}`);
-  }
-
-  // Mount admin dashboard route immediately - handle service readiness internally
-  api.use("/admin/queues", (req, res, next) => {
-    if (!serviceContainer) {
-      return res
-        .status(503)
-        .json({ error: "DKG Publisher Plugin is starting up" });
-    }
 
-    try {
-      const queueService = serviceContainer.get<QueueService>("queueService");
-      const dashboard = queueService.getDashboard();
-      // Forward request to Bull Board dashboard
-      dashboard(req, res, next);
-    } catch (error) {
-      console.error("❌ Dashboard access failed:", error);
-      res.status(500).json({ error: "Dashboard temporarily unavailable" });
-    }
-  });
+    api.post(
+      "/api/dkg/assets/estimate",
+      openAPIRoute(
+        {
+          tag: "Knowledge Assets",
+          summary: "Estimate asset publishing cost",
+          description:
+            "Dry run of publishing a JSON-LD asset: it is validated and canonicalized, " +
+            "and the cost of publishing it is estimated, without registering it",
+          body: z.object({
+            content: z.union([z.object({}).passthrough(), z.string()]),
+            publishOptions: z
+              .object({
+                privacy: z.enum(["private", "public"]).optional(),
+                epochs: z.number().int().min(1).optional(),
+              })
+              .optional(),
+            validation: z
+              .object({
+                skip: z.boolean().optional(),
+                shapes: z.array(z.string()).optional(),
+              })
+              .optional(),
+          }),
+          response: {
+            schema: z.object({
+              knowledgeAssets: z.number(),
+              triples: z.number(),
+              sizeInBytes: z.number().openapi({
+                description: "Size of the public assertion paid for",
+              }),
+              epochs: z.number(),
+              tokenAmount: z.string().openapi({
+                description: "Estimated TRAC bid, in wei",
+              }),
+              gas: z
+                .object({
+                  price: z.string(),
+                  limit: z.number(),
+                  cost: z.string(),
+                })
+                .openapi({
+                  description:
+                    "Estimated native gas, with the price and cost in wei",
+                }),
+              // Only returned with errors, for content that is not valid
+              validation: z.object({}).passthrough().optional(),
+            }),
+          },
+        },
+        async (req, res) => {
+          if (!serviceContainer) {
+            return res
+              .status(503)
+              .json({ error: "DKG Publisher Plugin is starting up" });
+          }
 
-  console.log(`📊 Admin dashboard route registered at /admin/queues`);
+          try {
+            const assetService =
+              serviceContainer.get<AssetService>("assetService");
+            const publishingService =
+              serviceContainer.get<PublishingService>("publishingService");
+
+            const input = req.body as AssetInput;
+            await assetService.validateContent(input, res.locals.auth);
+            res.json(await publishingService.estimateAsset(input));
+          } catch (error) {
+            console.error("❌ Asset cost estimation failed:", error);
+            if (error instanceof AssetValidationError) {
+              return res
+                .status(400)
+                .json({ error: error.message, validation: error.validation });
+            }
+            res.status(500).json({
+              error: error instanceof Error ? error.message : String(error),
+            });
+          }
+        },
+      ),
+    );
 
-  // Register API routes using the plugin's native method
-  api.post(
-    "/api/dkg/assets",
-    openAPIRoute(
-      {
-        tag: "Knowledge Assets",
-        summary: "Register asset for publishing",
-        description: "Register a JSON-LD asset for publishing to the DKG",
-        body: z.object({
-          content: z.union([z.object({}).passthrough(), z.string()]),
-          metadata: z
-            .object({
-              source: z.string().optional(),
-              sourceId: z.string().optional(),
-            })
-            .passthrough()
-            .optional(),
-          publishOptions: z
-            .object({
-              privacy: z.enum(["private", "public"]).optional(),
-              priority: z.number().min(1).max(100).optional(),
-              epochs: z.number().optional(),
-              maxAttempts: z.number().optional(),
-            })
-            .optional(),
-        }),
-        response: {
-          schema: z.object({
-            id: z.number(),
-            status: z.string(),
-            attemptCount: z.number(),
+    api.get(
+      "/api/dkg/assets/status/:id",
+      openAPIRoute(
+        {
+          tag: "Knowledge Assets",
+          summary: "Get asset status",
+          params: z.object({
+            id: z.string().transform(Number),
           }),
         },
-      },
-      async (req, res) => {
-        if (!serviceContainer) {
-          return res
-            .status(503)
-            .json({ error: "DKG Publisher Plugin is starting up" });
-        }
+        async (req, res) => {
+          if (!serviceContainer) {
+            return res
+              .status(503)
+              .json({ error: "DKG Publisher Plugin is starting up" });
+          }
 
-        try {
-          console.log("🔄 Processing asset registration request...");
+          try {
+            const assetService =
+              serviceContainer.get<AssetService>("assetService");
+            const asset = await assetService.getAsset(req.params.id);
 
-          const assetService =
-            serviceContainer.get<AssetService>("assetService");
+            if (!asset) {
+              return res.status(404).json({ error: "Asset not found" });
+            }
 
-          const result = await assetService.registerAsset(
-            req.body as AssetInput,
-          );
-          // Asset registration emits 'asset-queued' event which triggers queue addition
+            res.json(asset);
+          } catch (error: any) {
+            res.status(500).json({ error: error.message });
+          }
+        },
+      ),
+    );
 
-          console.log("✅ Asset registered with ID:", result.id);
-          res.json(result);
-        } catch (error: any) {
-          console.error("❌ Asset registration failed:", error);
-          res.status(500).json({ error: error.message });
-        }
-      },
-    ),
-  );
+    // Add metrics endpoints
+    api.get("/api/dkg/metrics/queue", async (_req, res) => {
+      if (!serviceContainer) {
+        return res.status(503).json({ error: "Services not initialized" });
+      }
 
-  api.get(
-    "/api/dkg/assets/status/:id",
-    openAPIRoute(
-      {
-        tag: "Knowledge Assets",
-        summary: "Get asset status",
-        params: z.object({
-          id: z.string().transform(Number),
-        }),
-      },
-      async (req, res) => {
-        if (!serviceContainer) {
-          return res
-            .status(503)
-            .json({ error: "DKG Publisher Plugin is starting up" });
-        }
+      try {
+        const queueService = serviceContainer.get<QueueService>("queueService");
+        const assetService = serviceContainer.get<any>("assetService");
+        const walletService = serviceContainer.get<any>("walletService");
+
+        // Get Redis queue stats
+        const queueStats = await queueService.getQueueStats();
+
+        // Get database asset counts by status
+        const dbCounts = await assetService.getAssetCountsByStatus();
+
+        // Get wallet stats to calculate available slots
+        const walletStats = await walletService.getWalletStats();
+        const activeJobs = queueStats.waiting + queueStats.active;
+        const availableSlots = Math.max(0, walletStats.total - activeJobs);
+
+        res.json({
+          redis: {
+            activeJobs: queueStats.active,
+            waitingJobs: queueStats.waiting,
+            delayedJobs: queueStats.delayed,
+          },
+          database: {
+            publishing: dbCounts.publishing, // Assets with status 'publishing'
+            published: dbCounts.published, // Assets with status 'published' (total completed)
+            failed: dbCounts.failed, // Assets with status 'failed' (retryCount >= maxAttempts)
+          },
+          capacity: {
+            totalWallets: walletStats.total,
+            availableWallets: walletStats.available,
+            lockedWallets: walletStats.locked,
+            availableSlots: availableSlots, // Slots available for new jobs
+          },
+        });
+      } catch (error: any) {
+        res.status(500).json({ error: error.message });
+      }
+    });
 
-        try {
-          const assetService =
-            serviceContainer.get<AssetService>("assetService");
-          const asset = await assetService.getAsset(req.params.id);
+    api.get("/api/dkg/metrics/wallets", async (_req, res) => {
+      if (!serviceContainer) {
+        return res.status(503).json({ error: "Services not initialized" });
+      }
 
-          if (!asset) {
-            return res.status(404).json({ error: "Asset not found" });
+      try {
+        const walletService = serviceContainer.get<any>("walletService");
+        const stats = await walletService.getWalletStats();
+        res.json(stats);
+      } catch (error: any) {
+        res.status(500).json({ error: error.message });
+      }
+    });
+
+    // Add SPARQL query endpoint
+    api.post(
+      "/api/dkg/query",
+      openAPIRoute(
+        {
+          tag: "DKG Queries",
+          summary: "Execute SPARQL Query",
+          description:
+            "Execute a SPARQL query on the DKG network. Queries are parsed " +
+            "before they are sent to the node, and their type is detected " +
+            "automatically. Updates are rejected. Unless `validate` is false, " +
+            "the given `queryType` also has to match the query.",
+          body: z.object({
+            query: z.string().min(1, "Query cannot be empty"),
+            queryType: z
+              .enum(["SELECT", "CONSTRUCT", "ASK", "DESCRIBE"])
+              .optional(),
+            validate: z.boolean().optional().default(true),
+          }),
+          response: {
+            schema: z.object({
+              success: z.boolean(),
+              data: z.any().optional(),
+              error: z.string().optional(),
+              validation: z
+                .object({
+                  valid: z.boolean(),
+                  queryType: z
+                    .enum(["SELECT", "CONSTRUCT", "ASK", "DESCRIBE"])
+                    .optional(),
+                  error: z.string().optional(),
+                  line: z.number().optional(),
+                  column: z.number().optional(),
+                })
+                .optional(),
+            }),
+          },
+        },
+        async (req, res) => {
+          const { query, queryType, validate } = req.body;
+
+          // Always parsed, so that updates never reach the node
+          const validation = validateSparqlQuery(query);
+          if (!validation.valid) {
+            return res.status(400).json({
+              success: false,
+              error: validation.error,
+              validation,
+            });
+          }
+          if (validate && queryType && queryType !== validation.queryType) {
+            return res.status(400).json({
+              success: false,
+              error: `Query type ${queryType} does not match the ${validation.queryType} query`,
+              validation,
+            });
           }
 
-          res.json(asset);
-        } catch (error: any) {
-          res.status(500).json({ error: error.message });
-        }
-      },
-    ),
-  );
-
-  // Add metrics endpoints
-  api.get("/api/dkg/metrics/queue", async (_req, res) => {
-    if (!serviceContainer) {
-      return res.status(503).json({ error: "Services not initialized" });
-    }
+          if (!serviceContainer) {
+            return res.status(503).json({
+              success: false,
+              error: "DKG service is starting up",
+            });
+          }
 
-    try {
-      const queueService = serviceContainer.get<QueueService>("queueService");
-      const assetService = serviceContainer.get<any>("assetService");
-      const walletService = serviceContainer.get<any>("walletService");
-
-      // Get Redis queue stats
-      const queueStats = await queueService.getQueueStats();
-
-      // Get database asset counts by status
-      const dbCounts = await assetService.getAssetCountsByStatus();
-
-      // Get wallet stats to calculate available slots
-      const walletStats = await walletService.getWalletStats();
-      const activeJobs = queueStats.waiting + queueStats.active;
-      const availableSlots = Math.max(0, walletStats.total - activeJobs);
-
-      res.json({
-        redis: {
-          activeJobs: queueStats.active,
-          waitingJobs: queueStats.waiting,
-          delayedJobs: queueStats.delayed,
-        },
-        database: {
-          publishing: dbCounts.publishing, // Assets with status 'publishing'
-          published: dbCounts.published,   // Assets with status 'published' (total completed)
-          failed: dbCounts.failed,         // Assets with status 'failed' (retryCount >= maxAttempts)
-        },
-        capacity: {
-          totalWallets: walletStats.total,
-          availableWallets: walletStats.available,
-          lockedWallets: walletStats.locked,
-          availableSlots: availableSlots, // Slots available for new jobs
+          try {
+            const dkgService = serviceContainer.get<DkgService>("dkgService");
+
+            // Execute SPARQL query
+            const result = await dkgService.executeSparqlQuery(
+              query,
+              validation.queryType!,
+            );
+
+            res.json({ ...result, validation });
+          } catch (error: any) {
+            res.status(500).json({
+              success: false,
+              error: error.message,
+            });
+          }
         },
-      });
-    } catch (error: any) {
-      res.status(500).json({ error: error.message });
-    }
-  });
-
-  api.get("/api/dkg/metrics/wallets", async (_req, res) => {
-    if (!serviceContainer) {
-      return res.status(503).json({ error: "Services not initialized" });
-    }
-
-    try {
-      const walletService = serviceContainer.get<any>("walletService");
-      const stats = await walletService.getWalletStats();
-      res.json(stats);
-    } catch (error: any) {
-      res.status(500).json({ error: error.message });
-    }
-  });
+      ),
+    );
 
-  // Add SPARQL query endpoint
-  api.post(
-    "/api/dkg/query",
-    openAPIRoute(
-      {
-        tag: "DKG Queries",
-        summary: "Execute SPARQL Query",
-        description: "Execute a SPARQL query on the DKG network",
-        body: z.object({
-          query: z.string().min(1, "Query cannot be empty"),
-          queryType: z
-            .enum(["SELECT", "CONSTRUCT", "ASK", "DESCRIBE"])
-            .optional()
-            .default("SELECT"),
-          validate: z.boolean().optional().default(true),
-        }),
-        response: {
-          schema: z.object({
-            success: z.boolean(),
-            data: z.any().optional(),
-            error: z.string().optional(),
-            validation: z
-              .object({
-                valid: z.boolean(),
-                error: z.string().optional(),
-              })
-              .optional(),
+    // Add DKG asset get endpoint
+    api.get(
+      "/api/dkg/assets",
+      openAPIRoute(
+        {
+          tag: "DKG Queries",
+          summary: "Get DKG Asset",
+          description: "Retrieve an asset from DKG by UAL",
+          query: z.object({
+            ual: z.string(),
           }),
+          response: {
+            schema: z.object({
+              success: z.boolean(),
+              data: z.any().optional(),
+              error: z.string().optional(),
+            }),
+          },
         },
-      },
-      async (req, res) => {
-        if (!serviceContainer) {
-          return res.status(503).json({
-            success: false,
-            error: "DKG service is starting up",
-          });
-        }
+        async (req, res) => {
+          if (!serviceContainer) {
+            return res.status(503).json({
+              success: false,
+              error: "DKG service is starting up",
+            });
+          }
 
-        try {
-          const { query, queryType = "SELECT" } = req.body;
-          const dkgService = serviceContainer.get<DkgService>("dkgService");
+          try {
+            const { ual } = req.query;
+            const dkgService = serviceContainer.get<DkgService>("dkgService");
 
-          // Execute SPARQL query
-          const result = await dkgService.executeSparqlQuery(query, queryType);
+            const result = await dkgService.getAsset(ual);
 
-          res.json(result);
-        } catch (error: any) {
-          res.status(500).json({
-            success: false,
-            error: error.message,
-          });
-        }
-      },
-    ),
-  );
+            res.json(result);
+          } catch (error: any) {
+            res.status(500).json({
+              success: false,
+              error: error.message,
+            });
+          }
+        },
+      ),
+    );
+  },
 
-  // Add DKG asset get endpoint
-  api.get(
-    "/api/dkg/assets",
-    openAPIRoute(
+  registerMcp(_ctx, mcp) {
+    // MCP tool for creating knowledge assets
+    mcp.registerTool(
+      "knowledge-asset-publish",
       {
-        tag: "DKG Queries",
-        summary: "Get DKG Asset",
-        description: "Retrieve an asset from DKG by UAL",
-        query: z.object({
-          ual: z.string(),
-        }),
-        response: {
-          schema: z.object({
-            success: z.boolean(),
-            data: z.any().optional(),
-            error: z.string().optional(),
-          }),
+        title: "Publish Knowledge Asset",
+        description: "Register a JSON-LD asset for publishing to the DKG",
+        inputSchema: {
+          content: z.object({}).passthrough(),
+          metadata: z
+            .object({
+              source: z.string().optional(),
+              sourceId: z.string().optional(),
+            })
+            .optional(),
+          privacy: z.enum(["private", "public"]).optional(),
+          paranetUAL: z
+            .string()
+            .optional()
+            .describe("UAL of a paranet to submit the asset to"),
+          shapes: z
+            .array(z.string())
+            .optional()
+            .describe(
+              "IDs of uploaded files with SHACL shapes in Turtle, to validate the content against",
+            ),
         },
+        scopes: ["dkg:publish"],
       },
-      async (req, res) => {
+      async (input, { authInfo }) => {
         if (!serviceContainer) {
-          return res.status(503).json({
-            success: false,
-            error: "DKG service is starting up",
-          });
+          throw new Error("DKG Publisher Plugin not configured");
         }
 
-        try {
-          const { ual } = req.query;
-          const dkgService = serviceContainer.get<DkgService>("dkgService");
-
-          const result = await dkgService.getAsset(ual);
+        const assetService = serviceContainer.get<AssetService>("assetService");
 
-          res.json(result);
-        } catch (error: any) {
-          res.status(500).json({
-            success: false,
-            error: error.message,
-          });
-        }
-      },
-    ),
-  );
-
-  // MCP tool for creating knowledge assets
-  mcp.registerTool(
-    "knowledge-asset-publish",
-    {
-      title: "Publish Knowledge Asset",
-      description: "Register a JSON-LD asset for publishing to the DKG",
-      inputSchema: {
-        content: z.object({}).passthrough(),
-        metadata: z
-          .object({
-            source: z.string().optional(),
-            sourceId: z.string().optional(),
-          })
-          .optional(),
-        privacy: z.enum(["private", "public"]).optional(),
+        const assetInput = {
+          content: input.content,
+          metadata: input.metadata,
+          publishOptions: {
+            privacy: input.privacy || "private",
+            paranetUAL: input.paranetUAL,
+          },
+          validation: { shapes: input.shapes },
+        };
+
+        const result = await assetService.registerAsset(assetInput, authInfo);
+        // Asset registration emits 'asset-queued' event which triggers queue addition
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Asset registered for publishing: ${result.id} (Status: ${result.status})`,
+            },
+          ],
+        };
       },
-    },
-    async (input) => {
-      if (!serviceContainer) {
-        throw new Error("DKG Publisher Plugin not configured");
-      }
+    );
+  },
 
-      const assetService = serviceContainer.get<AssetService>("assetService");
+  async shutdown() {
+    console.log(`🔄 Shutting down DKG Publisher services...`);
 
-      const assetInput = {
-        content: input.content,
-        metadata: input.metadata,
-        publishOptions: {
-          privacy: input.privacy || "private",
-        },
-      };
-
-      const result = await assetService.registerAsset(assetInput);
-      // Asset registration emits 'asset-queued' event which triggers queue addition
+    if (serviceContainer) {
+      await shutdownServices(serviceContainer);
+      console.log("✅ Services shut down gracefully");
+    }
 
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Asset registered for publishing: ${result.id} (Status: ${result.status})`,
-          },
-        ],
-      };
-    },
-  );
+    // Reset initialization state
+    serviceContainer = null;
+  },
 });
 
-// Cleanup function
-const gracefulShutdown = async (signal: string) => {
-  console.log(`🔄 Received ${signal}, shutting down services...`);
-
-  // No intervals to clear anymore
-
-  if (serviceContainer) {
-    await shutdownServices(serviceContainer);
-    console.log("✅ Services shut down gracefully");
-  }
-
-  // Reset initialization state
-  serviceContainer = null;
-
-  process.exit(0);
-};
-
-process.on("SIGTERM", () => gracefulShutdown("SIGTERM"));
-process.on("SIGINT", () => gracefulShutdown("SIGINT"));
-
 // Export types
 export type {
   AssetInput,
@@ -1,22 +1,52 @@
 import { EventEmitter } from "events";
+import type {
+  DkgValidator,
+  JsonLdValidationResult,
+} from "@dkg/plugin-dkg-essentials";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
 import { Database } from "../database";
 import { assets, publishingAttempts } from "../database/schema";
 import { eq, and, sql, desc, or } from "drizzle-orm";
 import { AssetInput, AssetStatus } from "../types";
 import { StorageService } from "./StorageService";
 
+export class AssetValidationError extends Error {
+  constructor(public validation: JsonLdValidationResult) {
+    super(
+      "Invalid JSON-LD: " +
+        [
+          ...validation.errors,
+          ...validation.shaclResults
+            .filter((result) => result.severity === "violation")
+            .map((result) => result.message),
+        ].join("; "),
+    );
+    this.name = "AssetValidationError";
+  }
+}
+
 export class AssetService extends EventEmitter {
   constructor(
     private db: Database,
     private storageService: StorageService,
+    private otnodeUrl?: string,
+    private validator?: DkgValidator,
   ) {
     super();
   }
 
   /**
-   * Register an asset for publishing
+   * Register an asset for publishing.
+   * With `auth`, the user needs read access to the SHACL shapes.
+   *
+   * @throws {AssetValidationError} If the content is not valid JSON-LD.
    */
-  async registerAsset(input: AssetInput): Promise<AssetStatus> {
+  async registerAsset(
+    input: AssetInput,
+    auth?: AuthInfo,
+  ): Promise<AssetStatus> {
+    await this.validateContent(input, auth);
+
     // Save content as file
     const { url: contentUrl, size: contentSize } =
       await this.storageService.saveContent(input.content);
@@ -33,6 +63,7 @@ export class AssetService extends EventEmitter {
       privacy: input.publishOptions?.privacy || "private",
       epochs: input.publishOptions?.epochs || 2,
       maxAttempts: input.publishOptions?.maxAttempts || 3,
+      paranetUal: input.publishOptions?.paranetUAL || null,
       retryCount: 0,
     });
 
@@ -54,6 +85,34 @@ export class AssetService extends EventEmitter {
     return assetStatus;
   }
 
+  /**
+   * Validate the content before it is stored or estimated,
+   * so that invalid assets are not paid for by the wallets
+   *
+   * @throws {AssetValidationError} If the content is not valid JSON-LD.
+   */
+  async validateContent(input: AssetInput, auth?: AuthInfo): Promise<void> {
+    if (input.validation?.skip) return;
+    if (!this.validator) {
+      if (input.validation?.shapes?.length) {
+        throw new Error(
+          "Validation against SHACL shapes requires the dkg-essentials plugin",
+        );
+      }
+      return;
+    }
+
+    const validation = await this.validator.validate(
+      typeof input.content === "string"
+        ? input.content
+        : JSON.stringify(input.content),
+      { shapes: input.validation?.shapes, auth },
+    );
+    if (!validation.valid) {
+      throw new AssetValidationError(validation);
+    }
+  }
+
   /**
    * Get asset by ID
    */
@@ -367,7 +426,7 @@ export class AssetService extends EventEmitter {
       workerId: process.pid.toString(),
       walletAddress: wallet.address,
       walletId: wallet.id,
-      otnodeUrl: process.env.DKG_ENDPOINT,
+      otnodeUrl: this.otnodeUrl,
       blockchain: wallet.blockchain,
       status: "started",
       startedAt: sql`NOW()`,
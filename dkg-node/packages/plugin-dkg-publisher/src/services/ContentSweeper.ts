@@ -0,0 +1,86 @@
+import { Database, assets } from "../database";
+import { ne } from "drizzle-orm";
+import { StorageService } from "./StorageService";
+
+/**
+ * Deletes stored content files that are no longer needed for publishing,
+ * i.e. files whose assets are all published, or that were never referenced
+ * by any asset (i.e. when saving the asset failed).
+ */
+export class ContentSweeper {
+  private sweepInterval: NodeJS.Timeout | null = null;
+
+  constructor(
+    private db: Database,
+    private storageService: StorageService,
+    /**
+     * Files modified more recently are kept, since their assets
+     * may not be stored in the database yet.
+     */
+    private gracePeriodMs: number = 60 * 60 * 1000,
+  ) {}
+
+  /**
+   * Start sweeping periodically
+   */
+  start(intervalMs: number = 60 * 60 * 1000): void {
+    if (this.sweepInterval) {
+      console.log("Content sweeper already running");
+      return;
+    }
+
+    console.log(
+      `🧹 Content sweeper started (sweeping every ${intervalMs / 1000} seconds)`,
+    );
+    this.sweepInterval = setInterval(async () => {
+      try {
+        await this.sweep();
+      } catch (error) {
+        console.error("Content sweep failed:", error);
+      }
+    }, intervalMs);
+    // Sweeping should not keep the process alive
+    this.sweepInterval.unref();
+  }
+
+  /**
+   * Stop sweeping
+   */
+  stop(): void {
+    if (this.sweepInterval) {
+      clearInterval(this.sweepInterval);
+      this.sweepInterval = null;
+    }
+  }
+
+  /**
+   * Delete the files that are not referenced by unpublished assets
+   * and return their names
+   */
+  async sweep(): Promise<string[]> {
+    const contents = await this.storageService.listContent();
+    if (contents.length === 0) return [];
+
+    const unpublished = await this.db
+      .select({ contentUrl: assets.contentUrl })
+      .from(assets)
+      .where(ne(assets.status, "published"));
+    const referenced = new Set(
+      unpublished.map(({ contentUrl }) => contentUrl.split("/").pop()),
+    );
+
+    const threshold = Date.now() - this.gracePeriodMs;
+    const deleted: string[] = [];
+    for (const { filename, lastModified } of contents) {
+      if (referenced.has(filename) || lastModified.getTime() > threshold)
+        continue;
+
+      await this.storageService.deleteContent(filename);
+      deleted.push(filename);
+    }
+
+    if (deleted.length > 0)
+      console.log(`🧹 Deleted ${deleted.length} unreferenced content files`);
+    return deleted;
+  }
+}
@@ -1,4 +1,13 @@
 import DKG from "dkg.js";
+import {
+  estimatePublishingCost,
+  toDkgQuery,
+  validateSparqlQuery,
+  type PublishingCostEstimate,
+  type SparqlQueryType,
+  type SparqlValidationResult,
+} from "@dkg/plugin-dkg-essentials";
+import type { AssetNQuads } from "@dkg/jsonld-loader";
 import { WalletService } from "./WalletService";
 
 export interface SparqlQueryResult {
@@ -19,9 +28,12 @@ export class DkgService {
   private queryClient: any | null = null;
   private walletService: WalletService;
 
-  constructor(walletService: WalletService) {
-    this.dkgEndpoint = process.env.DKG_ENDPOINT || "http://localhost:8900";
-    this.dkgBlockchain = process.env.DKG_BLOCKCHAIN || "hardhat1:31337";
+  constructor(
+    walletService: WalletService,
+    options: { endpoint?: string; blockchain?: string } = {},
+  ) {
+    this.dkgEndpoint = options.endpoint || "http://localhost:8900";
+    this.dkgBlockchain = options.blockchain || "hardhat1:31337";
     this.walletService = walletService;
     this.initializeQueryClient();
   }
@@ -71,7 +83,7 @@ export class DkgService {
    */
   async executeSparqlQuery(
     query: string,
-    queryType: string = "SELECT",
+    queryType: SparqlQueryType = "SELECT",
   ): Promise<SparqlQueryResult> {
     try {
       // Use the reusable query client or create one if needed
@@ -90,13 +102,21 @@ export class DkgService {
         endpoint: this.dkgEndpoint,
       });
 
-      const queryResult = await dkgClient.graph.query(query, queryType);
+      const dkgQuery = toDkgQuery(query, queryType);
+      const queryResult = await dkgClient.graph.query(
+        dkgQuery.query,
+        dkgQuery.queryType,
+      );
 
       console.log(`✅ SPARQL query executed successfully`);
 
       return {
         success: true,
-        data: queryResult.data,
+        // ASK queries select a single row when they are true
+        data:
+          queryType === "ASK"
+            ? Array.isArray(queryResult.data) && queryResult.data.length > 0
+            : queryResult.data,
       };
     } catch (error: any) {
       console.error(`❌ SPARQL query failed:`, error);
@@ -153,6 +173,24 @@ export class DkgService {
     }
   }
 
+  /**
+   * Estimate the cost of publishing canonicalized content, without submitting it.
+   * Any wallet of the pool may publish it, so their balances are not checked.
+   */
+  async estimatePublishingCost(
+    nquads: AssetNQuads,
+    epochs: number,
+  ): Promise<PublishingCostEstimate> {
+    if (!this.queryClient) {
+      await this.initializeQueryClient();
+      if (!this.queryClient) {
+        throw new Error("Failed to initialize DKG query client");
+      }
+    }
+
+    return estimatePublishingCost(this.queryClient, nquads, { epochs });
+  }
+
   /**
    * Create DKG client for wallet-based operations (publishing)
    */
@@ -197,60 +235,10 @@ export class DkgService {
   }
 
   /**
-   * Validate SPARQL query syntax (basic validation)
+   * Validate SPARQL query syntax and detect its type
    */
-  validateSparqlQuery(query: string): { valid: boolean; error?: string } {
-    try {
-      const normalizedQuery = query.trim().toUpperCase();
-
-      if (!normalizedQuery) {
-        return { valid: false, error: "Query cannot be empty" };
-      }
-
-      // Check for common SPARQL query types
-      const validQueryTypes = ["SELECT", "CONSTRUCT", "ASK", "DESCRIBE"];
-      const startsWithValidType = validQueryTypes.some((type) =>
-        normalizedQuery.startsWith(type),
-      );
-
-      if (!startsWithValidType) {
-        return {
-          valid: false,
-          error: `Query must start with one of: ${validQueryTypes.join(", ")}`,
-        };
-      }
-
-      // Check for WHERE clause (required for most queries)
-      if (
-        normalizedQuery.startsWith("SELECT") ||
-        normalizedQuery.startsWith("CONSTRUCT")
-      ) {
-        if (!normalizedQuery.includes("WHERE")) {
-          return {
-            valid: false,
-            error: "SELECT and CONSTRUCT queries must include a WHERE clause",
-          };
-        }
-      }
-
-      // Check for balanced braces
-      const openBraces = (query.match(/\{/g) || []).length;
-      const closeBraces = (query.match(/\}/g) || []).length;
-
-      if (openBraces !== closeBraces) {
-        return {
-          valid: false,
-          error: "Unbalanced braces in query",
-        };
-      }
-
-      return { valid: true };
-    } catch (error: any) {
-      return {
-        valid: false,
-        error: `Query validation error: ${error.message}`,
-      };
-    }
+  validateSparqlQuery(query: string): SparqlValidationResult {
+    return validateSparqlQuery(query);
   }
 
   /**
@@ -2,6 +2,13 @@ import path from "path";
 import { Database } from "../database";
 import { assets } from "../database/schema";
 import { eq, and, sql } from "drizzle-orm";
+import {
+  getDefaultJsonLdLoader,
+  toAssetNQuads,
+  type DocumentLoader,
+} from "@dkg/jsonld-loader";
+import type { PublishingCostEstimate } from "@dkg/plugin-dkg-essentials";
+import type { AssetInput } from "../types";
 import { publishingLogger as logger } from "./Logger";
 import { DkgService } from "./DkgService";
 
@@ -17,9 +24,33 @@ export class PublishingService {
 
   constructor(
     private db: Database,
-    dkgService?: DkgService,
+    dkgService: DkgService,
+    private storagePath: string = path.resolve(__dirname, "../../storage"),
+    private documentLoader: DocumentLoader = getDefaultJsonLdLoader().load,
   ) {
-    this.dkgService = dkgService || new DkgService();
+    this.dkgService = dkgService;
+  }
+
+  /**
+   * Dry run of publishing an asset: its content is canonicalized like in
+   * `publishAsset` and the cost of publishing it is estimated, without submitting it
+   */
+  async estimateAsset(
+    input: Pick<AssetInput, "content" | "publishOptions">,
+  ): Promise<PublishingCostEstimate> {
+    // Strings are stored as they are and parsed when published
+    const content =
+      typeof input.content === "string"
+        ? JSON.parse(input.content)
+        : input.content;
+    const nquads = await toAssetNQuads(
+      { [input.publishOptions?.privacy || "private"]: content },
+      this.documentLoader,
+    );
+    return this.dkgService.estimatePublishingCost(
+      nquads,
+      input.publishOptions?.epochs || 2,
+    );
   }
 
   /**
@@ -85,10 +116,7 @@ export class PublishingService {
 
         if (filename && asset.contentUrl.includes("/storage/")) {
           // Try direct filesystem access
-          const storagePath =
-            process.env.STORAGE_PATH ||
-            path.resolve(__dirname, "../../storage");
-          const filePath = require("path").resolve(storagePath, filename);
+          const filePath = require("path").resolve(this.storagePath, filename);
           console.log(`🔄 Trying direct file access: ${filePath}`);
 
           const fs = require("fs").promises;
@@ -116,10 +144,12 @@ export class PublishingService {
         console.log(`✅ Content fetched via HTTP`);
       }
 
-      // Wrap content based on privacy
-      const wrappedContent = {
-        [asset.privacy || "private"]: content,
-      };
+      // Wrap content based on privacy, canonicalized here,
+      // since dkg.js would fetch the JSON-LD contexts itself
+      const wrappedContent = await toAssetNQuads(
+        { [asset.privacy || "private"]: content },
+        this.documentLoader,
+      );
 
       // Create DKG client for this wallet
       const dkgClient = this.dkgService.createWalletDKGClient(wallet);
@@ -198,6 +228,32 @@ export class PublishingService {
         })
         .where(eq(assets.id, assetId));
 
+      // The asset is already published, so a failed submission is only recorded
+      if (asset.paranetUal) {
+        try {
+          await dkgClient.asset.submitToParanet(result.UAL, asset.paranetUal);
+          logger.info(`✅ Asset ${assetId} submitted to paranet`, {
+            assetId,
+            ual: result.UAL,
+            paranetUAL: asset.paranetUal,
+          });
+        } catch (error) {
+          const message =
+            error instanceof Error ? error.message : String(error);
+          logger.error(`❌ Paranet submission failed for asset ${assetId}`, {
+            assetId,
+            paranetUAL: asset.paranetUal,
+            error: message,
+          });
+          await this.db
+            .update(assets)
+            .set({
+              statusMessage: `Failed to submit to paranet ${asset.paranetUal}: ${message}`,
+            })
+            .where(eq(assets.id, assetId));
+        }
+      }
+
       // Attempt record updating is handled by the worker
 
       return {
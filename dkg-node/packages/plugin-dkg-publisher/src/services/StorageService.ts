@@ -6,12 +6,9 @@ export class StorageService {
   private storagePath: string;
   private baseUrl: string;
 
-  constructor() {
-    this.storagePath =
-      process.env.STORAGE_PATH || path.resolve(__dirname, "../storage");
-    const serverPort = process.env.PORT || "9200";
-    this.baseUrl =
-      process.env.STORAGE_BASE_URL || `http://localhost:${serverPort}/storage`;
+  constructor(options: { path?: string; baseUrl?: string } = {}) {
+    this.storagePath = options.path || path.resolve(__dirname, "../storage");
+    this.baseUrl = options.baseUrl || "http://localhost:9200/storage";
     console.log(`📁 StorageService initialized:`);
     console.log(`   - storagePath: ${this.storagePath}`);
     console.log(`   - resolved path: ${path.resolve(this.storagePath)}`);
@@ -98,6 +95,26 @@ export class StorageService {
     }
   }
 
+  /**
+   * List stored files with their last modification times
+   */
+  async listContent(): Promise<{ filename: string; lastModified: Date }[]> {
+    const fullStoragePath = path.resolve(this.storagePath);
+    const files = await fsPromises.readdir(fullStoragePath).catch((error) => {
+      if (error.code === "ENOENT") return [];
+      throw error;
+    });
+
+    const contents: { filename: string; lastModified: Date }[] = [];
+    for (const file of files) {
+      if (file.endsWith(".json")) {
+        const stats = await fsPromises.stat(path.join(fullStoragePath, file));
+        contents.push({ filename: file, lastModified: stats.mtime });
+      }
+    }
+    return contents;
+  }
+
   /**
    * Get storage statistics
    */
@@ -10,15 +10,24 @@ import { MetricsService } from "./MetricsService";
 import { HealthMonitor } from "./HealthMonitor";
 import { QueuePoller } from "./QueuePoller";
 import { DkgService } from "./DkgService";
+import { ContentSweeper } from "./ContentSweeper";
 import type { KnowledgeAssetManagerConfig } from "../types";
+import type { DkgValidator } from "@dkg/plugin-dkg-essentials";
+import type { DocumentLoader } from "@dkg/jsonld-loader";
 
 export type ServiceConfig = KnowledgeAssetManagerConfig;
 
 /**
- * Initialize all services and register them in the container
+ * Initialize all services and register them in the container.
+ * Assets are validated before they are queued, if a `validator` is given,
+ * and their JSON-LD contexts are resolved with the `documentLoader`.
  */
 export async function initializeServices(
   config: ServiceConfig,
+  {
+    validator,
+    documentLoader,
+  }: { validator?: DkgValidator; documentLoader?: DocumentLoader } = {},
 ): Promise<ServiceContainer> {
   console.log(`🔧 initializeServices called at ${Date.now()}`);
   const container = new ServiceContainer();
@@ -38,19 +47,32 @@ export async function initializeServices(
   container.register("redis", redis);
 
   // Initialize core services
-  const storageService = new StorageService();
+  const storageService = new StorageService({
+    path: config.storage?.path,
+    baseUrl: config.storage?.baseUrl,
+  });
   container.register("storageService", storageService);
 
   const walletService = new WalletService(db);
   container.register("walletService", walletService);
 
-  const dkgService = new DkgService(walletService);
+  const dkgService = new DkgService(walletService, config.dkg);
   container.register("dkgService", dkgService);
 
-  const assetService = new AssetService(db, storageService);
+  const assetService = new AssetService(
+    db,
+    storageService,
+    config.dkg?.endpoint,
+    validator,
+  );
   container.register("assetService", assetService);
 
-  const publishingService = new PublishingService(db, dkgService);
+  const publishingService = new PublishingService(
+    db,
+    dkgService,
+    config.storage?.path,
+    documentLoader,
+  );
   container.register("publishingService", publishingService);
 
   const queueService = new QueueService(
@@ -73,11 +95,18 @@ export async function initializeServices(
     walletService,
     queueService,
     {
-      pollFrequency: parseInt(process.env.POLL_FREQUENCY || "2000"), // 2 seconds default
+      pollFrequency: config.workers?.pollFrequency ?? 2000, // 2 seconds default
     },
   );
   container.register("queuePoller", queuePoller);
 
+  const contentSweeper = new ContentSweeper(
+    db,
+    storageService,
+    config.storage?.sweepGracePeriod,
+  );
+  container.register("contentSweeper", contentSweeper);
+
   // Connect health monitor to queue service for stuck asset recovery
   queueService.setHealthMonitor(healthMonitor);
 
@@ -87,12 +116,17 @@ export async function initializeServices(
   // Start health monitoring
   healthMonitor.start();
 
+  // Start deleting content files of published assets
+  if (config.storage?.sweepInterval) {
+    contentSweeper.start(config.storage.sweepInterval);
+  }
+
   // Start the intelligent queue poller
   await queuePoller.start();
   console.log("✅ QueuePoller started - managing asset processing queue");
 
   // Start queue workers (concurrency auto-calculated from wallet count)
-  const workerCount = parseInt(process.env.WORKER_COUNT || "1");
+  const workerCount = config.workers?.count ?? 1;
   console.log(
     `🚀 Starting ${workerCount} queue workers (concurrency will be auto-calculated)...`,
   );
@@ -121,6 +155,12 @@ export async function shutdownServices(
       healthMonitor.stop();
     }
 
+    // Stop content sweeper
+    if (container.has("contentSweeper")) {
+      const contentSweeper = container.get<ContentSweeper>("contentSweeper");
+      contentSweeper.stop();
+    }
+
     // Cleanup asset service event listeners
     if (container.has("assetService")) {
       const assetService = container.get<AssetService>("assetService");
@@ -151,7 +191,7 @@ export async function shutdownServices(
 // Re-export all services for convenience
 export { ServiceContainer } from "./ServiceContainer";
 export { WalletService } from "./WalletService";
-export { AssetService } from "./AssetService";
+export { AssetService, AssetValidationError } from "./AssetService";
 export { PublishingService } from "./PublishingService";
 export { QueueService } from "./QueueService";
 export { StorageService } from "./StorageService";
@@ -159,3 +199,5 @@ export { MetricsService } from "./MetricsService";
 export { HealthMonitor } from "./HealthMonitor";
 export { QueuePoller } from "./QueuePoller";
 export { DkgService } from "./DkgService";
+export { validateSparqlQuery } from "@dkg/plugin-dkg-essentials";
+export { ContentSweeper } from "./ContentSweeper";
@@ -17,10 +17,16 @@ export interface KnowledgeAssetManagerConfig {
     concurrency?: number;
     retryDelay?: number;
     maxAttempts?: number;
+    pollFrequency?: number;
   };
   storage?: {
     type: "filesystem" | "s3";
     path?: string;
+    baseUrl?: string;
+    /** How often content files of published assets are deleted, 0 disables it */
+    sweepInterval?: number;
+    /** Files modified more recently than this (in ms) are never deleted */
+    sweepGracePeriod?: number;
     bucket?: string;
     region?: string;
     accessKeyId?: string;
@@ -45,6 +51,17 @@ export interface AssetInput {
     priority?: number;
     epochs?: number;
     maxAttempts?: number;
+    /** UAL of a paranet to submit the asset to, once it is published */
+    paranetUAL?: string;
+  };
+  /**
+   * JSON-LD validation before the asset is queued,
+   * done if the dkg-essentials plugin is registered
+   */
+  validation?: {
+    skip?: boolean;
+    /** IDs of blobs with SHACL shapes in Turtle to validate the content against */
+    shapes?: string[];
   };
 }
 
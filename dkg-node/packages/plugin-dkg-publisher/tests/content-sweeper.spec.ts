@@ -0,0 +1,117 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import { describe, it, beforeEach, afterEach } from "mocha";
+import { expect } from "chai";
+import sinon from "sinon";
+import fs from "fs";
+import os from "os";
+import path from "path";
+// Services are not part of the built plugin
+import { ContentSweeper } from "../src/services/ContentSweeper";
+import { StorageService } from "../src/services/StorageService";
+
+const HOUR = 60 * 60 * 1000;
+
+/** Database returning the content URLs of the unpublished assets */
+const createMockDb = (contentUrls: string[]) =>
+  ({
+    select: () => ({
+      from: () => ({
+        where: async () => contentUrls.map((contentUrl) => ({ contentUrl })),
+      }),
+    }),
+  }) as any;
+
+describe("ContentSweeper", () => {
+  let directory: string;
+  let storageService: StorageService;
+
+  const writeContent = (filename: string, ageMs: number) => {
+    const file = path.join(directory, filename);
+    fs.writeFileSync(file, "{}");
+    const modified = new Date(Date.now() - ageMs);
+    fs.utimesSync(file, modified, modified);
+  };
+
+  beforeEach(() => {
+    sinon.stub(console, "log");
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), "content-sweeper-"));
+    storageService = new StorageService({
+      path: directory,
+      baseUrl: "http://localhost:9200/storage",
+    });
+  });
+
+  afterEach(() => {
+    sinon.restore();
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it("should delete files that are not referenced by unpublished assets", async () => {
+    writeContent("published.json", 2 * HOUR);
+    writeContent("unreferenced.json", 2 * HOUR);
+    const sweeper = new ContentSweeper(createMockDb([]), storageService);
+
+    const deleted = await sweeper.sweep();
+
+    expect(deleted.sort()).to.deep.equal([
+      "published.json",
+      "unreferenced.json",
+    ]);
+    expect(fs.readdirSync(directory)).to.deep.equal([]);
+  });
+
+  it("should keep files of unpublished assets", async () => {
+    writeContent("queued.json", 2 * HOUR);
+    writeContent("published.json", 2 * HOUR);
+    const sweeper = new ContentSweeper(
+      createMockDb(["http://localhost:9200/storage/queued.json"]),
+      storageService,
+    );
+
+    expect(await sweeper.sweep()).to.deep.equal(["published.json"]);
+    expect(fs.readdirSync(directory)).to.deep.equal(["queued.json"]);
+  });
+
+  it("should keep files inside the grace period", async () => {
+    writeContent("new.json", 30 * 60 * 1000);
+    writeContent("old.json", 2 * HOUR);
+    const sweeper = new ContentSweeper(createMockDb([]), storageService);
+
+    expect(await sweeper.sweep()).to.deep.equal(["old.json"]);
+    expect(fs.readdirSync(directory)).to.deep.equal(["new.json"]);
+  });
+
+  it("should use the configured grace period", async () => {
+    writeContent("new.json", 30 * 60 * 1000);
+    writeContent("newer.json", 60 * 1000);
+    const sweeper = new ContentSweeper(
+      createMockDb([]),
+      storageService,
+      10 * 60 * 1000,
+    );
+
+    expect(await sweeper.sweep()).to.deep.equal(["new.json"]);
+    expect(fs.readdirSync(directory)).to.deep.equal(["newer.json"]);
+  });
+
+  it("should ignore files that are not content", async () => {
+    writeContent("notes.txt", 2 * HOUR);
+    const sweeper = new ContentSweeper(createMockDb([]), storageService);
+
+    expect(await sweeper.sweep()).to.deep.equal([]);
+    expect(fs.readdirSync(directory)).to.deep.equal(["notes.txt"]);
+  });
+
+  it("should not keep the process alive while sweeping periodically", () => {
+    const sweeper = new ContentSweeper(createMockDb([]), storageService);
+
+    sweeper.start(HOUR);
+    try {
+      expect((sweeper as any).sweepInterval.hasRef()).to.equal(false);
+    } finally {
+      sweeper.stop();
+    }
+    expect((sweeper as any).sweepInterval).to.equal(null);
+  });
+});
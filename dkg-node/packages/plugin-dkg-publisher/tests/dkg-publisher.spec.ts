@@ -128,6 +128,27 @@ describe("@dkg/plugin-dkg-publisher checks", () => {
       expect(response.body.error).to.include("content");
     });
 
+    it("should validate required fields in cost estimation", async () => {
+      const response = await request(app)
+        .post("/api/dkg/assets/estimate")
+        .send({ publishOptions: { epochs: 2 } })
+        .expect(400);
+
+      expect(response.body.error).to.include("content");
+    });
+
+    it("should not estimate costs before the services are initialized", async () => {
+      const response = await request(app)
+        .post("/api/dkg/assets/estimate")
+        .send({
+          content: createTestAsset().content,
+          publishOptions: { privacy: "public", epochs: 4 },
+        })
+        .expect(503);
+
+      expect(response.body.error).to.be.a("string");
+    });
+
     it("should handle malformed JSON requests properly", async () => {
       try {
         await request(app)
@@ -158,6 +179,80 @@ describe("@dkg/plugin-dkg-publisher checks", () => {
     });
   });
 
+  describe("SPARQL Query Validation", () => {
+    it("should accept valid queries starting with PREFIX", async () => {
+      const response = await request(app)
+        .post("/api/dkg/query")
+        .send({
+          query:
+            "PREFIX schema: <http://schema.org/>\nSELECT ?name WHERE { ?s schema:name ?name }",
+        });
+
+      // Valid queries get past validation - services are not initialized
+      expect(response.status).to.equal(503);
+    });
+
+    it("should report the position of syntax errors", async () => {
+      const response = await request(app)
+        .post("/api/dkg/query")
+        .send({ query: "SELECT ?s WHERE {\n  ?s ?p ?o . FILTER(?o = )\n}" })
+        .expect(400);
+
+      expect(response.body.success).to.equal(false);
+      expect(response.body.validation).to.deep.include({
+        valid: false,
+        line: 2,
+        column: 26,
+      });
+      expect(response.body.error).to.include("line 2, column 26");
+    });
+
+    it("should reject SPARQL Update operations", async () => {
+      const response = await request(app)
+        .post("/api/dkg/query")
+        .send({ query: "INSERT DATA { <urn:a> <urn:b> <urn:c> }" })
+        .expect(400);
+
+      expect(response.body.error).to.include("Update");
+    });
+
+    it("should reject a query type that does not match the query", async () => {
+      const response = await request(app)
+        .post("/api/dkg/query")
+        .send({ query: "ASK { ?s ?p ?o }", queryType: "SELECT" })
+        .expect(400);
+
+      expect(response.body.validation.queryType).to.equal("ASK");
+    });
+
+    it("should parse queries when validation is disabled", async () => {
+      for (const query of [
+        "SELECT ?s WHERE {",
+        "INSERT DATA { <urn:a> <urn:b> <urn:c> }",
+      ]) {
+        const response = await request(app)
+          .post("/api/dkg/query")
+          .send({ query, validate: false })
+          .expect(400);
+
+        expect(response.body.validation.valid).to.equal(false);
+      }
+    });
+
+    it("should use the detected query type when validation is disabled", async () => {
+      const response = await request(app)
+        .post("/api/dkg/query")
+        .send({
+          query: "ASK { ?s ?p ?o }",
+          queryType: "SELECT",
+          validate: false,
+        });
+
+      // Gets past validation - services are not initialized
+      expect(response.status).to.equal(503);
+    });
+  });
+
   describe("Data Structure Processing", () => {
     it("should process different content types correctly", async () => {
       const stringContent = createTestAsset({ 
@@ -1,4 +1,4 @@
-import { DkgPlugin } from "@dkg/plugins";
+import { defineDkgPlugin } from "@dkg/plugins";
 import type { express } from "@dkg/plugins/types";
 import { openAPIRoute, z } from "@dkg/plugin-swagger";
 import {
@@ -268,135 +268,140 @@ function createCustomOAuthRouter(options: {
 export { DemoOAuthStorageProvider };
 export type { OAuthStorageProvider, CodeConfirmationData };
 
-const oauthPlugin =
-  <Credentials>({
-    issuerUrl,
-    schema,
-    login,
-    logout,
-    loginPageUrl,
-    storage,
-    scopesSupported,
-    tokenExpirationInSeconds = 3600, // 1h
-    refreshTokenExpirationInSeconds = 86400, // 1d
-  }: {
-    issuerUrl: URL;
-    schema: z.Schema<Credentials>;
-    login: (credentials: Credentials) => Promise<{
-      scopes: string[];
-      extra?: Record<string, unknown>;
-    }>;
-    logout?: () => Promise<void>;
-    loginPageUrl: URL;
-    storage: OAuthStorageProvider;
-    tokenExpirationInSeconds?: number;
-    refreshTokenExpirationInSeconds?: number;
-    scopesSupported?: string[];
-  }): DkgPlugin =>
-  (_, __, api) => {
-    const provider = makeProvider({
-      storage,
-      scopesSupported,
-      tokenExpirationInSeconds,
-      refreshTokenExpirationInSeconds,
-      loginPageUrl,
-    });
+const oauthPlugin = <Credentials>({
+  issuerUrl,
+  schema,
+  login,
+  logout,
+  loginPageUrl,
+  storage,
+  scopesSupported,
+  tokenExpirationInSeconds = 3600, // 1h
+  refreshTokenExpirationInSeconds = 86400, // 1d
+}: {
+  issuerUrl: URL;
+  schema: z.Schema<Credentials>;
+  login: (credentials: Credentials) => Promise<{
+    scopes: string[];
+    extra?: Record<string, unknown>;
+  }>;
+  logout?: () => Promise<void>;
+  loginPageUrl: URL;
+  storage: OAuthStorageProvider;
+  tokenExpirationInSeconds?: number;
+  refreshTokenExpirationInSeconds?: number;
+  scopesSupported?: string[];
+}) =>
+  defineDkgPlugin({
+    name: "oauth",
+    // Sets "res.locals.provider", required by the "authorized" middleware
+    after: ["default"],
+    before: ["*"],
+    registerApi(_ctx, api) {
+      const provider = makeProvider({
+        storage,
+        scopesSupported,
+        tokenExpirationInSeconds,
+        refreshTokenExpirationInSeconds,
+        loginPageUrl,
+      });
 
-    api.post(
-      "/login",
-      openAPIRoute(
-        {
-          tag: "Auth",
-          summary: "Login route",
-          description:
-            "Confirm user credentials and enable the OAuth code for the client",
-          query: z.object({
-            code: z.string({ message: "Missing code parameter." }).openapi({
-              description:
-                "Authorization code, retrieved from oauth server's /authorize route",
-            }),
-            includeRefreshToken: z.enum(["1", "0"]).optional().openapi({
-              description:
-                "If a refresh token should be issued. Used in 'remember me' sign in functionality.",
-            }),
-          }),
-          body: schema,
-          response: {
-            description: "User logged in successfully",
-            schema: z.object({
-              targetUrl: z.string().openapi({
+      api.post(
+        "/login",
+        openAPIRoute(
+          {
+            tag: "Auth",
+            summary: "Login route",
+            description:
+              "Confirm user credentials and enable the OAuth code for the client",
+            query: z.object({
+              code: z.string({ message: "Missing code parameter." }).openapi({
                 description:
-                  "URL to redirect to in order to complete the oauth flow. " +
-                  "Includes the authorization code.",
+                  "Authorization code, retrieved from oauth server's /authorize route",
+              }),
+              includeRefreshToken: z.enum(["1", "0"]).optional().openapi({
+                description:
+                  "If a refresh token should be issued. Used in 'remember me' sign in functionality.",
               }),
             }),
+            body: schema,
+            response: {
+              description: "User logged in successfully",
+              schema: z.object({
+                targetUrl: z.string().openapi({
+                  description:
+                    "URL to redirect to in order to complete the oauth flow. " +
+                    "Includes the authorization code.",
+                }),
+              }),
+            },
           },
-        },
-        async (req, res) => {
-          try {
-            const authorizationCode = req.query.code;
-            const credentials = await schema.parseAsync(req.body);
-            const user = await login(credentials);
-
-            const targetUrl = await provider.authorizeConfirm(
-              authorizationCode,
-              {
-                includeRefreshToken: req.query.includeRefreshToken === "1",
-                scopes: user.scopes,
-                extra: user.extra,
-              },
-            );
-
-            res.status(200).json({ targetUrl: targetUrl.toString() });
-          } catch (error) {
-            if (error instanceof InsufficientScopeError) {
-              res.status(403).json(error.toResponseObject());
-            } else if (error instanceof ServerError) {
-              res.status(500).json(error.toResponseObject());
-            } else if (error instanceof OAuthError) {
-              res.status(400).json(error.toResponseObject());
-            } else {
-              res.status(401).json({ error: "Invalid credentials." });
+          async (req, res) => {
+            try {
+              const authorizationCode = req.query.code;
+              const credentials = await schema.parseAsync(req.body);
+              const user = await login(credentials);
+
+              const targetUrl = await provider.authorizeConfirm(
+                authorizationCode,
+                {
+                  includeRefreshToken: req.query.includeRefreshToken === "1",
+                  scopes: user.scopes,
+                  extra: user.extra,
+                },
+              );
+
+              res.status(200).json({ targetUrl: targetUrl.toString() });
+            } catch (error) {
+              if (error instanceof InsufficientScopeError) {
+                res.status(403).json(error.toResponseObject());
+              } else if (error instanceof ServerError) {
+                res.status(500).json(error.toResponseObject());
+              } else if (error instanceof OAuthError) {
+                res.status(400).json(error.toResponseObject());
+              } else {
+                res.status(401).json({ error: "Invalid credentials." });
+              }
             }
-          }
-        },
-      ),
-    );
-
-    api.post(
-      "/logout",
-      openAPIRoute(
-        {
-          tag: "Auth",
-          summary: "Logout route",
-          description:
-            "If implemented, runs the logout function. If not, just returns a 200 response.",
-          response: {
-            description: "Logout successful",
-            schema: z.any(),
           },
-        },
-        async (_, res) => {
-          if (logout) await logout();
-          res.status(200).send();
-        },
-      ),
-    );
-
-    // Use custom OAuth router instead of mcpAuthRouter to support HTTP
-    api.use(
-      createCustomOAuthRouter({
-        issuerUrl,
-        provider,
-        scopesSupported,
-      }),
-    );
-
-    api.use((_, res, next) => {
-      res.locals.provider = provider;
-      next();
-    });
-  };
+        ),
+      );
+
+      api.post(
+        "/logout",
+        openAPIRoute(
+          {
+            tag: "Auth",
+            summary: "Logout route",
+            description:
+              "If implemented, runs the logout function. If not, just returns a 200 response.",
+            response: {
+              description: "Logout successful",
+              schema: z.any(),
+            },
+          },
+          async (_, res) => {
+            if (logout) await logout();
+            res.status(200).send();
+          },
+        ),
+      );
+
+      // Use custom OAuth router instead of mcpAuthRouter to support HTTP
+      api.use(
+        createCustomOAuthRouter({
+          issuerUrl,
+          provider,
+          scopesSupported,
+        }),
+      );
+
+      api.use((_, res, next) => {
+        res.locals.provider = provider;
+        next();
+      });
+    },
+  });
 
 export default oauthPlugin;
 
@@ -30,6 +30,7 @@ import {
 import { OpenApiVersion } from "@asteasolutions/zod-to-openapi/dist/openapi-generator";
 import type { RequestHandler, Router } from "express";
 import type { ComponentsObject } from "openapi3-ts/oas31";
+import { getRouterPrefix } from "@dkg/plugins";
 
 import { z } from "./z";
 import { getSchemaOfOpenAPIRoute } from "./openAPIRoute";
@@ -215,21 +216,6 @@ const asZodObject = (type?: z.ZodType) => {
   return undefined;
 };
 
-// Disable naming convention because fast_slash comes from Express.
-const regexPrefixToString = (path?: {
-  fast_slash: unknown;
-  toString: () => string;
-}): string => {
-  if (!path) return "";
-  if (path.fast_slash) {
-    return "";
-  }
-  return path
-    .toString()
-    .replace(`/^\\`, "")
-    .replace("(?:\\/(?=$))?(?=\\/|$)/i", "");
-};
-
 export const getRoutes = (routers: Router[]) => {
   const routes: {
     path: string;
@@ -242,12 +228,9 @@ export const getRoutes = (routers: Router[]) => {
       for (const subMiddleware of middleware.handle.stack) {
         processMiddleware(
           subMiddleware,
-          // Use 'prefix' property of a patched express.Router
-          //
-          // Every router used in the express application needs to register
-          // it's own prefix as an additional property. This is required
-          // because express layers no longer provide the 'regexp' property.
-          `${prefix}${regexPrefixToString(middleware.handle.prefix)}`,
+          // Express layers no longer provide the 'regexp' property, so the
+          // prefix is only known for routers of namespaced plugins.
+          `${prefix}${getRouterPrefix(middleware.handle)}`,
         );
       }
     }
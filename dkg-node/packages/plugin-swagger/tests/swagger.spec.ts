@@ -17,6 +17,7 @@ import {
   createMockDkgClient,
   createMcpServerClientPair,
 } from "@dkg/plugins/testing";
+import { createNamespacedRouter } from "@dkg/plugins";
 
 // Mock DKG context
 const mockDkgContext = {
@@ -758,6 +759,17 @@ describe("@dkg/plugin-swagger checks", function () {
         expect(routes).to.be.an("array");
       });
 
+      it("should prefix routes of namespaced routers", () => {
+        const mainRouter = express.Router();
+        const namespacedRouter = createNamespacedRouter("protected");
+
+        namespacedRouter.get("/nested", (req, res) => res.json({}));
+        mainRouter.use("/protected", namespacedRouter);
+
+        const routes = getRoutes([mainRouter]);
+        expect(routes.map((r) => r.path)).to.deep.equal(["/protected/nested"]);
+      });
+
       it("should ignore routes with path '/'", () => {
         const router = express.Router();
         router.get("/", (req, res) => res.json({ root: true }));
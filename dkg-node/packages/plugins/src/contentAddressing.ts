@@ -0,0 +1,144 @@
+import { createHash } from "crypto";
+import { ReadableStream, TransformStream } from "stream/web";
+import { v4 as uuid_v4 } from "uuid";
+import type { BlobStorageHandlers } from "./helpers";
+
+/** IDs of the stored contents, by their SHA-256 digests */
+const contentId = (digest: string) => `sha256-${digest}`;
+/** IDs of the contents being uploaded, before their digests are known */
+const uploadId = () => `upload-${uuid_v4()}`;
+
+const isInternalId = (id: string) =>
+  id.startsWith("sha256-") || id.startsWith("upload-");
+
+const assertExternalId = (id: string) => {
+  if (isInternalId(id)) throw new Error(`Invalid blob ID: ${id}`);
+};
+
+const emptyStream = () =>
+  new ReadableStream<Uint8Array>({ start: (controller) => controller.close() });
+
+/**
+ * Stores each distinct content only once, keyed by its SHA-256 digest.
+ * Blobs are stored as empty entries, with the digest of their content
+ * as `digest` metadata, and each content keeps the number of blobs
+ * referencing it, so that it is deleted with the last of them.
+ *
+ * Reference counts are only updated atomically within a single process.
+ * The contents are internal, so they are not found by their IDs.
+ */
+export const withContentAddressing = (
+  handlers: BlobStorageHandlers,
+): BlobStorageHandlers => {
+  // Serializes the reference count updates of each content
+  const locks = new Map<string, Promise<unknown>>();
+  const withLock = <T>(digest: string, fn: () => Promise<T>) => {
+    const result = (locks.get(digest) ?? Promise.resolve()).then(fn, fn);
+    const lock = result.catch(() => {});
+    locks.set(digest, lock);
+    lock.then(() => {
+      if (locks.get(digest) === lock) locks.delete(digest);
+    });
+    return result;
+  };
+
+  const move =
+    handlers.move ??
+    (async (from: string, to: string) => {
+      const data = await handlers.get(from);
+      if (!data) throw new Error(`Blob ${from} not found`);
+      await handlers.put(to, data, { name: to });
+      await handlers.delete(from);
+    });
+
+  const getDigest = (id: string) =>
+    handlers
+      .info(id)
+      .then((metadata) => metadata?.digest as string | undefined);
+
+  const acquire = (digest: string, uploaded: string) =>
+    withLock(digest, async () => {
+      const content = await handlers.info(contentId(digest));
+      if (content) await handlers.delete(uploaded);
+      else await move(uploaded, contentId(digest));
+
+      await handlers.updateMetadata(contentId(digest), {
+        name: contentId(digest),
+        references: ((content?.references as number) ?? 0) + 1,
+      });
+    });
+
+  const release = (digest: string) =>
+    withLock(digest, async () => {
+      const content = await handlers.info(contentId(digest));
+      if (!content) return;
+
+      const references = ((content.references as number) ?? 1) - 1;
+      if (references > 0)
+        await handlers.updateMetadata(contentId(digest), {
+          name: contentId(digest),
+          references,
+        });
+      else await handlers.delete(contentId(digest));
+    });
+
+  return {
+    info: async (id) => {
+      if (isInternalId(id)) return null;
+      const metadata = await handlers.info(id);
+      if (!metadata?.digest) return metadata;
+
+      const content = await handlers.info(contentId(metadata.digest));
+      return content && { ...metadata, size: content.size };
+    },
+    // Blobs stored before the content-addressed mode was enabled keep their data
+    get: async (id, range) => {
+      if (isInternalId(id)) return null;
+      const digest = await getDigest(id);
+      return handlers.get(digest ? contentId(digest) : id, range);
+    },
+    put: async (id, data, metadata) => {
+      assertExternalId(id);
+      const hash = createHash("sha256");
+      const uploaded = uploadId();
+      try {
+        await handlers.put(
+          uploaded,
+          data.pipeThrough(
+            new TransformStream<Uint8Array, Uint8Array>({
+              transform(chunk, controller) {
+                hash.update(chunk);
+                controller.enqueue(chunk);
+              },
+            }),
+          ),
+          { name: uploaded },
+        );
+      } catch (error) {
+        await handlers.delete(uploaded).catch(() => {});
+        throw error;
+      }
+      const digest = hash.digest("hex");
+      await acquire(digest, uploaded);
+
+      // Overwritten content is released only after the new one is stored
+      const previous = await getDigest(id);
+      await handlers.put(id, emptyStream(), { ...metadata, digest });
+      if (previous) await release(previous);
+    },
+    delete: async (id) => {
+      if (isInternalId(id)) return;
+      const digest = await getDigest(id);
+      await handlers.delete(id);
+      if (digest) await release(digest);
+    },
+    updateMetadata: async (id, metadata) => {
+      assertExternalId(id);
+      await handlers.updateMetadata(id, metadata);
+    },
+    list: async function* (options) {
+      for await (const id of handlers.list(options))
+        if (!isInternalId(id)) yield id;
+    },
+  };
+};
@@ -0,0 +1,123 @@
+export type DkgPluginDependencies = {
+  /** Used to identify the plugin in errors and dependency declarations */
+  name?: string;
+  /** Plugins that must be registered, and run before this one */
+  requires?: string[];
+  /** Plugins that this one must run before, if registered. "*" means all others. */
+  before?: string[];
+  /** Plugins that this one must run after, if registered. "*" means all others. */
+  after?: string[];
+};
+
+export class PluginDependencyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PluginDependencyError";
+  }
+}
+
+export const getPluginName = (plugin: DkgPluginDependencies, index: number) =>
+  plugin.name ?? `plugin #${index}`;
+
+/**
+ * Returns the plugins sorted so that every plugin runs after its
+ * dependencies. Plugins without ordering constraints keep their
+ * relative order from the input.
+ *
+ * A "*" in `before`/`after` applies to all plugins that do not themselves
+ * declare "*" in the same list, so i.e. two plugins declaring `after: ["*"]`
+ * can still be ordered between themselves by name.
+ *
+ * @throws {PluginDependencyError} On duplicate names, missing required
+ * plugins, or dependency cycles.
+ */
+export const sortPlugins = <T extends DkgPluginDependencies>(
+  plugins: T[],
+): T[] => {
+  const indexes = new Map<string, number>();
+  plugins.forEach((plugin, i) => {
+    if (!plugin.name) return;
+    if (indexes.has(plugin.name))
+      throw new PluginDependencyError(
+        `Plugin "${plugin.name}" is registered more than once.`,
+      );
+    indexes.set(plugin.name, i);
+  });
+
+  const edges = plugins.map(() => new Set<number>());
+  const addEdge = (from: number, to: number) => {
+    if (from !== to) edges[from]!.add(to);
+  };
+  const resolve = (names: string[] = [], wildcard: (i: number) => boolean) =>
+    names.flatMap((name) => {
+      if (name === "*")
+        return plugins.flatMap((_, i) => (wildcard(i) ? [] : [i]));
+      const i = indexes.get(name);
+      return i === undefined ? [] : [i];
+    });
+
+  plugins.forEach((plugin, i) => {
+    for (const name of plugin.requires ?? []) {
+      const dependency = indexes.get(name);
+      if (dependency === undefined)
+        throw new PluginDependencyError(
+          `Plugin "${getPluginName(plugin, i)}" requires plugin "${name}", which is not registered.`,
+        );
+      addEdge(dependency, i);
+    }
+    const hasWildcard = (list: "before" | "after") => (j: number) =>
+      !!plugins[j]![list]?.includes("*");
+    for (const j of resolve(plugin.after, hasWildcard("after"))) addEdge(j, i);
+    for (const j of resolve(plugin.before, hasWildcard("before")))
+      addEdge(i, j);
+  });
+
+  const inDegree = plugins.map(() => 0);
+  edges.forEach((targets) => targets.forEach((j) => inDegree[j]!++));
+
+  const sorted: number[] = [];
+  const ready = new Set(inDegree.flatMap((d, i) => (d === 0 ? [i] : [])));
+  while (ready.size) {
+    // Pick the first registered plugin, to keep the original order when possible
+    const next = Math.min(...ready);
+    ready.delete(next);
+    sorted.push(next);
+    for (const j of edges[next]!) if (--inDegree[j]! === 0) ready.add(j);
+  }
+
+  if (sorted.length < plugins.length) {
+    const cycle = findCycle(edges, new Set(sorted));
+    throw new PluginDependencyError(
+      "Plugin dependency cycle detected: " +
+        cycle.map((i) => `"${getPluginName(plugins[i]!, i)}"`).join(" -> "),
+    );
+  }
+
+  return sorted.map((i) => plugins[i]!);
+};
+
+const findCycle = (edges: Set<number>[], sorted: Set<number>): number[] => {
+  const visiting: number[] = [];
+  const visited = new Set<number>(sorted);
+
+  const visit = (i: number): number[] | null => {
+    const position = visiting.indexOf(i);
+    if (position !== -1) return [...visiting.slice(position), i];
+    if (visited.has(i)) return null;
+
+    visiting.push(i);
+    for (const j of edges[i]!) {
+      const cycle = visit(j);
+      if (cycle) return cycle;
+    }
+    visiting.pop();
+    visited.add(i);
+    return null;
+  };
+
+  for (let i = 0; i < edges.length; i++) {
+    const cycle = visit(i);
+    if (cycle) return cycle;
+  }
+  return [];
+};
@@ -2,21 +2,98 @@ import express from "express";
 import { z } from "zod";
 import { v4 as uuid_v4 } from "uuid";
 import mime from "mime-types";
-import type { BlobData, BlobMetadata, BlobStorage } from "./types";
+import { TransformStream } from "stream/web";
+import { withContentAddressing } from "./contentAddressing";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import type {
+  BlobAccess,
+  BlobData,
+  BlobListOptions,
+  BlobListResult,
+  BlobMetadata,
+  BlobRange,
+  BlobStorage,
+} from "./types";
 
 export { express };
 export { z };
 
-export const createBlobStorage = (handlers: {
+export type BlobStorageHandlers = {
   delete: (id: string) => Promise<void>;
-  get: (id: string) => Promise<BlobData | null>;
+  /** Only the `range` of the data, if set. See `sliceBlobData`. */
+  get: (id: string, range?: BlobRange) => Promise<BlobData | null>;
   put: BlobStorage["put"];
   info: (id: string) => Promise<Omit<BlobMetadata, "name"> | null>;
-}): BlobStorage => {
-  const getId = (name: string) => `${uuid_v4()}_${name}`;
+  /** Replaces the stored metadata of an existing blob */
+  updateMetadata: (
+    id: string,
+    metadata: Omit<BlobMetadata, "lastModified" | "size">,
+  ) => Promise<void>;
+  /** IDs of the stored blobs in ascending order, starting after `after` */
+  list: (options: { prefix?: string; after?: string }) => AsyncIterable<string>;
+  /**
+   * Moves a blob with its metadata to another ID. Optional, since it is
+   * only used by the content-addressed mode, which otherwise copies the data.
+   */
+  move?: (from: string, to: string) => Promise<void>;
+};
+
+export type BlobRetention = {
+  /** Time to live of blobs since their last modification, in milliseconds */
+  ttl?: number;
+  /** Time to live by MIME type (i.e. "image/*"), overriding `ttl` */
+  ttlByMimeType?: Record<string, number>;
+};
+
+export type BlobStorageOptions = {
+  /**
+   * Stores identical contents only once, keyed by their SHA-256 digests,
+   * which are returned as `digest` by `info`. See `withContentAddressing`.
+   */
+  contentAddressed?: boolean;
+  /**
+   * Maximum total size of the blobs of each owner, in bytes.
+   * The usages of all owners are computed by listing all blobs once,
+   * then kept up to date by the writes of this instance and recomputed
+   * by every `sweep`. Puts of the same owner wait for each other.
+   * Instances sharing the storage are not coordinated, so until the next
+   * sweep they do not see each other's writes and the quota can be exceeded.
+   */
+  quota?: number;
+  /** Blobs expired according to the policy are deleted by `sweep` */
+  retention?: BlobRetention;
+};
+
+export class BlobQuotaExceededError extends Error {
+  constructor(public quota: number) {
+    super(`Storage quota of ${quota} bytes exceeded`);
+    this.name = "BlobQuotaExceededError";
+  }
+}
+
+/** Time after which the blob expires, in milliseconds since the epoch */
+const getExpiration = (metadata: BlobMetadata, retention?: BlobRetention) => {
+  if (metadata.expiresAt) return new Date(metadata.expiresAt).getTime();
+
+  const ttl =
+    Object.entries(retention?.ttlByMimeType ?? {}).find(([pattern]) =>
+      matchesMimeType(metadata.mimeType, pattern),
+    )?.[1] ?? retention?.ttl;
+  if (ttl === undefined || !metadata.lastModified) return undefined;
+  return new Date(metadata.lastModified).getTime() + ttl;
+};
+
+export const createBlobStorage = (
+  handlers: BlobStorageHandlers,
+  { contentAddressed = false, quota, retention }: BlobStorageOptions = {},
+): BlobStorage => {
+  if (contentAddressed) handlers = withContentAddressing(handlers);
+
+  // Path separators would make the ID unusable, i.e. in file system storages
+  const getId = (name: string) => `${uuid_v4()}_${name.replace(/[/\\]/g, "_")}`;
   const getName = (id: string) => id.substring(37);
 
-  const info = async (id: string) => {
+  const info = async (id: string): Promise<BlobMetadata | null> => {
     const metadata = await handlers.info(id);
     if (!metadata) return null;
 
@@ -28,23 +105,252 @@ export const createBlobStorage = (handlers: {
     };
   };
 
+  // Total size of the blobs of each owner, cached between sweeps
+  let usages: Promise<Map<string, number>> | undefined;
+  const getUsages = () =>
+    (usages ??= (async () => {
+      const totals = new Map<string, number>();
+      for await (const id of handlers.list({})) {
+        addTo(totals, await handlers.info(id), 1);
+      }
+      return totals;
+    })().catch((error) => {
+      usages = undefined;
+      throw error;
+    }));
+  const usage = async (owner: string) => (await getUsages()).get(owner) ?? 0;
+
+  /** Updates the cached usages, if any, after a blob is replaced */
+  const updateUsages = async (
+    before: Pick<BlobMetadata, "owner" | "size"> | null,
+    after: Pick<BlobMetadata, "owner" | "size"> | null,
+  ) => {
+    const totals = await usages?.catch(() => undefined);
+    if (!totals) return;
+    addTo(totals, before, -1);
+    addTo(totals, after, 1);
+  };
+
+  // Checked and written one at a time, so that the checks see the previous puts
+  const ownerPuts = new Map<string, Promise<void>>();
+  const withOwnerLock = (owner: string, fn: () => Promise<void>) => {
+    const current = (ownerPuts.get(owner) ?? Promise.resolve())
+      .catch(() => {})
+      .then(fn);
+    ownerPuts.set(owner, current);
+    current
+      .finally(() => {
+        if (ownerPuts.get(owner) === current) ownerPuts.delete(owner);
+      })
+      .catch(() => {});
+    return current;
+  };
+
+  // The quota is enforced while streaming, so the size does not need to be known
+  const putWithinQuota = async (
+    id: string,
+    data: BlobData,
+    metadata: Omit<BlobMetadata, "lastModified" | "size"> & { owner: string },
+    quota: number,
+  ) => {
+    const existing = await handlers.info(id);
+    const available =
+      quota -
+      (await usage(metadata.owner)) +
+      // Overwritten content does not count
+      (existing && existing.owner === metadata.owner
+        ? (existing.size ?? 0)
+        : 0);
+    if (available < 0) throw new BlobQuotaExceededError(quota);
+
+    let size = 0;
+    const limited = data.pipeThrough(
+      new TransformStream<Uint8Array, Uint8Array>({
+        transform(chunk, controller) {
+          size += chunk.byteLength;
+          if (size > available)
+            controller.error(new BlobQuotaExceededError(quota));
+          else controller.enqueue(chunk);
+        },
+      }),
+    );
+    try {
+      await handlers.put(id, limited, metadata);
+    } catch (error) {
+      if (size <= available) throw error;
+      // Partially stored new blob
+      if (!existing) await handlers.delete(id).catch(() => {});
+      throw new BlobQuotaExceededError(quota);
+    }
+    await updateUsages(existing, { owner: metadata.owner, size });
+  };
+
+  const put: BlobStorage["put"] = async (id, data, metadata) => {
+    const { owner } = metadata;
+    if (quota !== undefined && owner !== undefined) {
+      return withOwnerLock(owner, () =>
+        putWithinQuota(id, data, { ...metadata, owner }, quota),
+      );
+    }
+    // Without cached usages, there is nothing to update
+    if (!usages) return handlers.put(id, data, metadata);
+
+    const existing = await handlers.info(id);
+    await handlers.put(id, data, metadata);
+    await updateUsages(existing, await handlers.info(id));
+  };
+
   return {
     generateId: (metadata) => getId(metadata.name),
     info,
     exists: (id) => info(id).then((info) => info !== null),
-    put: handlers.put.bind(this),
+    put,
     create: async (data, metadata) => {
       const id = getId(metadata.name);
-      await handlers.put(id, data, metadata);
+      await put(id, data, metadata);
       return { id };
     },
-    get: async (id) => {
+    get: async (id, { range } = {}) => {
       const metadata = await info(id);
       if (!metadata) return null;
-      const data = await handlers.get(id);
+      const data = await handlers.get(id, range);
       if (!data) return null;
       return { data, metadata };
     },
-    delete: (id) => handlers.delete(id),
+    delete: async (id) => {
+      const existing = usages ? await handlers.info(id) : null;
+      await handlers.delete(id);
+      await updateUsages(existing, null);
+    },
+    updateMetadata: async (id, metadata) => {
+      const current = await info(id);
+      if (!current) return null;
+
+      await handlers.updateMetadata(id, {
+        ...current,
+        ...metadata,
+        // Determined by the stored data
+        size: undefined,
+        lastModified: undefined,
+      });
+      const updated = await info(id);
+      // The owner can change
+      await updateUsages(current, updated);
+      return updated;
+    },
+    list: async ({
+      prefix,
+      owner,
+      mimeType,
+      cursor,
+      limit = 100,
+    }: BlobListOptions = {}) => {
+      const blobs: BlobListResult["blobs"] = [];
+      for await (const id of handlers.list({ prefix, after: cursor })) {
+        // Internal blobs, i.e. chunks of uploads in progress
+        if (id.startsWith(".")) continue;
+
+        const metadata = await info(id);
+        if (!metadata) continue;
+        if (owner !== undefined && metadata.owner !== owner) continue;
+        if (mimeType && !matchesMimeType(metadata.mimeType, mimeType)) continue;
+
+        // One more blob than requested, so the cursor is only set if needed
+        if (blobs.length === limit) return { blobs, cursor: blobs.at(-1)!.id };
+        blobs.push({ ...metadata, id });
+      }
+      return { blobs };
+    },
+    usage,
+    sweep: async () => {
+      const now = Date.now();
+      const expired: string[] = [];
+      // Recomputed from the same listing, to see the writes of other instances
+      const totals = new Map<string, number>();
+      for await (const id of handlers.list({})) {
+        const metadata = await info(id);
+        const expiration = metadata
+          ? getExpiration(metadata, retention)
+          : undefined;
+        if (expiration !== undefined && expiration <= now) expired.push(id);
+        else addTo(totals, metadata, 1);
+      }
+      // Deleted after listing, not to interfere with it
+      for (const id of expired) await handlers.delete(id);
+      usages = Promise.resolve(totals);
+      return expired;
+    },
   };
 };
+
+/** Adds the size of an owned blob to the total of its owner, `sign` times */
+const addTo = (
+  totals: Map<string, number>,
+  metadata: Pick<BlobMetadata, "owner" | "size"> | null,
+  sign: 1 | -1,
+) => {
+  if (metadata?.owner === undefined) return;
+  const total = (totals.get(metadata.owner) ?? 0) + sign * (metadata.size ?? 0);
+  totals.set(metadata.owner, total);
+};
+
+/**
+ * Reads only the range of the data, for storages that cannot read ranges
+ * natively. The skipped bytes are still read from the source.
+ */
+export const sliceBlobData = (
+  data: BlobData,
+  { start, end = Infinity }: BlobRange,
+): BlobData => {
+  let offset = 0;
+  return data.pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        const from = Math.max(start - offset, 0);
+        const to = Math.min(end + 1 - offset, chunk.byteLength);
+        offset += chunk.byteLength;
+        if (from < to) controller.enqueue(chunk.subarray(from, to));
+        if (offset > end) controller.terminate();
+      },
+    }),
+  );
+};
+
+const matchesMimeType = (mimeType: string | undefined, pattern: string) =>
+  pattern.endsWith("/*")
+    ? !!mimeType?.startsWith(pattern.slice(0, -1))
+    : mimeType === pattern;
+
+/** ID of the authenticated user, set as `extra.userId` by the OAuth plugin */
+export const getUserId = (auth?: AuthInfo) => {
+  const userId = auth?.extra?.userId;
+  return userId === undefined ? undefined : String(userId);
+};
+
+/**
+ * Whether the authenticated user has the given access to a blob.
+ * The owner and users with the "admin" scope have full access, other users
+ * only have the access granted to them with `shares`. Only the owner and
+ * admins can delete a blob or change its shares.
+ *
+ * Access is denied without `auth` (authentication is not configured), and
+ * blobs without an owner (i.e. uploaded without a user) are only accessible
+ * to admins. Code of the node that does not act for a user passes "internal",
+ * which has full access.
+ */
+export const canAccessBlob = (
+  metadata: BlobMetadata,
+  auth: AuthInfo | "internal" | undefined,
+  access: BlobAccess | "owner",
+) => {
+  if (auth === "internal") return true;
+  if (!auth) return false;
+  if (auth.scopes.includes("admin")) return true;
+
+  const userId = getUserId(auth);
+  if (userId === undefined || metadata.owner === undefined) return false;
+  if (metadata.owner === userId) return true;
+
+  const granted = metadata.shares?.[userId];
+  return access === "read" ? granted !== undefined : access === granted;
+};
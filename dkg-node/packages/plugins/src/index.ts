@@ -1,125 +1,455 @@
+import http from "http";
 import express from "express";
 import cors from "cors";
 import morgan from "morgan";
 import compression from "compression";
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { registerMcp } from "./registerMcp";
+import { DkgMcpServer, type DkgToolConfig } from "./mcpServer";
+import { type McpSessionOptions, registerMcp } from "./registerMcp";
+import {
+  type DkgPluginConfig,
+  loadConfig,
+  PluginConfigError,
+  redactConfig,
+  resolveConfig,
+} from "./config";
+import {
+  type DkgPluginDependencies,
+  getPluginName,
+  PluginDependencyError,
+  sortPlugins,
+} from "./dependencies";
+import {
+  createInMemoryMcpSessionStore,
+  createRedisMcpSessionStore,
+  type McpSessionRecord,
+  type McpSessionStore,
+  type RedisClient,
+} from "./mcpSessions";
+import {
+  createNamespacedMcp,
+  createNamespacedRouter,
+  getRouterPrefix,
+  namespaceName,
+  namespaceUri,
+  unnamespaceUri,
+} from "./namespace";
+import { createServiceRegistry, type ServiceRegistry } from "./services";
+import {
+  createDkgNetworkRegistry,
+  DKG_NETWORK_PRESETS,
+  getNetworkPreset,
+  getUalBlockchain,
+  type DkgNetwork,
+  type DkgNetworkPreset,
+  type DkgNetworkProfile,
+  type DkgNetworkRegistry,
+} from "./networks";
 import { BlobStorage } from "./types";
 
 //@ts-ignore
 import type DKG from "dkg.js";
 
+/**
+ * Services that plugins provide to each other through `ctx.services`.
+ * Plugins add their services with module augmentation:
+ *
+ * ```ts
+ * declare module "@dkg/plugins" {
+ *   interface DkgServices {
+ *     myService: MyService;
+ *   }
+ * }
+ * ```
+ */
+export interface DkgServices {}
+export type DkgServiceRegistry = ServiceRegistry<DkgServices>;
+
 export type DkgContext = {
+  /** Client of the default network */
   dkg: DKG;
   blob: BlobStorage;
+  services: DkgServiceRegistry;
+  /** Networks the node can use, with a client each */
+  networks: DkgNetworkRegistry;
+};
+
+/** Context given to `createPluginServer` and to plugins called on their own */
+export type DkgContextInput = Omit<DkgContext, "services" | "networks"> & {
+  services?: DkgServiceRegistry;
+  /** Defaults to a single "default" network with `dkg` as its client */
+  networks?: DkgNetworkRegistry;
 };
+/**
+ * Registers the plugin. Callers other than `createPluginServer` only need to
+ * give the DKG client and blob storage, see `defineDkgPlugin`.
+ */
 export type DkgPlugin = (
+  ctx: DkgContextInput,
+  mcp: DkgMcpServer,
+  api: express.Router,
+) => void;
+/** Plugin defined as a single function, which gets a complete context */
+export type DkgPluginFunction = (
   ctx: DkgContext,
-  mcp: McpServer,
+  mcp: DkgMcpServer,
   api: express.Router,
 ) => void;
+export type DkgPluginContext<TConfig = unknown> = DkgContext & {
+  config: TConfig;
+};
+export type DkgPluginHooks<TConfig = unknown> = DkgPluginDependencies & {
+  /** Configuration schema, resolved and validated when the server is created */
+  config?: DkgPluginConfig<TConfig>;
+  /** Runs once before the server starts listening. Awaited in registration order. */
+  setup?: (ctx: DkgPluginContext<TConfig>) => Promise<void> | void;
+  /** Registers REST API routes. Runs once, when the server is created. */
+  registerApi?: (ctx: DkgPluginContext<TConfig>, api: express.Router) => void;
+  /** Registers MCP tools, prompts and resources. Runs for every MCP session. */
+  registerMcp?: (ctx: DkgPluginContext<TConfig>, mcp: DkgMcpServer) => void;
+  /** Runs once the server is listening. */
+  onReady?: (ctx: DkgPluginContext<TConfig>) => Promise<void> | void;
+  /** Runs when the server is closed, in reverse registration order. */
+  shutdown?: (ctx: DkgPluginContext<TConfig>) => Promise<void> | void;
+};
 export type DkgPluginBuilderMethods = {
   withNamespace: (
     namespace: string,
     options?: { middlewares: express.Handler[] },
   ) => DkgPluginBuilder;
+  /** Overrides configuration values, instead of reading them from the environment */
+  withConfig: (values: Record<string, unknown>) => DkgPluginBuilder;
+};
+export type DkgPluginBuilder = DkgPlugin &
+  DkgPluginHooks<any> &
+  DkgPluginBuilderMethods;
+export type { DkgPluginConfig, DkgPluginDependencies };
+export { loadConfig, resolveConfig, PluginConfigError, PluginDependencyError };
+export { createServiceRegistry };
+export type {
+  McpSessionOptions,
+  McpSessionRecord,
+  McpSessionStore,
+  RedisClient,
+};
+export { createInMemoryMcpSessionStore, createRedisMcpSessionStore };
+export type {
+  DkgNetwork,
+  DkgNetworkPreset,
+  DkgNetworkProfile,
+  DkgNetworkRegistry,
 };
-export type DkgPluginBuilder = DkgPlugin & DkgPluginBuilderMethods;
+export {
+  createDkgNetworkRegistry,
+  DKG_NETWORK_PRESETS,
+  getNetworkPreset,
+  getUalBlockchain,
+};
+export type { DkgToolConfig };
+export { DkgMcpServer };
+export {
+  createNamespacedMcp,
+  createNamespacedRouter,
+  getRouterPrefix,
+  namespaceName,
+  namespaceUri,
+  unnamespaceUri,
+};
+
+const isPluginHooks = (plugin: DkgPlugin): plugin is DkgPluginBuilder =>
+  typeof (plugin as DkgPluginBuilder).registerApi === "function" &&
+  typeof (plugin as DkgPluginBuilder).registerMcp === "function";
 
-export const defineDkgPlugin = (plugin: DkgPlugin): DkgPluginBuilder =>
-  Object.assign(plugin, {
+const withNamespacedRouter = (
+  namespace: string,
+  options: { middlewares: express.Handler[] } | undefined,
+  api: express.Router,
+  register: (router: express.Router) => void,
+) => {
+  const router = createNamespacedRouter(namespace, options?.middlewares);
+  register(router);
+  api.use("/" + namespace, router);
+};
+
+/**
+ * Defines a DKG plugin, either as a single `(ctx, mcp, api) => void`
+ * function or as an object with lifecycle hooks.
+ *
+ * The returned plugin is always callable as `(ctx, mcp, api)`, which
+ * runs `registerApi` and `registerMcp` (but not the async hooks).
+ * A service registry and network registry are created if `ctx` has none.
+ */
+export function defineDkgPlugin(plugin: DkgPluginFunction): DkgPluginBuilder;
+export function defineDkgPlugin<TConfig>(
+  plugin: DkgPluginHooks<TConfig>,
+): DkgPluginBuilder;
+export function defineDkgPlugin(
+  plugin: DkgPluginFunction | DkgPluginHooks<any>,
+): DkgPluginBuilder {
+  if (typeof plugin === "function") {
+    const register: DkgPlugin = (ctx, mcp, api) =>
+      plugin(completeContext(ctx), mcp, api);
+    return Object.assign(register, {
+      withNamespace(
+        namespace: string,
+        options?: { middlewares: express.Handler[] },
+      ) {
+        return defineDkgPlugin((ctx, mcp, api) =>
+          withNamespacedRouter(namespace, options, api, (router) =>
+            plugin(ctx, createNamespacedMcp(namespace, mcp), router),
+          ),
+        );
+      },
+      withConfig() {
+        console.warn(
+          "Plugin defined as a function does not declare a configuration - skipping withConfig.",
+        );
+        return this as DkgPluginBuilder;
+      },
+    } satisfies DkgPluginBuilderMethods);
+  }
+
+  const hooks: DkgPluginHooks<any> = {
+    ...plugin,
+    registerApi: plugin.registerApi ?? (() => {}),
+    registerMcp: plugin.registerMcp ?? (() => {}),
+  };
+  const register: DkgPlugin = (ctx, mcp, api) => {
+    const pluginCtx = createPluginContext(hooks, ctx);
+    hooks.registerApi!(pluginCtx, api);
+    hooks.registerMcp!(pluginCtx, mcp);
+  };
+  // Function "name" is read-only, so it cannot be copied with Object.assign
+  const { name, ...rest } = hooks;
+  Object.defineProperty(register, "name", { value: name });
+
+  return Object.assign(register, rest, {
     withNamespace(
       namespace: string,
       options?: { middlewares: express.Handler[] },
     ) {
-      return defineDkgPlugin((ctx, mcp, api) => {
-        const router = express.Router();
-        options?.middlewares.forEach((m) => router.use(m));
-        // Required patch in order for @dkg/plugin-swagger to work!
-        Object.assign(router, { prefix: "/" + namespace });
-
-        const mockRegistrationFns = (...fns: (keyof typeof mcp)[]) => {
-          const impls: Record<string, Function> = {};
-
-          for (const fnKey of fns) {
-            if (typeof mcp[fnKey] !== "function") continue;
-
-            impls[fnKey] = mcp[fnKey] as Function;
-            (mcp as any)[fnKey] = (...args: any[]) => {
-              if (typeof args[0] !== "string") {
-                console.warn(
-                  `Expected string as first argument for "mcp.${fnKey}" - skipping it.`,
-                );
-              } else {
-                args[0] = `${namespace}__${args[0]}`;
-              }
-
-              return impls[fnKey]!.bind(mcp)(...args);
-            };
-          }
-
-          return () => {
-            for (const fnKey in impls) (mcp as any)[fnKey] = impls[fnKey]!;
-          };
-        };
-
-        const revertMock = mockRegistrationFns(
-          "registerTool",
-          "registerPrompt",
-          "registerResource",
-          "tool",
-          "prompt",
-          "resource",
+      return defineDkgPlugin({
+        ...hooks,
+        registerApi: (ctx, api) =>
+          withNamespacedRouter(namespace, options, api, (router) =>
+            hooks.registerApi!(ctx, router),
+          ),
+        registerMcp: (ctx, mcp) =>
+          hooks.registerMcp!(ctx, createNamespacedMcp(namespace, mcp)),
+      });
+    },
+    withConfig(values: Record<string, unknown>) {
+      if (!hooks.config) {
+        console.warn(
+          `Plugin "${hooks.name}" does not declare a configuration - skipping withConfig.`,
         );
-
-        plugin(ctx, mcp, router);
-        api.use("/" + namespace, router);
-
-        revertMock();
+        return this as DkgPluginBuilder;
+      }
+      return defineDkgPlugin({
+        ...hooks,
+        config: {
+          ...hooks.config,
+          values: { ...hooks.config.values, ...values },
+        },
       });
     },
   } satisfies DkgPluginBuilderMethods);
+}
 
-export const defaultPlugin = defineDkgPlugin((ctx, mcp, api) => {
-  api.use(express.json({ limit: "1gb" }));
-  api.use(express.urlencoded({ limit: "1gb" , extended: true}));
-  api.use(
-    cors({
-      allowedHeaders: "*",
-      exposedHeaders: "*",
-    }),
-  );
-  api.use(morgan("tiny"));
-  api.use(compression());
+/** Creates the registries that are missing outside of `createPluginServer` */
+const completeContext = (ctx: DkgContextInput): DkgContext => ({
+  ...ctx,
+  services: ctx.services ?? createServiceRegistry(),
+  networks: ctx.networks ?? createDefaultNetworkRegistry(ctx.dkg),
+});
+
+/**
+ * Resolves the plugin configuration. When called outside of
+ * `createPluginServer`, a service registry is created if missing.
+ *
+ * @throws {PluginConfigError} If the configuration is missing or invalid.
+ */
+const createPluginContext = (
+  plugin: DkgPluginHooks<any>,
+  ctx: DkgContextInput,
+  env?: Record<string, string | undefined>,
+  source = plugin.name ?? "plugin",
+): DkgPluginContext => ({
+  ...completeContext(ctx),
+  config: plugin.config ? resolveConfig(source, plugin.config, env) : undefined,
+});
 
-  api.get("/health", (_, res) => {
-    res.status(200).json({ status: "ok" });
+const createDefaultNetworkRegistry = (dkg: DKG) =>
+  createDkgNetworkRegistry({
+    defaultNetwork: "default",
+    clients: { default: dkg },
   });
+
+export const defaultPlugin = defineDkgPlugin({
+  name: "default",
+  before: ["*"],
+  registerApi(_ctx, api) {
+    api.use(express.json({ limit: "1gb" }));
+    api.use(express.urlencoded({ limit: "1gb", extended: true }));
+    api.use(
+      cors({
+        allowedHeaders: "*",
+        exposedHeaders: "*",
+      }),
+    );
+    api.use(morgan("tiny"));
+    api.use(compression());
+
+    api.get("/health", (_, res) => {
+      res.status(200).json({ status: "ok" });
+    });
+  },
 });
 
+export type DkgPluginServer = express.Express & {
+  /** Runs the `setup` hooks of all plugins. Safe to call multiple times. */
+  setup: () => Promise<void>;
+  /** Awaits `setup`, starts listening and runs the `onReady` hooks. */
+  start: (port: number | string) => Promise<http.Server>;
+  /** Stops the HTTP server and runs the `shutdown` hooks in reverse order. */
+  close: () => Promise<void>;
+};
+
 export const createPluginServer = ({
   name,
   version,
   context,
   plugins,
+  env = process.env,
+  mcp,
 }: {
   name: string;
   version: string;
-  context: DkgContext;
+  context: DkgContextInput;
+  /**
+   * Plugins are sorted by their declared dependencies (`requires`, `before`
+   * and `after`), otherwise they run in the given order.
+   */
   plugins: DkgPlugin[];
-}) => {
-  const server = express();
-  server.disable("x-powered-by");
-  plugins.forEach((plugin) =>
-    plugin(context, new McpServer({ name, version }), server),
+  /** Environment to resolve plugin configurations from. Defaults to `process.env` */
+  env?: Record<string, string | undefined>;
+  /** Storage and limits of MCP sessions */
+  mcp?: McpSessionOptions;
+}): DkgPluginServer => {
+  const hooks = sortPlugins(
+    plugins.map(
+      (plugin): DkgPluginHooks<any> =>
+        isPluginHooks(plugin)
+          ? plugin
+          : {
+              registerApi: (ctx, api) =>
+                plugin(ctx, new DkgMcpServer({ name, version }), api),
+              registerMcp: (ctx, mcp) => plugin(ctx, mcp, express.Router()),
+            },
+    ),
   );
-  registerMcp(server, () => {
-    const mcp = new McpServer(
-      { name, version },
-      { capabilities: { resources: {}, tools: { listChanged: true } } },
-    );
-    plugins.forEach((plugin) => plugin(context, mcp, express.Router()));
-    return mcp;
+  const services = createServiceRegistry<DkgServices>();
+  const networks =
+    context.networks ?? createDefaultNetworkRegistry(context.dkg);
+
+  // Resolve all configurations first, so that every problem is reported at once
+  const configIssues: string[] = [];
+  const contexts = hooks.map((plugin, i) => {
+    try {
+      return createPluginContext(
+        plugin,
+        { ...context, services, networks },
+        env,
+        getPluginName(plugin, i),
+      );
+    } catch (error) {
+      if (!(error instanceof PluginConfigError)) throw error;
+      configIssues.push(...error.issues);
+      return { ...context, services, networks, config: undefined };
+    }
   });
-  return server;
+  if (configIssues.length) throw new PluginConfigError(configIssues);
+
+  const app = express();
+  app.disable("x-powered-by");
+  hooks.forEach((plugin, i) => plugin.registerApi?.(contexts[i]!, app));
+  const mcpSessions = registerMcp(
+    app,
+    (auth) => {
+      const mcp = new DkgMcpServer(
+        { name, version },
+        {
+          capabilities: { resources: {}, tools: { listChanged: true } },
+          auth,
+        },
+      );
+      hooks.forEach((plugin, i) => plugin.registerMcp?.(contexts[i]!, mcp));
+      return mcp;
+    },
+    mcp,
+  );
+
+  app.get("/plugins/config", (_req, res) => {
+    res.json({
+      plugins: hooks.flatMap((plugin, i) =>
+        plugin.config
+          ? [
+              {
+                name: getPluginName(plugin, i),
+                config: redactConfig(
+                  contexts[i]!.config,
+                  plugin.config.secrets,
+                ),
+              },
+            ]
+          : [],
+      ),
+    });
+  });
+
+  let setupPromise: Promise<void> | null = null;
+  let closePromise: Promise<void> | null = null;
+  let httpServer: http.Server | null = null;
+
+  const setup = () => {
+    setupPromise ??= (async () => {
+      for (const [i, plugin] of hooks.entries())
+        await plugin.setup?.(contexts[i]!);
+    })();
+    return setupPromise;
+  };
+
+  const start = async (port: number | string) => {
+    await setup();
+    httpServer = await new Promise<http.Server>((resolve, reject) => {
+      const server = app.listen(Number(port), (err) =>
+        err ? reject(err) : resolve(server),
+      );
+    });
+    for (const [i, plugin] of hooks.entries())
+      await plugin.onReady?.(contexts[i]!);
+    return httpServer;
+  };
+
+  const close = () => {
+    closePromise ??= (async () => {
+      const closed = new Promise<void>((resolve) => {
+        if (!httpServer?.listening) return resolve();
+        httpServer.close(() => resolve());
+      });
+      for (const [i, plugin] of [...hooks.entries()].reverse()) {
+        try {
+          await plugin.shutdown?.(contexts[i]!);
+        } catch (error) {
+          // One failing plugin should not prevent the others from shutting down
+          console.error("Plugin shutdown failed:", error);
+        }
+      }
+      await mcpSessions.close();
+      httpServer?.closeAllConnections();
+      await closed;
+    })();
+    return closePromise;
+  };
+
+  return Object.assign(app, { setup, start, close });
 };
@@ -0,0 +1,72 @@
+import {
+  McpServer,
+  type RegisteredTool,
+  type ToolCallback,
+} from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { ServerOptions } from "@modelcontextprotocol/sdk/server/index.js";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import {
+  ErrorCode,
+  McpError,
+  type Implementation,
+  type ToolAnnotations,
+} from "@modelcontextprotocol/sdk/types.js";
+import type { ZodRawShape } from "zod";
+
+export type DkgToolConfig<
+  InputArgs extends ZodRawShape,
+  OutputArgs extends ZodRawShape,
+> = {
+  title?: string;
+  description?: string;
+  inputSchema?: InputArgs;
+  outputSchema?: OutputArgs;
+  annotations?: ToolAnnotations;
+  _meta?: Record<string, unknown>;
+  /** OAuth scopes that the session's token needs in order to use the tool */
+  scopes?: string[];
+};
+
+export const hasScopes = (auth: AuthInfo | undefined, scopes: string[]) =>
+  scopes.every((scope) => auth?.scopes.includes(scope));
+
+/**
+ * MCP server of a single session, aware of the session's access token.
+ *
+ * Tools registered with `scopes` are hidden from `tools/list` and
+ * rejected on `tools/call` when the token does not have all of them.
+ * Without a token (i.e. auth is not configured) these tools are never available.
+ */
+export class DkgMcpServer extends McpServer {
+  readonly auth?: AuthInfo;
+
+  constructor(
+    serverInfo: Implementation,
+    { auth, ...options }: ServerOptions & { auth?: AuthInfo } = {},
+  ) {
+    super(serverInfo, options);
+    this.auth = auth;
+  }
+
+  override registerTool<
+    InputArgs extends ZodRawShape,
+    OutputArgs extends ZodRawShape,
+  >(
+    name: string,
+    { scopes = [], ...config }: DkgToolConfig<InputArgs, OutputArgs>,
+    cb: ToolCallback<InputArgs>,
+  ): RegisteredTool {
+    if (hasScopes(this.auth, scopes))
+      return super.registerTool(name, config, cb);
+
+    // Rejected even if the tool gets enabled later
+    const tool = super.registerTool(name, config, (() => {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `Tool ${name} requires scopes: ${scopes.join(", ")}`,
+      );
+    }) as unknown as ToolCallback<InputArgs>);
+    tool.disable();
+    return tool;
+  }
+}
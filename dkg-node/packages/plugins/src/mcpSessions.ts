@@ -0,0 +1,277 @@
+import { v7 as uuidv7 } from "uuid";
+import type { EventStore } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import type {
+  InitializeRequest,
+  JSONRPCMessage,
+} from "@modelcontextprotocol/sdk/types.js";
+
+export type McpSessionRecord = {
+  id: string;
+  /** Unix timestamp (ms) */
+  createdAt: number;
+  /** Unix timestamp (ms) of the last request in this session */
+  lastActivityAt: number;
+  /** Used to restore the session on another node instance */
+  initialize?: InitializeRequest["params"];
+  /** Authenticated user that started the session (`req.auth.extra.userId`) */
+  userId?: string;
+  /**
+   * Scopes of the access token the session was started with. The session
+   * can only be used with tokens of the same user and with the same scopes.
+   */
+  scopes?: string[];
+  /** Number of calls per tool name */
+  toolCalls: Record<string, number>;
+};
+
+/**
+ * Storage for MCP sessions, shared between node instances
+ * in order to resume sessions that were started on another instance.
+ */
+export interface McpSessionStore {
+  get: (id: string) => Promise<McpSessionRecord | null>;
+  set: (session: McpSessionRecord) => Promise<void>;
+  /** Updates the last activity time of the session, if it exists */
+  touch: (id: string, lastActivityAt: number) => Promise<void>;
+  /** Increments the call count of the tool in the session, if it exists */
+  recordToolCall: (id: string, toolName: string) => Promise<void>;
+  delete: (id: string) => Promise<void>;
+  list: () => Promise<McpSessionRecord[]>;
+  /**
+   * Counts a new session before it is stored, unless `limit` sessions are
+   * already counted. Deleted sessions are not counted anymore, and sessions
+   * that were counted but never stored have to be released.
+   */
+  reserve: (limit: number) => Promise<boolean>;
+  release: () => Promise<void>;
+  /** Stores sent messages, so that clients can resume interrupted streams */
+  eventStore?: EventStore;
+}
+
+type StoredEvent = {
+  eventId: string;
+  streamId: string;
+  message: JSONRPCMessage;
+};
+
+const replayEvents = async (
+  events: StoredEvent[],
+  lastEventId: string,
+  send: (eventId: string, message: JSONRPCMessage) => Promise<void>,
+) => {
+  const last = events.findIndex((e) => e.eventId === lastEventId);
+  if (last === -1) return "";
+
+  for (const event of events.slice(last + 1))
+    await send(event.eventId, event.message);
+  return events[last]!.streamId;
+};
+
+export const createInMemoryMcpSessionStore = ({
+  maxEventsPerStream = 100,
+}: {
+  /** Older events are dropped, and cannot be replayed anymore */
+  maxEventsPerStream?: number;
+} = {}): McpSessionStore => {
+  const sessions = new Map<string, McpSessionRecord>();
+  const streams = new Map<string, StoredEvent[]>();
+  const eventStreams = new Map<string, string>();
+  let count = 0;
+
+  return {
+    get: async (id) => sessions.get(id) ?? null,
+    set: async (session) => {
+      sessions.set(session.id, session);
+    },
+    touch: async (id, lastActivityAt) => {
+      const session = sessions.get(id);
+      if (session) session.lastActivityAt = lastActivityAt;
+    },
+    recordToolCall: async (id, toolName) => {
+      const session = sessions.get(id);
+      if (session)
+        session.toolCalls[toolName] = (session.toolCalls[toolName] ?? 0) + 1;
+    },
+    delete: async (id) => {
+      if (sessions.delete(id)) count--;
+    },
+    list: async () => [...sessions.values()],
+    reserve: async (limit) => {
+      if (count >= limit) return false;
+      count++;
+      return true;
+    },
+    release: async () => {
+      count--;
+    },
+    eventStore: {
+      async storeEvent(streamId, message) {
+        const eventId = `${streamId}_${uuidv7()}`;
+        const events = streams.get(streamId) ?? [];
+        events.push({ eventId, streamId, message });
+        for (const dropped of events.splice(
+          0,
+          events.length - maxEventsPerStream,
+        ))
+          eventStreams.delete(dropped.eventId);
+
+        streams.set(streamId, events);
+        eventStreams.set(eventId, streamId);
+        return eventId;
+      },
+      async replayEventsAfter(lastEventId, { send }) {
+        const streamId = eventStreams.get(lastEventId);
+        if (!streamId) return "";
+        return replayEvents(streams.get(streamId) ?? [], lastEventId, send);
+      },
+    },
+  };
+};
+
+/**
+ * Subset of the `ioredis` client used by the Redis session store.
+ */
+export type RedisClient = {
+  get: (key: string) => Promise<string | null>;
+  set: {
+    (
+      key: string,
+      value: string,
+      mode: "PX",
+      milliseconds: number,
+    ): Promise<unknown>;
+    /** Only sets existing keys */
+    (
+      key: string,
+      value: string,
+      mode: "PX",
+      milliseconds: number,
+      condition: "XX",
+    ): Promise<unknown>;
+  };
+  del: (...keys: string[]) => Promise<number>;
+  incr: (key: string) => Promise<number>;
+  decrby: (key: string, decrement: number) => Promise<number>;
+  pexpire: (key: string, milliseconds: number) => Promise<number>;
+  hincrby: (key: string, field: string, increment: number) => Promise<number>;
+  hgetall: (key: string) => Promise<Record<string, string>>;
+  sadd: (key: string, ...members: string[]) => Promise<number>;
+  srem: (key: string, ...members: string[]) => Promise<number>;
+  smembers: (key: string) => Promise<string[]>;
+  rpush: (key: string, ...values: string[]) => Promise<number>;
+  ltrim: (key: string, start: number, stop: number) => Promise<unknown>;
+  lrange: (key: string, start: number, stop: number) => Promise<string[]>;
+};
+
+export const createRedisMcpSessionStore = (
+  redis: RedisClient,
+  {
+    prefix = "dkg:mcp:",
+    ttl = 24 * 60 * 60 * 1000, // 1d
+    maxEventsPerStream = 100,
+  }: {
+    /** Prefix of all keys used by the store */
+    prefix?: string;
+    /** Sessions and events are removed after this many ms of inactivity */
+    ttl?: number;
+    /** Older events are dropped, and cannot be replayed anymore */
+    maxEventsPerStream?: number;
+  } = {},
+): McpSessionStore => {
+  const indexKey = `${prefix}sessions`;
+  // Sessions in the index and reserved ones, see `reserve`
+  const countKey = `${prefix}session-count`;
+  const sessionKey = (id: string) => `${prefix}session:${id}`;
+  // Kept apart from the session, so that it is updated with a single write
+  const activityKey = (id: string) => `${prefix}activity:${id}`;
+  // Kept in a hash, so that concurrent calls are counted atomically
+  const toolCallsKey = (id: string) => `${prefix}tool-calls:${id}`;
+  const streamKey = (streamId: string) => `${prefix}stream:${streamId}`;
+  const eventKey = (eventId: string) => `${prefix}event:${eventId}`;
+
+  const get = async (id: string): Promise<McpSessionRecord | null> => {
+    const value = await redis.get(sessionKey(id));
+    if (!value) return null;
+
+    const lastActivityAt = await redis.get(activityKey(id));
+    const toolCalls = await redis.hgetall(toolCallsKey(id));
+    return {
+      ...JSON.parse(value),
+      ...(lastActivityAt && { lastActivityAt: Number(lastActivityAt) }),
+      toolCalls: Object.fromEntries(
+        Object.entries(toolCalls).map(([name, count]) => [name, Number(count)]),
+      ),
+    };
+  };
+  const set = async ({ toolCalls: _, ...session }: McpSessionRecord) => {
+    await redis.set(sessionKey(session.id), JSON.stringify(session), "PX", ttl);
+    await redis.set(
+      activityKey(session.id),
+      String(session.lastActivityAt),
+      "PX",
+      ttl,
+    );
+    await redis.pexpire(toolCallsKey(session.id), ttl);
+    await redis.sadd(indexKey, session.id);
+  };
+  const removeFromIndex = async (...ids: string[]) => {
+    const removed = await redis.srem(indexKey, ...ids);
+    if (removed) await redis.decrby(countKey, removed);
+  };
+
+  return {
+    get,
+    set,
+    async touch(id, lastActivityAt) {
+      // Only if the session exists, without overwriting concurrent changes
+      await redis.set(activityKey(id), String(lastActivityAt), "PX", ttl, "XX");
+      await redis.pexpire(sessionKey(id), ttl);
+      await redis.pexpire(toolCallsKey(id), ttl);
+    },
+    async recordToolCall(id, toolName) {
+      if (!(await redis.get(sessionKey(id)))) return;
+      await redis.hincrby(toolCallsKey(id), toolName, 1);
+      await redis.pexpire(toolCallsKey(id), ttl);
+    },
+    async delete(id) {
+      await redis.del(sessionKey(id), activityKey(id), toolCallsKey(id));
+      await removeFromIndex(id);
+    },
+    async list() {
+      const ids = await redis.smembers(indexKey);
+      const sessions = await Promise.all(ids.map(get));
+      // Sessions expired by the TTL are still listed in the index
+      const expired = ids.filter((_, i) => !sessions[i]);
+      if (expired.length) await removeFromIndex(...expired);
+      return sessions.filter((s) => !!s);
+    },
+    async reserve(limit) {
+      // Incremented first, so that concurrent reservations see each other
+      if ((await redis.incr(countKey)) <= limit) return true;
+      await redis.decrby(countKey, 1);
+      return false;
+    },
+    async release() {
+      await redis.decrby(countKey, 1);
+    },
+    eventStore: {
+      async storeEvent(streamId, message) {
+        const eventId = `${streamId}_${uuidv7()}`;
+        const event: StoredEvent = { eventId, streamId, message };
+        await redis.rpush(streamKey(streamId), JSON.stringify(event));
+        await redis.ltrim(streamKey(streamId), -maxEventsPerStream, -1);
+        await redis.pexpire(streamKey(streamId), ttl);
+        await redis.set(eventKey(eventId), streamId, "PX", ttl);
+        return eventId;
+      },
+      async replayEventsAfter(lastEventId, { send }) {
+        const streamId = await redis.get(eventKey(lastEventId));
+        if (!streamId) return "";
+        const events = await redis
+          .lrange(streamKey(streamId), 0, -1)
+          .then((values) => values.map((v) => JSON.parse(v) as StoredEvent));
+        return replayEvents(events, lastEventId, send);
+      },
+    },
+  };
+};
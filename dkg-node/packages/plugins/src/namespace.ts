@@ -0,0 +1,161 @@
+import express from "express";
+import {
+  ResourceTemplate,
+  type ReadResourceCallback,
+  type ReadResourceTemplateCallback,
+} from "@modelcontextprotocol/sdk/server/mcp.js";
+import type {
+  ListResourcesResult,
+  ReadResourceResult,
+} from "@modelcontextprotocol/sdk/types.js";
+import type { DkgMcpServer } from "./mcpServer";
+
+// Global symbol, so that it works with multiple copies of this package
+const ROUTER_PREFIX = Symbol.for("@dkg/plugins/router-prefix");
+
+/**
+ * Path prefix of a router created by `createNamespacedRouter`, relative to
+ * its parent. Express layers do not expose their mount paths anymore,
+ * so this is needed to resolve the full paths of routes (i.e. for OpenAPI).
+ */
+export const getRouterPrefix = (router: unknown): string =>
+  (router as { [ROUTER_PREFIX]?: string } | undefined)?.[ROUTER_PREFIX] ?? "";
+
+export const createNamespacedRouter = (
+  namespace: string,
+  middlewares: express.Handler[] = [],
+) => {
+  const router = express.Router();
+  middlewares.forEach((m) => router.use(m));
+  Object.defineProperty(router, ROUTER_PREFIX, { value: "/" + namespace });
+  return router;
+};
+
+/** `namespace__name`, used for tool, prompt and resource names */
+export const namespaceName = (namespace: string, name: string) =>
+  `${namespace}__${name}`;
+
+/** `namespace+scheme://...`, the namespace is prepended to the URI scheme */
+export const namespaceUri = (namespace: string, uri: string) =>
+  `${namespace.toLowerCase()}+${uri}`;
+
+/** Reverts `namespaceUri`. URIs without the namespace are returned as they are. */
+export const unnamespaceUri = (namespace: string, uri: string) => {
+  const prefix = `${namespace.toLowerCase()}+`;
+  return uri.toLowerCase().startsWith(prefix) ? uri.slice(prefix.length) : uri;
+};
+
+const namespaceResourceTemplate = (
+  namespace: string,
+  template: ResourceTemplate,
+) => {
+  const list = template.listCallback;
+  const variables = template.uriTemplate.variableNames;
+  return new ResourceTemplate(
+    namespaceUri(namespace, template.uriTemplate.toString()),
+    {
+      list:
+        list &&
+        (async (extra) => {
+          const result: ListResourcesResult = await list(extra);
+          return {
+            ...result,
+            resources: result.resources.map((resource) => ({
+              ...resource,
+              uri: namespaceUri(namespace, resource.uri),
+            })),
+          };
+        }),
+      complete: Object.fromEntries(
+        variables.flatMap((variable) => {
+          const complete = template.completeCallback(variable);
+          return complete ? [[variable, complete]] : [];
+        }),
+      ),
+    },
+  );
+};
+
+/**
+ * Resource callbacks of a namespaced plugin receive and return URIs without
+ * the namespace, so the plugin does not need to know under which namespace
+ * it is registered.
+ */
+const unnamespaceReadCallback =
+  (
+    namespace: string,
+    cb: ReadResourceCallback | ReadResourceTemplateCallback,
+  ) =>
+  async (uri: URL, ...args: unknown[]): Promise<ReadResourceResult> => {
+    const result: ReadResourceResult = await (cb as Function)(
+      new URL(unnamespaceUri(namespace, uri.href)),
+      ...args,
+    );
+    return {
+      ...result,
+      contents: result.contents.map((content) => ({
+        ...content,
+        uri: namespaceUri(namespace, content.uri),
+      })),
+    };
+  };
+
+/**
+ * Returns an MCP server for a namespaced plugin. Tools, prompts and
+ * resources registered through it are prefixed with the namespace,
+ * and resource URIs get the namespace as part of their scheme.
+ *
+ * Registrations are forwarded to the given server, which is not modified.
+ */
+export const createNamespacedMcp = (
+  namespace: string,
+  mcp: DkgMcpServer,
+): DkgMcpServer => {
+  const registrations = {
+    registerTool: (name: string, ...args: unknown[]) =>
+      (mcp.registerTool as Function)(namespaceName(namespace, name), ...args),
+    tool: (name: string, ...args: unknown[]) =>
+      (mcp.tool as Function)(namespaceName(namespace, name), ...args),
+    registerPrompt: (name: string, ...args: unknown[]) =>
+      (mcp.registerPrompt as Function)(namespaceName(namespace, name), ...args),
+    prompt: (name: string, ...args: unknown[]) =>
+      (mcp.prompt as Function)(namespaceName(namespace, name), ...args),
+    registerResource: (
+      name: string,
+      uriOrTemplate: string | ResourceTemplate,
+      ...args: unknown[]
+    ) => registerResource("registerResource", name, uriOrTemplate, args),
+    resource: (
+      name: string,
+      uriOrTemplate: string | ResourceTemplate,
+      ...args: unknown[]
+    ) => registerResource("resource", name, uriOrTemplate, args),
+  };
+  const registerResource = (
+    method: "registerResource" | "resource",
+    name: string,
+    uriOrTemplate: string | ResourceTemplate,
+    args: unknown[],
+  ) => {
+    // The read callback is always the last argument
+    const readCallback = args.pop() as ReadResourceCallback;
+    return (mcp[method] as Function)(
+      namespaceName(namespace, name),
+      typeof uriOrTemplate === "string"
+        ? namespaceUri(namespace, uriOrTemplate)
+        : namespaceResourceTemplate(namespace, uriOrTemplate),
+      ...args,
+      unnamespaceReadCallback(namespace, readCallback),
+    );
+  };
+
+  return new Proxy(mcp, {
+    get(target, property) {
+      if (Object.hasOwn(registrations, property))
+        return registrations[property as keyof typeof registrations];
+
+      const value = Reflect.get(target, property);
+      return typeof value === "function" ? value.bind(target) : value;
+    },
+  });
+};
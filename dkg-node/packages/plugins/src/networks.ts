@@ -0,0 +1,139 @@
+//@ts-ignore
+import type DKG from "dkg.js";
+
+export type DkgNetworkProfile = {
+  /** URL of the OT-node, i.e. "http://localhost:8900" */
+  endpoint: string;
+  /** Blockchain ID, i.e. "base:8453" */
+  blockchain: string;
+  /** Private key of the wallet that pays for publishing */
+  wallet?: string;
+  /**
+   * DKG Explorer URL that UALs are appended to.
+   * Defaults to the explorer of the blockchain.
+   */
+  explorerUrl?: string;
+};
+
+export type DkgNetwork = {
+  name: string;
+  /** Missing for the client of a context created without profiles */
+  profile?: DkgNetworkProfile;
+  dkg: DKG;
+};
+
+export type DkgNetworkRegistry = {
+  /** Name of the network of `ctx.dkg` */
+  defaultNetwork: string;
+  names: () => string[];
+  /**
+   * The network with the name, or the default one.
+   * Its client is created when it is first used.
+   *
+   * @throws {Error} If there is no network with the name.
+   */
+  get: (name?: string) => DkgNetwork;
+  /**
+   * The network with the name if given, otherwise the one of the
+   * blockchain of the UAL, otherwise the default one.
+   *
+   * @throws {Error} If there is no network with the given name.
+   */
+  resolve: (options: { network?: string; ual?: string }) => DkgNetwork;
+};
+
+/** Environments of the blockchains supported by dkg.js, with their explorers */
+export const DKG_NETWORK_PRESETS = {
+  mainnet: {
+    blockchains: ["base:8453", "gnosis:100", "otp:2043"],
+    explorerUrl: "https://dkg.origintrail.io/explore?ual=",
+  },
+  testnet: {
+    blockchains: ["base:84532", "gnosis:10200", "otp:20430"],
+    explorerUrl: "https://dkg-testnet.origintrail.io/explore?ual=",
+  },
+  // Local networks have no explorer
+  hardhat: {
+    blockchains: ["hardhat1:31337", "hardhat2:31337"],
+    explorerUrl: undefined,
+  },
+} satisfies Record<
+  string,
+  { blockchains: string[]; explorerUrl: string | undefined }
+>;
+
+export type DkgNetworkPreset = keyof typeof DKG_NETWORK_PRESETS;
+
+/** Blockchain ID of a UAL, i.e. "otp:20430" of "did:dkg:otp:20430/0x123/1" */
+export const getUalBlockchain = (ual: string) =>
+  /^did:dkg:([^/]+)\//i.exec(ual)?.[1]?.toLowerCase();
+
+/** Preset of the environment the blockchain belongs to */
+export const getNetworkPreset = (blockchain: string) =>
+  (Object.keys(DKG_NETWORK_PRESETS) as DkgNetworkPreset[]).find((name) =>
+    DKG_NETWORK_PRESETS[name].blockchains.includes(blockchain.toLowerCase()),
+  );
+
+/**
+ * Creates a registry of the networks with the profiles, whose clients
+ * are created with `createClient`, unless they are given in `clients`.
+ */
+export const createDkgNetworkRegistry = ({
+  defaultNetwork,
+  profiles = {},
+  clients = {},
+  createClient,
+}: {
+  defaultNetwork: string;
+  profiles?: Record<string, DkgNetworkProfile>;
+  clients?: Record<string, DKG>;
+  createClient?: (profile: DkgNetworkProfile) => DKG;
+}): DkgNetworkRegistry => {
+  const names = [
+    ...new Set([...Object.keys(profiles), ...Object.keys(clients)]),
+  ];
+  if (!names.includes(defaultNetwork))
+    throw new Error(`Default network "${defaultNetwork}" is not configured.`);
+
+  const networks = new Map<string, DkgNetwork>();
+  const get = (name = defaultNetwork) => {
+    if (!names.includes(name))
+      throw new Error(
+        `Network "${name}" is not configured. ` +
+          `Configured networks: ${names.join(", ")}.`,
+      );
+    let network = networks.get(name);
+    if (!network) {
+      const profile = profiles[name];
+      const dkg = clients[name] ?? (profile && createClient?.(profile));
+      if (!dkg) throw new Error(`Network "${name}" has no client.`);
+      network = { name, profile, dkg };
+      networks.set(name, network);
+    }
+    return network;
+  };
+
+  /** Network of the blockchain, or else of the same environment */
+  const findByBlockchain = (blockchain: string) => {
+    const preset = getNetworkPreset(blockchain);
+    const matches = (name: string) =>
+      profiles[name]?.blockchain.toLowerCase() === blockchain;
+    const sameEnvironment = (name: string) =>
+      !!preset && getNetworkPreset(profiles[name]?.blockchain ?? "") === preset;
+    return (
+      [defaultNetwork, ...names].find(matches) ??
+      [defaultNetwork, ...names].find(sameEnvironment)
+    );
+  };
+
+  return {
+    defaultNetwork,
+    names: () => [...names],
+    get,
+    resolve({ network, ual }) {
+      if (network) return get(network);
+      const blockchain = ual && getUalBlockchain(ual);
+      return get((blockchain && findByBlockchain(blockchain)) || undefined);
+    },
+  };
+};
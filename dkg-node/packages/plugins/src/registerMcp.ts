@@ -1,56 +1,259 @@
 import express from "express";
 import { v7 as uuidv7 } from "uuid";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
 import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
-import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+// Adds `req.auth`, set by the bearer auth middleware
+import type {} from "@modelcontextprotocol/sdk/server/auth/middleware/bearerAuth.js";
+import {
+  isInitializeRequest,
+  type JSONRPCMessage,
+} from "@modelcontextprotocol/sdk/types.js";
+import {
+  createInMemoryMcpSessionStore,
+  type McpSessionRecord,
+  type McpSessionStore,
+} from "./mcpSessions";
+import { getUserId } from "./helpers";
+
+export type McpSessionOptions = {
+  /** Defaults to an in-memory store, which only works with a single instance */
+  store?: McpSessionStore;
+  /** Sessions without requests for this many ms are closed. Defaults to 30min. */
+  idleTimeout?: number;
+  /** New sessions are rejected when this limit is reached. Unlimited by default. */
+  maxSessions?: number;
+};
+
+const jsonRpcError = (res: express.Response, status: number, message: string) =>
+  res.status(status).json({
+    jsonrpc: "2.0",
+    error: { code: -32000, message },
+    id: null,
+  });
+
+const getToolCalls = (body: unknown) =>
+  (Array.isArray(body) ? body : [body]).flatMap((message: JSONRPCMessage) =>
+    typeof message === "object" &&
+    message !== null &&
+    "method" in message &&
+    message.method === "tools/call" &&
+    typeof message.params?.name === "string"
+      ? [message.params.name]
+      : [],
+  );
+
+/** Whether the request is authenticated as the user that started the session */
+const isSessionOwner = (session: McpSessionRecord, auth?: AuthInfo) => {
+  const scopes = [...(auth?.scopes ?? [])].sort();
+  const sessionScopes = [...(session.scopes ?? [])].sort();
+  return (
+    session.userId === getUserId(auth) &&
+    scopes.length === sessionScopes.length &&
+    scopes.every((scope, i) => scope === sessionScopes[i])
+  );
+};
+
+/**
+ * The MCP SDK has no API for resuming a session that was initialized by
+ * another transport (i.e. on another node instance), so the transport and
+ * the server are marked as initialized manually, with the stored data.
+ */
+const restoreSession = (
+  server: McpServer,
+  transport: StreamableHTTPServerTransport,
+  session: McpSessionRecord,
+) => {
+  transport.sessionId = session.id;
+  Object.assign(transport, { _initialized: true });
+  if (session.initialize)
+    Object.assign(server.server, {
+      _clientCapabilities: session.initialize.capabilities,
+      _clientVersion: session.initialize.clientInfo,
+    });
+};
 
 export const registerMcp = (
   api: express.Router,
-  getServer: () => McpServer,
+  /** Creates the MCP server of a session, for the session's access token */
+  getServer: (auth?: AuthInfo) => McpServer,
+  {
+    store = createInMemoryMcpSessionStore(),
+    idleTimeout = 30 * 60 * 1000,
+    maxSessions = Infinity,
+  }: McpSessionOptions = {},
 ) => {
   const transports: { [sessionId: string]: StreamableHTTPServerTransport } = {};
 
+  const createTransport = (
+    restoredSessionId?: string,
+    info?: Pick<McpSessionRecord, "initialize" | "userId" | "scopes">,
+  ) => {
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => restoredSessionId ?? uuidv7(),
+      eventStore: store.eventStore,
+      onsessioninitialized: async (sessionId) => {
+        transports[sessionId] = transport;
+        const now = Date.now();
+        await store.set({
+          id: sessionId,
+          createdAt: now,
+          lastActivityAt: now,
+          toolCalls: {},
+          ...info,
+        });
+      },
+    });
+    transport.onerror = console.error.bind(console);
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        delete transports[transport.sessionId];
+        store.delete(transport.sessionId).catch(console.error);
+      }
+    };
+    return transport;
+  };
+
+  // Session could have been started on another instance
+  const restoring = new Map<string, Promise<StreamableHTTPServerTransport>>();
+  const restoreTransport = async (
+    session: McpSessionRecord,
+    auth?: AuthInfo,
+  ) => {
+    const server = getServer(auth);
+    const transport = createTransport(session.id);
+    await server.connect(transport);
+    restoreSession(server, transport, session);
+    transports[session.id] = transport;
+    return transport;
+  };
+
+  /** Only for the owner of the session, whose access token the server is created for */
+  const getTransport = async (session: McpSessionRecord, auth?: AuthInfo) => {
+    if (transports[session.id]) return transports[session.id]!;
+
+    if (!restoring.has(session.id))
+      restoring.set(
+        session.id,
+        restoreTransport(session, auth).finally(() =>
+          restoring.delete(session.id),
+        ),
+      );
+    return restoring.get(session.id)!;
+  };
+
+  const getSession = async (req: express.Request) => {
+    const sessionId = req.headers["mcp-session-id"]?.toString();
+    return sessionId ? store.get(sessionId) : null;
+  };
+
+  const evictIdleSessions = async () => {
+    const now = Date.now();
+    for (const session of await store.list())
+      if (now - session.lastActivityAt > idleTimeout)
+        await store.delete(session.id);
+
+    // Close local transports of sessions that were evicted or closed elsewhere
+    for (const [sessionId, transport] of Object.entries(transports))
+      if (!(await store.get(sessionId))) await transport.close();
+  };
+  const evictionInterval = setInterval(
+    () => evictIdleSessions().catch(console.error),
+    Math.min(idleTimeout, 60 * 1000),
+  );
+  evictionInterval.unref();
+
   const handleSessionRequest: express.RequestHandler = async (req, res) => {
-    const sessionId = req.headers["mcp-session-id"]?.toString() ?? "";
-    if (!sessionId || !transports[sessionId]) {
+    const session = await getSession(req);
+    if (!session) {
       res.status(400).send("Invalid or missing session ID");
+    } else if (!isSessionOwner(session, req.auth)) {
+      jsonRpcError(res, 403, "Forbidden: Session belongs to another user");
     } else {
-      const transport = transports[sessionId];
+      const transport = await getTransport(session, req.auth);
+      await store.touch(session.id, Date.now());
       await transport.handleRequest(req, res);
     }
   };
 
   api.post("/mcp", async (req, res) => {
-    const sessionId = req.headers["mcp-session-id"]?.toString() ?? "";
-    let transport = transports[sessionId];
+    const session = await getSession(req);
+    if (session && !isSessionOwner(session, req.auth)) {
+      jsonRpcError(res, 403, "Forbidden: Session belongs to another user");
+      return;
+    }
+
+    let transport = session && (await getTransport(session, req.auth));
     if (!transport && isInitializeRequest(req.body)) {
-      transport = new StreamableHTTPServerTransport({
-        sessionIdGenerator: () => uuidv7(),
-        onsessioninitialized: (sessionId) => {
-          transports[sessionId] = transport!;
-        },
+      // Counted atomically, so that concurrent requests cannot exceed the limit
+      if (!(await store.reserve(maxSessions))) {
+        jsonRpcError(res, 503, "Maximum number of MCP sessions reached");
+        return;
+      }
+
+      const newTransport = createTransport(undefined, {
+        initialize: req.body.params,
+        userId: getUserId(req.auth),
+        scopes: req.auth?.scopes,
       });
-      transport.onerror = console.error.bind(console);
-      transport.onclose = () => {
-        if (transport?.sessionId) {
-          delete transports[transport.sessionId];
-        }
-      };
-      await getServer().connect(transport);
+      try {
+        await getServer(req.auth).connect(newTransport);
+        await newTransport.handleRequest(req, res, req.body);
+      } finally {
+        // Not counted anymore if the session was not initialized
+        if (!newTransport.sessionId) await store.release();
+      }
+      return;
+    } else if (session && transport) {
+      await store.touch(session.id, Date.now());
+      for (const toolName of getToolCalls(req.body))
+        await store.recordToolCall(session.id, toolName);
     }
     if (!transport) {
-      res.status(400).json({
-        jsonrpc: "2.0",
-        error: {
-          code: -32000,
-          message: "Bad Request: No valid session ID provided",
-        },
-        id: null,
-      });
+      jsonRpcError(res, 400, "Bad Request: No valid session ID provided");
     } else {
       await transport.handleRequest(req, res, req.body);
     }
   });
   api.get("/mcp", handleSessionRequest);
   api.delete("/mcp", handleSessionRequest);
+
+  // Admin routes, should be protected by the server
+  api.get("/mcp/sessions", async (_req, res) => {
+    const sessions = await store.list();
+    res.json({
+      sessions: sessions.map((session) => ({
+        id: session.id,
+        client: session.initialize?.clientInfo ?? null,
+        protocolVersion: session.initialize?.protocolVersion ?? null,
+        userId: session.userId ?? null,
+        createdAt: new Date(session.createdAt).toISOString(),
+        lastActivityAt: new Date(session.lastActivityAt).toISOString(),
+        toolCalls: session.toolCalls,
+      })),
+    });
+  });
+  api.delete("/mcp/sessions/:sessionId", async (req, res) => {
+    const session = await store.get(req.params.sessionId);
+    if (!session) {
+      res.status(404).json({ error: "Session not found" });
+      return;
+    }
+    // Other instances close their transport on the next eviction check
+    await store.delete(session.id);
+    await transports[session.id]?.close();
+    res.status(204).end();
+  });
+
+  return {
+    /** Closes all sessions of this instance, without removing them from the store */
+    async close() {
+      clearInterval(evictionInterval);
+      for (const [sessionId, transport] of Object.entries(transports)) {
+        delete transports[sessionId];
+        transport.onclose = undefined;
+        await transport.close();
+      }
+    },
+  };
 };
@@ -0,0 +1,37 @@
+export type ServiceRegistry<TServices> = {
+  /** Registers a service, to be used by other plugins */
+  provide<K extends keyof TServices & string>(
+    name: K,
+    service: TServices[K],
+  ): void;
+  /**
+   * Returns a service provided by another plugin.
+   *
+   * @throws {Error} If the service has not been provided (yet).
+   */
+  use<K extends keyof TServices & string>(name: K): TServices[K];
+  has(name: keyof TServices & string): boolean;
+};
+
+export const createServiceRegistry = <
+  TServices,
+>(): ServiceRegistry<TServices> => {
+  const services = new Map<string, unknown>();
+
+  return {
+    provide(name, service) {
+      if (services.has(name))
+        throw new Error(`Service "${name}" is already provided.`);
+      services.set(name, service);
+    },
+    use(name) {
+      if (!services.has(name))
+        throw new Error(
+          `Service "${name}" is not provided. ` +
+            `Make sure that the plugin providing it is listed in "requires".`,
+        );
+      return services.get(name) as TServices[typeof name];
+    },
+    has: (name) => services.has(name),
+  };
+};
@@ -1,7 +1,9 @@
 import { Client } from "@modelcontextprotocol/sdk/client/index.js";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
-import { createBlobStorage, express } from "./helpers";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { createBlobStorage, express, sliceBlobData } from "./helpers";
+import { DkgMcpServer } from "./mcpServer";
 import { BlobData, BlobMetadata } from "./types";
 
 export const createInMemoryBlobStorage = () => {
@@ -17,12 +19,23 @@ export const createInMemoryBlobStorage = () => {
     delete: async (id) => {
       blobStorage.delete(id);
     },
-    get: async (id) => {
-      return blobStorage.get(id)?.data || null;
+    get: async (id, range) => {
+      const data = blobStorage.get(id)?.data;
+      if (!data) return null;
+      return range ? sliceBlobData(data, range) : data;
     },
     info: async (id) => {
       return blobStorage.get(id)?.metadata || null;
     },
+    updateMetadata: async (id, metadata) => {
+      const blob = blobStorage.get(id);
+      if (blob) blob.metadata = metadata as any;
+    },
+    list: async function* ({ prefix = "", after }) {
+      yield* [...blobStorage.keys()]
+        .filter((id) => id.startsWith(prefix) && (!after || id > after))
+        .sort();
+    },
   });
 };
 
@@ -33,11 +46,25 @@ export const createExpressApp = () => {
   return app;
 };
 
-export const createMcpServerClientPair = async () => {
-  const server = new McpServer({ name: "Test DKG Server", version: "1.0.0" });
+/**
+ * With `auth`, the server is a `DkgMcpServer` that enforces tool scopes,
+ * and the requests of the client are authenticated with it.
+ * Otherwise all tools are available.
+ */
+export const createMcpServerClientPair = async (auth?: AuthInfo) => {
+  const serverInfo = { name: "Test DKG Server", version: "1.0.0" };
+  const server = auth
+    ? new DkgMcpServer(serverInfo, { auth })
+    : new McpServer(serverInfo);
   const client = new Client({ name: "Test DKG Client", version: "1.0.0" });
   const [serverTransport, clientTransport] =
     InMemoryTransport.createLinkedPair();
+  if (auth) {
+    // Given to the handlers as `extra.authInfo`, like with HTTP transports
+    const send = clientTransport.send.bind(clientTransport);
+    clientTransport.send = (message, options) =>
+      send(message, { ...options, authInfo: auth });
+  }
 
   return {
     server,
@@ -61,6 +88,7 @@ export const createMockDkgClient = () => ({
   asset: {
     get: () => Promise.resolve({}),
     create: () => Promise.resolve({}),
+    submitToParanet: () => Promise.resolve({}),
   },
   blockchain: {
     get: () => Promise.resolve({}),
@@ -79,5 +107,8 @@ export const createMockDkgClient = () => ({
   },
   paranet: {
     get: () => Promise.resolve({}),
+    create: () => Promise.resolve({}),
+    stageKnowledgeCollection: () => Promise.resolve({}),
+    reviewKnowledgeCollection: () => Promise.resolve({}),
   },
 });
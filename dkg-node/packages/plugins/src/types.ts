@@ -4,20 +4,61 @@ export type { express };
 
 export type BlobData = ReadableStream<Uint8Array>;
 
+/** Access to a blob that can be granted to other users than its owner */
+export type BlobAccess = "read" | "write";
+
 type DefaultMetadata = {
   name: string;
   mimeType?: string;
   lastModified?: Date;
   size?: number;
+  /** ID of the user that uploaded the blob */
+  owner?: string;
+  /** Access granted to other users, by their IDs */
+  shares?: Record<string, BlobAccess>;
+  /** Hex SHA-256 digest of the content, set by content-addressed storages */
+  digest?: string;
+  /** ISO date after which the blob is deleted, instead of the retention policy */
+  expiresAt?: string;
 };
 
 export type BlobMetadata = Record<string, any> & DefaultMetadata;
 
+/** Byte range of a blob, with both offsets inclusive (as in HTTP `Range`) */
+export type BlobRange = {
+  start: number;
+  /** Defaults to the end of the blob */
+  end?: number;
+};
+
+export type BlobListOptions = {
+  /** Only blobs with IDs starting with this prefix */
+  prefix?: string;
+  /** Only blobs uploaded by this user (`owner` metadata) */
+  owner?: string;
+  /** Exact MIME type, or all subtypes of a type, i.e. "image/*" */
+  mimeType?: string;
+  /** Cursor returned with the previous page */
+  cursor?: string;
+  /** Maximum number of blobs in the page, defaults to 100 */
+  limit?: number;
+};
+
+export type BlobListResult = {
+  blobs: (BlobMetadata & { id: string })[];
+  /** Only set if there are more blobs */
+  cursor?: string;
+};
+
 export interface BlobStorage {
   generateId: (metadata: BlobMetadata) => Promise<string> | string;
   info: (id: string) => Promise<BlobMetadata | null>;
   exists: (id: string) => Promise<boolean>;
-  get: (id: string) => Promise<{
+  /** With a `range`, only that part of the data is read */
+  get: (
+    id: string,
+    options?: { range?: BlobRange },
+  ) => Promise<{
     data: BlobData;
     metadata: BlobMetadata;
   } | null>;
@@ -31,4 +72,15 @@ export interface BlobStorage {
     metadata: Omit<BlobMetadata, "lastModified" | "size">,
   ) => Promise<void>;
   delete: (id: string) => Promise<void>;
+  /** Merges the metadata into the existing one, without modifying the data */
+  updateMetadata: (
+    id: string,
+    metadata: Partial<Omit<BlobMetadata, "name" | "lastModified" | "size">>,
+  ) => Promise<BlobMetadata | null>;
+  /** Blobs with IDs starting with a dot are internal and never listed */
+  list: (options?: BlobListOptions) => Promise<BlobListResult>;
+  /** Total size of the blobs of the owner, in bytes */
+  usage: (owner: string) => Promise<number>;
+  /** Deletes the expired blobs and returns their IDs */
+  sweep: () => Promise<string[]>;
 }
@@ -0,0 +1,164 @@
+import { describe, it, beforeEach } from "mocha";
+import { expect } from "chai";
+import consumers from "stream/consumers";
+import { ReadableStream } from "stream/web";
+import {
+  BlobQuotaExceededError,
+  createBlobStorage,
+  type BlobStorageHandlers,
+} from "../dist/helpers.js";
+import type { BlobStorage } from "../dist/types.js";
+
+/** Storage that keeps the data in memory and records its size, written slowly */
+const createSizedHandlers = (): BlobStorageHandlers => {
+  const blobs = new Map<
+    string,
+    { data: Buffer; metadata: Record<string, unknown> }
+  >();
+
+  return {
+    put: async (id, data, metadata) => {
+      const content = await consumers.buffer(data);
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      blobs.set(id, { data: content, metadata });
+    },
+    delete: async (id) => {
+      blobs.delete(id);
+    },
+    get: async (id) => {
+      const blob = blobs.get(id);
+      return blob ? ReadableStream.from([new Uint8Array(blob.data)]) : null;
+    },
+    info: async (id) => {
+      const blob = blobs.get(id);
+      return blob ? { ...blob.metadata, size: blob.data.byteLength } : null;
+    },
+    updateMetadata: async (id, metadata) => {
+      const blob = blobs.get(id);
+      if (blob) blob.metadata = metadata;
+    },
+    list: async function* ({ prefix = "", after }) {
+      yield* [...blobs.keys()]
+        .filter((id) => id.startsWith(prefix) && (!after || id > after))
+        .sort();
+    },
+  };
+};
+
+const toData = (text: string) =>
+  ReadableStream.from([new TextEncoder().encode(text)]);
+
+describe("Blob storage quota", () => {
+  let handlers: BlobStorageHandlers;
+  let storage: BlobStorage;
+
+  beforeEach(() => {
+    handlers = createSizedHandlers();
+    storage = createBlobStorage(handlers, { quota: 10 });
+  });
+
+  it("should reject blobs over the quota of their owner", async () => {
+    await storage.create(toData("123456"), { name: "a.txt", owner: "alice" });
+
+    const error = await storage
+      .create(toData("123456"), { name: "b.txt", owner: "alice" })
+      .catch((error: Error) => error);
+
+    expect(error).to.be.instanceOf(BlobQuotaExceededError);
+    expect(await storage.usage("alice")).to.equal(6);
+  });
+
+  it("should apply the quota to each owner separately", async () => {
+    await storage.create(toData("123456"), { name: "a.txt", owner: "alice" });
+    await storage.create(toData("123456"), { name: "b.txt", owner: "bob" });
+
+    expect(await storage.usage("alice")).to.equal(6);
+    expect(await storage.usage("bob")).to.equal(6);
+  });
+
+  it("should not count overwritten blobs", async () => {
+    const { id } = await storage.create(toData("123456"), {
+      name: "a.txt",
+      owner: "alice",
+    });
+
+    await storage.put(id, toData("1234567890"), {
+      name: "a.txt",
+      owner: "alice",
+    });
+
+    expect(await storage.usage("alice")).to.equal(10);
+  });
+
+  it("should not exceed the quota with concurrent uploads", async () => {
+    const results = await Promise.allSettled(
+      ["a.txt", "b.txt", "c.txt"].map((name) =>
+        storage.create(toData("123456"), { name, owner: "alice" }),
+      ),
+    );
+
+    expect(results.map((r) => r.status)).to.deep.equal([
+      "fulfilled",
+      "rejected",
+      "rejected",
+    ]);
+    expect(await storage.usage("alice")).to.equal(6);
+  });
+
+  it("should only list the blobs once to compute the usages", async () => {
+    const list = handlers.list;
+    let listings = 0;
+    handlers.list = (options) => {
+      listings++;
+      return list(options);
+    };
+
+    await storage.create(toData("12"), { name: "a.txt", owner: "alice" });
+    await storage.create(toData("12"), { name: "b.txt", owner: "alice" });
+    await storage.create(toData("12"), { name: "c.txt", owner: "bob" });
+
+    expect(await storage.usage("alice")).to.equal(4);
+    expect(await storage.usage("bob")).to.equal(2);
+    expect(listings).to.equal(1);
+  });
+
+  it("should update the usages on deletes and owner changes", async () => {
+    const { id } = await storage.create(toData("123456"), {
+      name: "a.txt",
+      owner: "alice",
+    });
+    const { id: other } = await storage.create(toData("12"), {
+      name: "b.txt",
+      owner: "alice",
+    });
+
+    await storage.updateMetadata(id, { owner: "bob" });
+    expect(await storage.usage("alice")).to.equal(2);
+    expect(await storage.usage("bob")).to.equal(6);
+
+    await storage.delete(other);
+    expect(await storage.usage("alice")).to.equal(0);
+  });
+
+  it("should recompute the usages on sweeps", async () => {
+    await storage.create(toData("123456"), { name: "a.txt", owner: "alice" });
+    // Written by another instance
+    await handlers.put("b.txt", toData("1234"), {
+      name: "b.txt",
+      owner: "alice",
+    });
+    expect(await storage.usage("alice")).to.equal(6);
+
+    await storage.sweep();
+
+    expect(await storage.usage("alice")).to.equal(10);
+  });
+
+  it("should not limit blobs without an owner", async () => {
+    await storage.create(toData("1234567890"), { name: "a.txt" });
+    await storage.create(toData("1234567890"), { name: "b.txt" });
+
+    const { blobs } = await storage.list();
+    expect(blobs).to.have.length(2);
+  });
+});
@@ -0,0 +1,566 @@
+import { describe, it, beforeEach, afterEach } from "mocha";
+import { expect } from "chai";
+import sinon from "sinon";
+import express from "express";
+import request from "supertest";
+import { z } from "zod";
+import {
+  createInMemoryMcpSessionStore,
+  createPluginServer,
+  createRedisMcpSessionStore,
+  defineDkgPlugin,
+  type DkgPluginServer,
+  type McpSessionOptions,
+  type McpSessionRecord,
+  type McpSessionStore,
+  type RedisClient,
+} from "../dist/index.js";
+import {
+  createInMemoryBlobStorage,
+  createMockDkgClient,
+} from "../dist/testing.js";
+
+// Mock DKG context
+const mockDkgContext = {
+  dkg: createMockDkgClient(),
+  blob: createInMemoryBlobStorage(),
+};
+
+/** In-memory implementation of the Redis commands used by the store, without expiry */
+const createMockRedisClient = () => {
+  const strings = new Map<string, string>();
+  const hashes = new Map<string, Record<string, string>>();
+  const sets = new Map<string, Set<string>>();
+  const lists = new Map<string, string[]>();
+  const index = (i: number, length: number) => (i < 0 ? length + i : i);
+
+  const client: RedisClient = {
+    get: async (key) => strings.get(key) ?? null,
+    set: async (
+      key: string,
+      value: string,
+      _mode: "PX",
+      _milliseconds: number,
+      condition?: "XX",
+    ) => {
+      if (condition === "XX" && !strings.has(key)) return null;
+      strings.set(key, value);
+      return "OK";
+    },
+    del: async (...keys) =>
+      keys.filter(
+        (key) => strings.delete(key) || hashes.delete(key) || lists.delete(key),
+      ).length,
+    incr: async (key) => client.decrby(key, -1),
+    decrby: async (key, decrement) => {
+      const value = Number(strings.get(key) ?? 0) - decrement;
+      strings.set(key, String(value));
+      return value;
+    },
+    pexpire: async () => 1,
+    hincrby: async (key, field, increment) => {
+      const hash = hashes.get(key) ?? {};
+      hash[field] = String(Number(hash[field] ?? 0) + increment);
+      hashes.set(key, hash);
+      return Number(hash[field]);
+    },
+    hgetall: async (key) => ({ ...hashes.get(key) }),
+    sadd: async (key, ...members) => {
+      const set = sets.get(key) ?? new Set();
+      members.forEach((member) => set.add(member));
+      sets.set(key, set);
+      return members.length;
+    },
+    srem: async (key, ...members) =>
+      members.filter((member) => sets.get(key)?.delete(member)).length,
+    smembers: async (key) => [...(sets.get(key) ?? [])],
+    rpush: async (key, ...values) => {
+      const list = lists.get(key) ?? [];
+      list.push(...values);
+      lists.set(key, list);
+      return list.length;
+    },
+    ltrim: async (key, start, stop) => {
+      const list = lists.get(key) ?? [];
+      lists.set(
+        key,
+        list.slice(
+          Math.max(index(start, list.length), 0),
+          index(stop, list.length) + 1,
+        ),
+      );
+      return "OK";
+    },
+    lrange: async (key, start, stop) => {
+      const list = lists.get(key) ?? [];
+      return list.slice(
+        index(start, list.length),
+        index(stop, list.length) + 1,
+      );
+    },
+  };
+  return { client, strings };
+};
+
+const createSession = (
+  id: string,
+  lastActivityAt = 1000,
+): McpSessionRecord => ({
+  id,
+  createdAt: 1000,
+  lastActivityAt,
+  userId: "user-1",
+  scopes: ["mcp"],
+  toolCalls: {},
+});
+
+const collectReplayed = async (store: McpSessionStore, lastEventId: string) => {
+  const replayed: string[] = [];
+  const streamId = await store.eventStore!.replayEventsAfter(lastEventId, {
+    send: async (eventId) => {
+      replayed.push(eventId);
+    },
+  });
+  return { streamId, replayed };
+};
+
+const testSessionStore = (createStore: () => McpSessionStore) => {
+  let store: McpSessionStore;
+
+  beforeEach(() => {
+    store = createStore();
+  });
+
+  it("should store, list and delete sessions", async () => {
+    await store.set(createSession("a"));
+    await store.set(createSession("b"));
+
+    expect(await store.get("a")).to.deep.equal(createSession("a"));
+    expect((await store.list()).map((s) => s.id).sort()).to.deep.equal([
+      "a",
+      "b",
+    ]);
+
+    await store.delete("a");
+    expect(await store.get("a")).to.equal(null);
+    expect((await store.list()).map((s) => s.id)).to.deep.equal(["b"]);
+  });
+
+  it("should update the activity and tool calls of sessions", async () => {
+    await store.set(createSession("a"));
+    await store.touch("a", 2000);
+    await store.recordToolCall("a", "dkg-get");
+    await store.recordToolCall("a", "dkg-get");
+    await store.recordToolCall("a", "dkg-create");
+
+    const session = await store.get("a");
+    expect(session?.lastActivityAt).to.equal(2000);
+    expect(session?.toolCalls).to.deep.equal({ "dkg-get": 2, "dkg-create": 1 });
+  });
+
+  it("should ignore updates of missing sessions", async () => {
+    await store.touch("missing", 2000);
+    await store.recordToolCall("missing", "dkg-get");
+
+    expect(await store.get("missing")).to.equal(null);
+    expect(await store.list()).to.deep.equal([]);
+  });
+
+  it("should count reserved sessions until they are deleted", async () => {
+    expect(await store.reserve(2)).to.equal(true);
+    await store.set(createSession("a"));
+    expect(await store.reserve(2)).to.equal(true);
+    expect(await store.reserve(2)).to.equal(false);
+
+    // Reserved, but never stored
+    await store.release();
+    expect(await store.reserve(2)).to.equal(true);
+
+    await store.delete("a");
+    await store.delete("a");
+    expect(await store.reserve(2)).to.equal(true);
+    expect(await store.reserve(2)).to.equal(false);
+  });
+
+  it("should replay the events after the last one", async () => {
+    const eventStore = store.eventStore!;
+    const message = { jsonrpc: "2.0" as const, method: "ping" };
+    const first = await eventStore.storeEvent("stream", message);
+    const second = await eventStore.storeEvent("stream", message);
+    const third = await eventStore.storeEvent("stream", message);
+    await eventStore.storeEvent("other", message);
+
+    expect(await collectReplayed(store, first)).to.deep.equal({
+      streamId: "stream",
+      replayed: [second, third],
+    });
+    expect(await collectReplayed(store, "unknown")).to.deep.equal({
+      streamId: "",
+      replayed: [],
+    });
+  });
+};
+
+describe("MCP sessions", () => {
+  describe("In-memory session store", () => {
+    testSessionStore(() => createInMemoryMcpSessionStore());
+
+    it("should drop the oldest events", async () => {
+      const store = createInMemoryMcpSessionStore({ maxEventsPerStream: 2 });
+      const message = { jsonrpc: "2.0" as const, method: "ping" };
+      const first = await store.eventStore!.storeEvent("stream", message);
+      const second = await store.eventStore!.storeEvent("stream", message);
+      const third = await store.eventStore!.storeEvent("stream", message);
+
+      expect((await collectReplayed(store, first)).replayed).to.deep.equal([]);
+      expect((await collectReplayed(store, second)).replayed).to.deep.equal([
+        third,
+      ]);
+    });
+  });
+
+  describe("Redis session store", () => {
+    testSessionStore(() =>
+      createRedisMcpSessionStore(createMockRedisClient().client),
+    );
+
+    it("should remove expired sessions from the index", async () => {
+      const { client, strings } = createMockRedisClient();
+      const store = createRedisMcpSessionStore(client, { prefix: "test:" });
+      await store.set(createSession("a"));
+      await store.set(createSession("b"));
+
+      // Expired by the TTL
+      strings.delete("test:session:a");
+
+      expect((await store.list()).map((s) => s.id)).to.deep.equal(["b"]);
+      expect(await client.smembers("test:sessions")).to.deep.equal(["b"]);
+    });
+
+    it("should not count expired sessions", async () => {
+      const { client, strings } = createMockRedisClient();
+      const store = createRedisMcpSessionStore(client, { prefix: "test:" });
+      await store.reserve(1);
+      await store.set(createSession("a"));
+      expect(await store.reserve(1)).to.equal(false);
+
+      strings.delete("test:session:a");
+      await store.list();
+
+      expect(await store.reserve(1)).to.equal(true);
+    });
+
+    it("should not recreate deleted sessions when touched", async () => {
+      const { client, strings } = createMockRedisClient();
+      const store = createRedisMcpSessionStore(client, { prefix: "test:" });
+      await store.set(createSession("a"));
+      await store.delete("a");
+
+      await store.touch("a", 2000);
+
+      expect(await store.get("a")).to.equal(null);
+      expect(strings.has("test:activity:a")).to.equal(false);
+    });
+
+    it("should drop the oldest events", async () => {
+      const store = createRedisMcpSessionStore(createMockRedisClient().client, {
+        maxEventsPerStream: 2,
+      });
+      const message = { jsonrpc: "2.0" as const, method: "ping" };
+      const first = await store.eventStore!.storeEvent("stream", message);
+      const second = await store.eventStore!.storeEvent("stream", message);
+      const third = await store.eventStore!.storeEvent("stream", message);
+
+      expect((await collectReplayed(store, first)).replayed).to.deep.equal([]);
+      expect((await collectReplayed(store, second)).replayed).to.deep.equal([
+        third,
+      ]);
+    });
+  });
+
+  describe("MCP session routes", () => {
+    let app: DkgPluginServer;
+    let store: McpSessionStore;
+
+    /** Authenticates requests as the user and scopes in the test headers */
+    const testAuthPlugin = defineDkgPlugin({
+      name: "test-auth",
+      before: ["*"],
+      registerApi(_ctx, api) {
+        api.use(express.json());
+        api.use((req, _res, next) => {
+          const userId = req.headers["x-test-user"]?.toString();
+          if (userId)
+            req.auth = {
+              token: "token",
+              clientId: "client",
+              scopes: req.headers["x-test-scopes"]?.toString().split(" ") ?? [],
+              extra: { userId },
+            };
+          next();
+        });
+      },
+    });
+    const echoPlugin = defineDkgPlugin({
+      name: "echo",
+      registerMcp(_ctx, mcp) {
+        mcp.registerTool(
+          "echo",
+          { inputSchema: { text: z.string() } },
+          async ({ text }) => ({ content: [{ type: "text", text }] }),
+        );
+      },
+    });
+
+    const createServer = (options: McpSessionOptions = {}) => {
+      store = options.store ?? createInMemoryMcpSessionStore();
+      app = createPluginServer({
+        name: "Test DKG Server",
+        version: "1.0.0",
+        context: mockDkgContext,
+        plugins: [testAuthPlugin, echoPlugin],
+        env: {},
+        mcp: { ...options, store },
+      });
+    };
+
+    const postMcp = (
+      body: unknown,
+      { user = "user-1", scopes = "mcp", sessionId = "" } = {},
+    ) => {
+      const req = request(app)
+        .post("/mcp")
+        .set("Accept", "application/json, text/event-stream")
+        .set("Content-Type", "application/json")
+        .set("x-test-user", user)
+        .set("x-test-scopes", scopes);
+      if (sessionId) req.set("mcp-session-id", sessionId);
+      return req.send(body as object);
+    };
+
+    const initialize = async (options?: { user?: string; scopes?: string }) => {
+      const response = await postMcp(
+        {
+          jsonrpc: "2.0",
+          id: 1,
+          method: "initialize",
+          params: {
+            protocolVersion: "2025-06-18",
+            capabilities: {},
+            clientInfo: { name: "test-client", version: "1.0.0" },
+          },
+        },
+        options,
+      );
+      expect(response.status).to.equal(200);
+      return response.headers["mcp-session-id"] as string;
+    };
+
+    const callEcho = (
+      sessionId: string,
+      options?: { user?: string; scopes?: string },
+    ) =>
+      postMcp(
+        {
+          jsonrpc: "2.0",
+          id: 2,
+          method: "tools/call",
+          params: { name: "echo", arguments: { text: "hello" } },
+        },
+        { ...options, sessionId },
+      );
+
+    beforeEach(() => {
+      createServer();
+    });
+
+    afterEach(async () => {
+      await app.close();
+      sinon.restore();
+    });
+
+    it("should store the sessions with their user and scopes", async () => {
+      const sessionId = await initialize({ scopes: "mcp blob" });
+
+      const session = await store.get(sessionId);
+      expect(session?.userId).to.equal("user-1");
+      expect(session?.scopes).to.deep.equal(["mcp", "blob"]);
+      expect(session?.initialize?.clientInfo.name).to.equal("test-client");
+    });
+
+    it("should list the sessions with their tool calls", async () => {
+      const sessionId = await initialize();
+      const response = await callEcho(sessionId);
+      expect(response.status).to.equal(200);
+      expect(response.text).to.include("hello");
+
+      const { body } = await request(app).get("/mcp/sessions").expect(200);
+      expect(body.sessions).to.have.length(1);
+      expect(body.sessions[0]).to.include({
+        id: sessionId,
+        protocolVersion: "2025-06-18",
+        userId: "user-1",
+      });
+      expect(body.sessions[0].client).to.deep.equal({
+        name: "test-client",
+        version: "1.0.0",
+      });
+      expect(body.sessions[0].toolCalls).to.deep.equal({ echo: 1 });
+      expect(Date.parse(body.sessions[0].createdAt)).to.not.be.NaN;
+    });
+
+    it("should delete sessions", async () => {
+      const sessionId = await initialize();
+
+      await request(app).delete(`/mcp/sessions/${sessionId}`).expect(204);
+      await request(app).delete(`/mcp/sessions/${sessionId}`).expect(404);
+
+      expect(await store.get(sessionId)).to.equal(null);
+      const response = await callEcho(sessionId);
+      expect(response.status).to.equal(400);
+    });
+
+    it("should reject requests of other users to the session", async () => {
+      const sessionId = await initialize();
+
+      const response = await callEcho(sessionId, { user: "user-2" });
+      expect(response.status).to.equal(403);
+      expect(response.body.error.message).to.equal(
+        "Forbidden: Session belongs to another user",
+      );
+
+      await request(app)
+        .get("/mcp")
+        .set("Accept", "text/event-stream")
+        .set("x-test-user", "user-2")
+        .set("x-test-scopes", "mcp")
+        .set("mcp-session-id", sessionId)
+        .expect(403);
+      await request(app)
+        .delete("/mcp")
+        .set("x-test-user", "user-2")
+        .set("x-test-scopes", "mcp")
+        .set("mcp-session-id", sessionId)
+        .expect(403);
+
+      expect(await store.get(sessionId)).to.not.equal(null);
+      expect((await store.get(sessionId))?.toolCalls).to.deep.equal({});
+    });
+
+    it("should reject requests with other scopes to the session", async () => {
+      const sessionId = await initialize({ scopes: "mcp" });
+
+      const response = await callEcho(sessionId, { scopes: "mcp admin" });
+      expect(response.status).to.equal(403);
+
+      const owner = await callEcho(sessionId, { scopes: "mcp" });
+      expect(owner.status).to.equal(200);
+    });
+
+    it("should reject new sessions when the limit is reached", async () => {
+      await app.close();
+      createServer({ maxSessions: 1 });
+      await initialize();
+
+      const response = await postMcp({
+        jsonrpc: "2.0",
+        id: 1,
+        method: "initialize",
+        params: {
+          protocolVersion: "2025-06-18",
+          capabilities: {},
+          clientInfo: { name: "test-client", version: "1.0.0" },
+        },
+      });
+      expect(response.status).to.equal(503);
+      expect(response.body.error.message).to.equal(
+        "Maximum number of MCP sessions reached",
+      );
+    });
+
+    it("should not exceed the limit with concurrent new sessions", async () => {
+      await app.close();
+      createServer({ maxSessions: 1 });
+
+      const responses = await Promise.all(
+        [1, 2].map(() =>
+          postMcp({
+            jsonrpc: "2.0",
+            id: 1,
+            method: "initialize",
+            params: {
+              protocolVersion: "2025-06-18",
+              capabilities: {},
+              clientInfo: { name: "test-client", version: "1.0.0" },
+            },
+          }),
+        ),
+      );
+
+      expect(responses.map((r) => r.status).sort()).to.deep.equal([200, 503]);
+      expect(await store.list()).to.have.length(1);
+    });
+
+    it("should not count sessions that failed to initialize", async () => {
+      await app.close();
+      createServer({ maxSessions: 1 });
+
+      // Rejected by the transport, since the client does not accept SSE
+      await request(app)
+        .post("/mcp")
+        .set("Accept", "application/json")
+        .set("x-test-user", "user-1")
+        .send({
+          jsonrpc: "2.0",
+          id: 1,
+          method: "initialize",
+          params: {
+            protocolVersion: "2025-06-18",
+            capabilities: {},
+            clientInfo: { name: "test-client", version: "1.0.0" },
+          },
+        })
+        .expect(406);
+
+      await initialize();
+    });
+
+    it("should evict idle sessions", async () => {
+      await app.close();
+      createServer({ idleTimeout: 50 });
+      const sessionId = await initialize();
+
+      await new Promise((resolve) => setTimeout(resolve, 200));
+
+      expect(await store.list()).to.deep.equal([]);
+      const response = await callEcho(sessionId);
+      expect(response.status).to.equal(400);
+    });
+
+    it("should restore sessions started on another instance", async () => {
+      const sessionId = await initialize();
+      const otherApp = app;
+      createServer({ store });
+
+      try {
+        const response = await callEcho(sessionId);
+        expect(response.status).to.equal(200);
+        expect(response.text).to.include("hello");
+      } finally {
+        await otherApp.close();
+      }
+    });
+
+    it("should ignore batch entries that are not requests", async () => {
+      const sessionId = await initialize();
+      // Invalid messages are reported by the transport
+      sinon.stub(console, "error");
+
+      const response = await postMcp([1, null, "text"], { sessionId });
+      expect(response.status).to.equal(400);
+
+      const session = await store.get(sessionId);
+      expect(session?.toolCalls).to.deep.equal({});
+    });
+  });
+});
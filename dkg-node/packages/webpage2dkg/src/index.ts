@@ -1,5 +1,11 @@
 import { defineDkgPlugin } from "@dkg/plugins";
 import { z } from "@dkg/plugin-swagger";
+// Declares the "jsonldLoader" service
+import type {} from "@dkg/plugin-dkg-essentials";
+import {
+  getDefaultJsonLdLoader,
+  type DocumentLoader,
+} from "@dkg/jsonld-loader";
 import { chromium, Browser, BrowserContext, Page } from "playwright";
 import * as cheerio from "cheerio";
 import { DataFactory, Writer, Quad, Parser } from "n3";
@@ -172,7 +178,10 @@ export default defineDkgPlugin((ctx, mcp) => {
       if (!fs.existsSync(runDir)) fs.mkdirSync(runDir, { recursive: true });
 
       if (outputFormat === "rdf") {
-        const rdf = await buildRdfFromPage(content);
+        const rdf = await buildRdfFromPage(
+          content,
+          ctx.services.use("jsonldLoader").load,
+        );
         const hash = createHash("sha256").update(rdf).digest("hex");
         fs.writeFileSync(path.join(runDir, `${hash}.ttl`), rdf, "utf8");
         return {
@@ -211,6 +220,7 @@ export default defineDkgPlugin((ctx, mcp) => {
         url: z.string(),
         reasoningType: z.enum(["none", "symbolic", "neural", "neurosymbolic"]),
       },
+      scopes: ["dkg:publish"],
     },
     async ({ url }) => {
       const pages = await crawlWebsite(url);
@@ -282,6 +292,7 @@ export default defineDkgPlugin((ctx, mcp) => {
 
 export async function buildRdfFromPage(
   page: DownloadedPageContent,
+  documentLoader: DocumentLoader = getDefaultJsonLdLoader().load,
 ): Promise<string> {
   const base = page.finalUrl || page.initialUrl;
   const $ = cheerio.load(page.content);
@@ -438,6 +449,8 @@ export async function buildRdfFromPage(
     const dataset = await jsonld.toRDF(doc as jsonld.JsonLdDocument, {
       base,
       format: "application/n-quads",
+      // Resolves i.e. schema.org without the network
+      documentLoader,
     });
     const parser = new Parser({ baseIRI: base });
     return parser.parse(dataset as unknown as string);